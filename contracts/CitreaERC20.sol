@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.26;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {ERC20Burnable} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+
+/// @notice ERC20 template deployed by deploy_erc20_token. The initial supply goes to the deployer,
+/// who owns the token. Minting, burning and the supply cap are fixed at deployment.
+contract CitreaERC20 is ERC20, ERC20Burnable, Ownable {
+    uint8 private immutable _decimals;
+    bool public immutable mintable;
+    bool public immutable burnable;
+    /// @notice Maximum total supply in base units; 0 means uncapped
+    uint256 public immutable cap;
+
+    error MintingDisabled();
+    error BurningDisabled();
+    error CapExceeded(uint256 supply, uint256 cap);
+
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_,
+        uint256 initialSupply,
+        bool mintable_,
+        bool burnable_,
+        uint256 cap_
+    ) ERC20(name_, symbol_) Ownable(msg.sender) {
+        _decimals = decimals_;
+        mintable = mintable_;
+        burnable = burnable_;
+        cap = cap_;
+        _mint(msg.sender, initialSupply);
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+
+    function mint(address to, uint256 amount) external onlyOwner {
+        if (!mintable) revert MintingDisabled();
+        _mint(to, amount);
+    }
+
+    function burn(uint256 amount) public override {
+        if (!burnable) revert BurningDisabled();
+        super.burn(amount);
+    }
+
+    function burnFrom(address account, uint256 amount) public override {
+        if (!burnable) revert BurningDisabled();
+        super.burnFrom(account, amount);
+    }
+
+    function _update(address from, address to, uint256 value) internal override {
+        super._update(from, to, value);
+        if (from == address(0) && cap != 0 && totalSupply() > cap) {
+            revert CapExceeded(totalSupply(), cap);
+        }
+    }
+}
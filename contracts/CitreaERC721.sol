@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.26;
+
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+
+/// @notice ERC721 template deployed by deploy_nft_collection. The deployer owns the collection
+/// and mints tokens with sequential IDs starting at 1; token URIs are baseURI + tokenId.
+contract CitreaERC721 is ERC721, Ownable {
+    string private _baseTokenURI;
+    /// @notice Largest number of tokens that can ever be minted; 0 means unlimited
+    uint256 public immutable maxSupply;
+    uint256 public totalSupply;
+
+    error MaxSupplyReached(uint256 maxSupply);
+
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        string memory baseURI_,
+        uint256 maxSupply_
+    ) ERC721(name_, symbol_) Ownable(msg.sender) {
+        _baseTokenURI = baseURI_;
+        maxSupply = maxSupply_;
+    }
+
+    /// @notice Mints the next token ID to `to` and returns it
+    function mint(address to) external onlyOwner returns (uint256 tokenId) {
+        if (maxSupply != 0 && totalSupply >= maxSupply) revert MaxSupplyReached(maxSupply);
+        tokenId = ++totalSupply;
+        _safeMint(to, tokenId);
+    }
+
+    function _baseURI() internal view override returns (string memory) {
+        return _baseTokenURI;
+    }
+}
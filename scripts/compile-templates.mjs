@@ -0,0 +1,65 @@
+// Compiles contracts/*.sol with the pinned solc and writes the ABIs and bytecode
+// used by the deployment templates to src/tools/citrea/templateArtifacts.ts.
+// Run with `npm run build:templates` after changing a contract.
+import { readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import solc from 'solc';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const require = createRequire(import.meta.url);
+const output = join(root, 'src/tools/citrea/templateArtifacts.ts');
+
+// Paris bytecode (no PUSH0 or MCOPY) deploys on any EVM version a network profile or local fork may run
+const EVM_VERSION = 'paris';
+
+const sources = Object.fromEntries(
+  readdirSync(join(root, 'contracts'))
+    .filter((file) => file.endsWith('.sol'))
+    .map((file) => [file, { content: readFileSync(join(root, 'contracts', file), 'utf8') }])
+);
+
+const input = {
+  language: 'Solidity',
+  sources,
+  settings: {
+    evmVersion: EVM_VERSION,
+    optimizer: { enabled: true, runs: 200 },
+    outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object'] } },
+  },
+};
+
+const findImports = (path) => {
+  try {
+    return { contents: readFileSync(require.resolve(path), 'utf8') };
+  } catch {
+    return { error: `Cannot find ${path}` };
+  }
+};
+
+const result = JSON.parse(solc.compile(JSON.stringify(input), { import: findImports }));
+const errors = (result.errors ?? []).filter((error) => error.severity === 'error');
+if (errors.length) {
+  console.error(errors.map((error) => error.formattedMessage).join('\n'));
+  process.exit(1);
+}
+
+const artifacts = Object.keys(sources).flatMap((file) =>
+  Object.entries(result.contracts[file]).map(([name, contract]) => [name, contract])
+);
+
+const lines = [
+  `// Generated by scripts/compile-templates.mjs with solc ${solc.version()} (evmVersion ${EVM_VERSION}, optimizer 200 runs). Do not edit.`,
+  '// Sources: contracts/*.sol, built on @openzeppelin/contracts.',
+  '',
+];
+for (const [name, contract] of artifacts) {
+  lines.push(`export const ${name[0].toLowerCase()}${name.slice(1)}Artifact = {`);
+  lines.push(`  abi: ${JSON.stringify(contract.abi)},`);
+  lines.push(`  bytecode: "0x${contract.evm.bytecode.object}",`);
+  lines.push('} as const;', '');
+}
+
+writeFileSync(output, lines.join('\n'));
+console.log(`Wrote ${artifacts.map(([name]) => name).join(', ')} to ${output}`);
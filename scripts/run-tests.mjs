@@ -0,0 +1,35 @@
+// Runs every test/*.test.ts that works against the local mock chain, one file
+// at a time, and fails if any of them does. balance.test.ts needs a live
+// network and an LLM, so it only runs with `npm run test:live`.
+// Run with `npm test`, or pass file names to run just those.
+import { spawnSync } from 'node:child_process';
+import { readdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+
+const LIVE_TESTS = ['balance.test.ts'];
+// A file that hangs, e.g. on a mock server left open, fails instead of stalling the run
+const TIMEOUT_MS = 120_000;
+
+const files = process.argv.length > 2
+  ? process.argv.slice(2).map((file) => file.replace(/^test\//, ''))
+  : readdirSync(join(root, 'test')).filter((file) => file.endsWith('.test.ts') && !LIVE_TESTS.includes(file)).sort();
+
+const failed = [];
+for (const file of files) {
+  console.log(`\n📂 test/${file}`);
+  const run = spawnSync(process.execPath, ['--loader', 'ts-node/esm', join('test', file)], {
+    cwd: root,
+    stdio: 'inherit',
+    timeout: TIMEOUT_MS,
+  });
+  if (run.status !== 0) failed.push(file);
+}
+
+console.log(`\n${files.length - failed.length} of ${files.length} test files passed`);
+if (failed.length) {
+  console.error(`Failed: ${failed.join(', ')}`);
+  process.exitCode = 1;
+}
@@ -1,18 +1,76 @@
 import { transferETH } from './tools/citrea/ETHOperations.js';
-import { transferErc20, burnErc20 } from './tools/citrea/erc20Operations.js';
+import { transferErc20, burnErc20, mintErc20, approveErc20, revokeAllowance, getAllowance } from './tools/citrea/erc20Operations.js';
+import { signPermit, supportsPermit } from './tools/citrea/permitOperations.js';
+import { saveContact, lookupContact, listContacts } from './tools/citrea/contactOperations.js';
+import { batchTransfer, type BatchTransferRow, type BatchTransferReport } from './tools/citrea/batchOperations.js';
 import { getETHBalance } from './tools/citrea/getETHBalance.js';
 import { getErc20Balance } from './tools/citrea/getErc20Balance.js';
+import { getPortfolio } from './tools/citrea/getPortfolio.js';
+import { getNftBalance, getNftMetadata, setNftApprovalForAll } from './tools/citrea/nftOperations.js';
+import { getNftOwner, transferErc721, approveErc721, mintErc721 } from './tools/citrea/erc721Operations.js';
+import { transferErc1155 } from './tools/citrea/erc1155Operations.js';
 import { deployContract } from './tools/citrea/deployContract.js';
-import { initializeClient, setCurrentPrivateKey } from './core/client.js';
+import { deployErc20Token, deployNftCollection } from './tools/citrea/deployTemplates.js';
+import {
+  swapExactTokensForTokens,
+  swapTokensForExactTokens,
+  exactInputSingle,
+  exactOutputSingle,
+  exactInput,
+  exactOutput,
+  type SwapExactTokensForTokensParams,
+  type SwapTokensForExactTokensParams,
+  type ExactInputSingleParams,
+  type ExactOutputSingleParams,
+  type ExactInputParams,
+  type ExactOutputParams,
+} from './tools/citrea/swapOperations.js';
+import { wrapCBTC, unwrapCBTC, type WrapCBTCParams } from './tools/citrea/wrapOperations.js';
+import { quoteSwap, type QuoteSwapParams } from './tools/citrea/quoteSwap.js';
+import { createClient, getAgentAddress, type CitreaClient, type ClientMode, type SwapOptions } from './core/client.js';
+import type { NetworkName, NetworkProfile } from './core/networks.js';
+import { resolveToken, type TokenInfo, type TokenRegistry, type TokenRegistryOptions } from './core/tokens.js';
+import type { AddressBook, ContactStore } from './core/contacts.js';
+import type { TransactionLifecycleOptions } from './core/transactions.js';
+import type { FailoverProviderOptions } from './core/failoverProvider.js';
+import type { BeforeTransactionHook } from './approval.js';
+import { PolicyEngine, type SpendingPolicy } from './policy.js';
 import { createAgent } from './agent.js';
 import { applyFirewall } from './aifirewall/index.js';
+import type { AbstractSigner } from 'ethers';
 import type { Runnable } from '@langchain/core/runnables';
 import type { BaseChatMessageHistory } from '@langchain/core/chat_history';
 import type { modelMapping } from './utils/models.js';
 
 export interface CitreaAgentConfig {
-  privateKey: string;
-  rpcUrl: string;
+  /** Raw private key; omit it and pass `signer` to keep the key out of the agent process */
+  privateKey?: string;
+  /** Any ethers signer, e.g. a RemoteSigner backed by an external signing service */
+  signer?: AbstractSigner;
+  rpcUrl?: string;
+  /** Several RPC endpoints with failover; takes precedence over rpcUrl */
+  rpcUrls?: string[];
+  /** Retry, timeout and quorum settings for the failover provider */
+  rpcOptions?: FailoverProviderOptions;
+  /** Built-in network name or a custom profile (default: 'citrea-testnet') */
+  network?: NetworkName | NetworkProfile;
+  /** Confirmations, timeout and stuck-transaction handling for every send */
+  transactions?: TransactionLifecycleOptions;
+  /** 'simulate' dry-runs every write operation, including those triggered through execute() (default: 'live') */
+  mode?: ClientMode;
+  /** Swap defaults, e.g. `{ autoApprove: false }` for callers who manage router allowances themselves */
+  swaps?: SwapOptions;
+  /** Token lists and extra tokens for symbol resolution, or a registry shared between agents */
+  tokens?: TokenRegistry | TokenRegistryOptions;
+  /** Named recipients; pass a JsonFileContactStore (or a shared AddressBook) to keep them across restarts */
+  contacts?: AddressBook | ContactStore;
+  /**
+   * Called before the LLM's state-changing tool calls are signed; returns
+   * approve, reject or modify. Read-only tools and direct method calls skip it.
+   */
+  onBeforeTransaction?: BeforeTransactionHook;
+  /** Limits, recipient lists and disabled tools enforced before the LLM's tool calls are signed */
+  policy?: SpendingPolicy;
   model: keyof typeof modelMapping;
   openAiApiKey?: string;
   anthropicApiKey?: string;
@@ -23,19 +81,88 @@ export interface CitreaAgentConfig {
 }
 
 export interface TransferCBTCParams {
+  /** Wallet address or saved contact name */
   toAddress: string;
   amount: string;
+  /** Simulate instead of broadcasting (default: the agent's mode) */
+  dryRun?: boolean;
 }
 
 export interface TransferErc20Params {
   tokenAddress: string;
+  /** Wallet address or saved contact name */
   toAddress: string;
   amount: string | number;
+  dryRun?: boolean;
+}
+
+export interface BatchTransferParams {
+  rows?: BatchTransferRow[];
+  /** CSV text with recipient,asset,amount columns, instead of `rows` */
+  csv?: string;
+  /** Report of an earlier run over the same rows; only what did not go through is sent */
+  resume?: BatchTransferReport;
+  /** Send CBTC rows through Multicall3 when the network has it (default: true) */
+  useMulticall?: boolean;
+  dryRun?: boolean;
 }
 
 export interface BurnErc20Params {
   tokenAddress: string;
   amount: string | number;
+  /** Burn another holder's tokens with burnFrom, using their allowance to the agent wallet */
+  fromAddress?: string;
+  /** Send to the dead address when the token has no burn function; on by default */
+  allowDeadAddress?: boolean;
+  dryRun?: boolean;
+}
+
+export interface MintErc20Params {
+  tokenAddress: string;
+  /** Wallet address or contact name; defaults to the agent wallet */
+  toAddress?: string;
+  amount: string | number;
+  dryRun?: boolean;
+}
+
+export interface ApproveErc20Params {
+  tokenAddress: string;
+  spenderAddress: string;
+  /** Exact amount the spender may use; required unless `unlimited` is set */
+  amount?: string | number;
+  /** Approve the maximum amount; off by default so approvals stay exact */
+  unlimited?: boolean;
+  dryRun?: boolean;
+}
+
+export interface RevokeAllowanceParams {
+  tokenAddress: string;
+  spenderAddress: string;
+  dryRun?: boolean;
+}
+
+export interface GetAllowanceParams {
+  tokenAddress: string;
+  spenderAddress: string;
+  /** Defaults to the agent wallet */
+  ownerAddress?: string;
+}
+
+export interface SignPermitParams {
+  tokenAddress: string;
+  spenderAddress: string;
+  amount: string | number;
+  /** Unix timestamp in seconds (default: current time + 20 minutes) */
+  deadline?: number;
+  dryRun?: boolean;
+}
+
+export interface SaveContactParams {
+  name: string;
+  address: string;
+  note?: string;
+  /** Replace the address of an existing contact with the same name */
+  overwrite?: boolean;
 }
 
 export interface GetErc20BalanceParams {
@@ -43,41 +170,149 @@ export interface GetErc20BalanceParams {
   walletAddress?: string;
 }
 
+export interface GetPortfolioParams {
+  /** Defaults to the agent wallet */
+  walletAddress?: string;
+  /** Extra token addresses or symbols on top of the registered and discovered ones */
+  tokens?: string[];
+  /** Also list assets with a zero balance */
+  includeZero?: boolean;
+}
+
+export interface NftTokenParams {
+  contractAddress: string;
+  tokenId: string | number;
+}
+
+export interface GetNftBalanceParams {
+  contractAddress: string;
+  /** Required for ERC1155 collections */
+  tokenId?: string | number;
+  /** Defaults to the agent wallet */
+  walletAddress?: string;
+}
+
+export interface GetNftMetadataParams extends NftTokenParams {
+  /** Only return the URI */
+  fetchMetadata?: boolean;
+  /** Gateway for ipfs:// URIs (default: https://ipfs.io/ipfs/) */
+  ipfsGateway?: string;
+}
+
+export interface TransferErc721Params extends NftTokenParams {
+  /** Wallet address or saved contact name */
+  toAddress: string;
+  dryRun?: boolean;
+}
+
+export interface TransferErc1155Params {
+  contractAddress: string;
+  /** Wallet address or saved contact name */
+  toAddress: string;
+  /** Several IDs are sent with one safeBatchTransferFrom */
+  tokenIds: (string | number)[];
+  /** One whole-number amount per token ID */
+  amounts: (string | number)[];
+  data?: string;
+  dryRun?: boolean;
+}
+
+export interface ApproveErc721Params extends NftTokenParams {
+  spenderAddress: string;
+  dryRun?: boolean;
+}
+
+export interface MintErc721Params {
+  /** A collection deployed with deployNftCollection */
+  contractAddress: string;
+  /** Wallet address or contact name; defaults to the agent wallet */
+  toAddress?: string;
+  dryRun?: boolean;
+}
+
+export interface SetNftApprovalForAllParams {
+  contractAddress: string;
+  operatorAddress: string;
+  approved: boolean;
+  dryRun?: boolean;
+}
+
 export interface DeployContractParams {
   abi: any[];
   bytecode: string;
   args?: any[];
+  dryRun?: boolean;
+}
+
+export interface DeployErc20TokenParams {
+  name: string;
+  symbol: string;
+  /** Whole tokens minted to the agent wallet */
+  initialSupply: string | number;
+  /** Default 18 */
+  decimals?: number;
+  /** Let the agent wallet mint more later (default false) */
+  mintable?: boolean;
+  /** Let holders burn their tokens (default true) */
+  burnable?: boolean;
+  /** Maximum total supply in whole tokens; uncapped when omitted */
+  cap?: string | number;
+  dryRun?: boolean;
+}
+
+export interface DeployNftCollectionParams {
+  name: string;
+  symbol: string;
+  /** Prefix of every token URI, e.g. "ipfs://<cid>/" */
+  baseUri?: string;
+  /** Most tokens that can ever be minted; 0 (default) for no limit */
+  maxSupply?: string | number;
+  dryRun?: boolean;
 }
 
 export class CitreaAgent {
-  private privateKey: string;
-  private rpcUrl: string;
+  private rpcUrls: string[];
+  private client: CitreaClient;
   private agentExecutor: Runnable;
   private model: keyof typeof modelMapping;
   private openAiApiKey?: string;
   private anthropicApiKey?: string;
   private defaultSessionId: string;
   private getMessageHistory?: (sessionId: string) => BaseChatMessageHistory;
+  private onBeforeTransaction?: BeforeTransactionHook;
+  private policy?: PolicyEngine;
 
   constructor(config: CitreaAgentConfig) {
-    this.privateKey = config.privateKey;
-    this.rpcUrl = config.rpcUrl;
+    this.rpcUrls = config.rpcUrls?.length ? config.rpcUrls : config.rpcUrl ? [config.rpcUrl] : [];
     this.model = config.model;
     this.openAiApiKey = config.openAiApiKey;
     this.anthropicApiKey = config.anthropicApiKey;
     this.getMessageHistory = config.memory?.getMessageHistory;
+    this.onBeforeTransaction = config.onBeforeTransaction;
+    this.policy = config.policy ? new PolicyEngine(config.policy) : undefined;
     this.defaultSessionId = `citrea-agent-${Math.random().toString(36).slice(2)}-${Date.now()}`;
 
-    if (!this.privateKey) {
-      throw new Error('Private key is required.');
+    if (!config.privateKey && !config.signer) {
+      throw new Error('Private key or signer is required.');
     }
 
-    if (!this.rpcUrl) {
+    if (!this.rpcUrls.length) {
       throw new Error('RPC URL is required.');
     }
 
-    // Initialize the client with this agent's configuration
-    initializeClient(this.privateKey, this.rpcUrl);
+    // Each agent owns an isolated client context (provider + signer)
+    this.client = createClient({
+      rpcUrls: this.rpcUrls,
+      rpcOptions: config.rpcOptions,
+      privateKey: config.privateKey,
+      signer: config.signer,
+      network: config.network,
+      transactions: config.transactions,
+      mode: config.mode,
+      swaps: config.swaps,
+      tokens: config.tokens,
+      contacts: config.contacts,
+    });
 
     this.agentExecutor = createAgent(
       this,
@@ -91,9 +326,24 @@ export class CitreaAgent {
     );
   }
 
+  getClient(): CitreaClient {
+    return this.client;
+  }
+
+  getBeforeTransactionHook(): BeforeTransactionHook | undefined {
+    return this.onBeforeTransaction;
+  }
+
+  getPolicy(): PolicyEngine | undefined {
+    return this.policy;
+  }
+
+  async getAddress(): Promise<string> {
+    return await getAgentAddress(this.client);
+  }
+
   getCredentials() {
     return {
-      privateKey: this.privateKey,
       openAiApiKey: this.openAiApiKey || '',
       anthropicApiKey: this.anthropicApiKey || '',
     };
@@ -111,38 +361,161 @@ export class CitreaAgent {
       { configurable: { sessionId: options?.sessionId ?? this.defaultSessionId } },
     );
 
-    setCurrentPrivateKey(this.privateKey);
-
     return response;
   }
 
   async transferCBTC(params: TransferCBTCParams) {
-    setCurrentPrivateKey(this.privateKey);
-    return await transferETH(params);
+    return await transferETH(this.client, params);
   }
 
   async transferErc20(params: TransferErc20Params) {
-    setCurrentPrivateKey(this.privateKey);
-    return await transferErc20(params);
+    return await transferErc20(this.client, params);
+  }
+
+  async batchTransfer(params: BatchTransferParams) {
+    return await batchTransfer(this.client, params);
   }
 
   async burnErc20(params: BurnErc20Params) {
-    setCurrentPrivateKey(this.privateKey);
-    return await burnErc20(params);
+    return await burnErc20(this.client, params);
+  }
+
+  async mintErc20(params: MintErc20Params) {
+    return await mintErc20(this.client, params);
+  }
+
+  async approveErc20(params: ApproveErc20Params) {
+    return await approveErc20(this.client, params);
+  }
+
+  async revokeAllowance(params: RevokeAllowanceParams) {
+    return await revokeAllowance(this.client, params);
+  }
+
+  async getAllowance(params: GetAllowanceParams) {
+    return await getAllowance(this.client, params);
+  }
+
+  async signPermit(params: SignPermitParams) {
+    return await signPermit(this.client, params);
+  }
+
+  async supportsPermit(tokenAddress: string) {
+    return await supportsPermit(this.client, tokenAddress);
+  }
+
+  /** Looks up a token by symbol or address in the agent's token registry */
+  async resolveToken(token: string) {
+    return await resolveToken(this.client, token);
+  }
+
+  /** Registers a token so it can be referred to by its symbol */
+  addToken(token: TokenInfo) {
+    return this.client.tokens.add(token);
+  }
+
+  async saveContact(params: SaveContactParams) {
+    return await saveContact(this.client, params);
+  }
+
+  async lookupContact(name: string) {
+    return await lookupContact(this.client, { name });
+  }
+
+  async listContacts() {
+    return await listContacts(this.client);
   }
 
   async getCBTCBalance(params?: { walletAddress?: string }) {
-    setCurrentPrivateKey(this.privateKey);
-    return await getETHBalance(params || {});
+    return await getETHBalance(this.client, params || {});
   }
 
   async getErc20Balance(params: GetErc20BalanceParams) {
-    setCurrentPrivateKey(this.privateKey);
-    return await getErc20Balance(params);
+    return await getErc20Balance(this.client, params);
+  }
+
+  async getPortfolio(params: GetPortfolioParams = {}) {
+    return await getPortfolio(this.client, params);
+  }
+
+  async getNftOwner(params: NftTokenParams) {
+    return await getNftOwner(this.client, params);
+  }
+
+  async getNftBalance(params: GetNftBalanceParams) {
+    return await getNftBalance(this.client, params);
+  }
+
+  async getNftMetadata(params: GetNftMetadataParams) {
+    return await getNftMetadata(this.client, params);
+  }
+
+  async transferErc721(params: TransferErc721Params) {
+    return await transferErc721(this.client, params);
+  }
+
+  async transferErc1155(params: TransferErc1155Params) {
+    return await transferErc1155(this.client, params);
+  }
+
+  async approveErc721(params: ApproveErc721Params) {
+    return await approveErc721(this.client, params);
+  }
+
+  async setNftApprovalForAll(params: SetNftApprovalForAllParams) {
+    return await setNftApprovalForAll(this.client, params);
   }
 
   async deployContract(params: DeployContractParams) {
-    setCurrentPrivateKey(this.privateKey);
-    return await deployContract(params);
+    return await deployContract(this.client, params);
+  }
+
+  async deployErc20Token(params: DeployErc20TokenParams) {
+    return await deployErc20Token(this.client, params);
+  }
+
+  async deployNftCollection(params: DeployNftCollectionParams) {
+    return await deployNftCollection(this.client, params);
+  }
+
+  async mintErc721(params: MintErc721Params) {
+    return await mintErc721(this.client, params);
+  }
+
+  async wrapCBTC(params: WrapCBTCParams) {
+    return await wrapCBTC(this.client, params);
+  }
+
+  async unwrapCBTC(params: WrapCBTCParams) {
+    return await unwrapCBTC(this.client, params);
+  }
+
+  /** Expected output of an exact input, or the input an exact output needs, from live V2 or V3 prices */
+  async quoteSwap(params: QuoteSwapParams) {
+    return await quoteSwap(this.client, params);
+  }
+
+  async swapExactTokensForTokens(params: SwapExactTokensForTokensParams) {
+    return await swapExactTokensForTokens(this.client, params);
+  }
+
+  async swapTokensForExactTokens(params: SwapTokensForExactTokensParams) {
+    return await swapTokensForExactTokens(this.client, params);
+  }
+
+  async exactInputSingle(params: ExactInputSingleParams) {
+    return await exactInputSingle(this.client, params);
+  }
+
+  async exactOutputSingle(params: ExactOutputSingleParams) {
+    return await exactOutputSingle(this.client, params);
+  }
+
+  async exactInput(params: ExactInputParams) {
+    return await exactInput(this.client, params);
+  }
+
+  async exactOutput(params: ExactOutputParams) {
+    return await exactOutput(this.client, params);
   }
 }
@@ -1,7 +1,7 @@
 import { ChatPromptTemplate } from '@langchain/core/prompts';
 import { ChatOpenAI } from '@langchain/openai';
 import { createToolCallingAgent, AgentExecutor } from 'langchain/agents';
-import { createTools } from './tools.js';
+import { createTools, type CitreaAgentInterface } from './tools.js';
 import { modelMapping } from './utils/models.js';
 import { ChatAnthropic } from '@langchain/anthropic';
 import { SystemMessage } from '@langchain/core/messages';
@@ -18,27 +18,33 @@ const DEFAULT_SYSTEM_PROMPT = `You are an AI agent on Citrea network capable of
       If the transaction was unsuccessful, return the response in the following format, followed by an explanation if any known:
       The transaction failed.`;
 
+// Appended in simulation mode so the model does not report simulated runs as real transactions
+const SIMULATION_PROMPT = `
+      You are running in SIMULATION mode. Write tools only simulate transactions against the current chain state; nothing is signed or broadcast and there is no transaction hash.
+      Report the simulated outcome, estimated gas cost and expected balance changes, and make clear that no transaction was sent.`;
+
 // Generate the system message by merging base and custom personality (if provided)
-const createSystemMessage = (personalityPrompt?: string) => {
+const createSystemMessage = (personalityPrompt?: string, simulate?: boolean) => {
+  const basePrompt = simulate ? `${DEFAULT_SYSTEM_PROMPT}\n${SIMULATION_PROMPT}` : DEFAULT_SYSTEM_PROMPT;
   const finalPrompt = personalityPrompt
-    ? `${DEFAULT_SYSTEM_PROMPT}
+    ? `${basePrompt}
 
       ---
       The following are additional personality and style guidelines. Apply them while preserving required behaviors and response formats above:
       ${personalityPrompt}`
-    : DEFAULT_SYSTEM_PROMPT;
+    : basePrompt;
   return new SystemMessage(finalPrompt);
 };
 
-export const prompt = (personalityPrompt?: string) => ChatPromptTemplate.fromMessages([
-  createSystemMessage(personalityPrompt),
+export const prompt = (personalityPrompt?: string, simulate?: boolean) => ChatPromptTemplate.fromMessages([
+  createSystemMessage(personalityPrompt, simulate),
   ['placeholder', '{chat_history}'],
   ['human', '{input}'],
   ['placeholder', '{agent_scratchpad}'],
 ]);
 
 export const createAgent = (
-  citreaAgent: { getCredentials: () => { privateKey: string } },
+  citreaAgent: CitreaAgentInterface,
   modelName: keyof typeof modelMapping,
   openAiApiKey?: string,
   anthropicApiKey?: string,
@@ -77,7 +83,7 @@ export const createAgent = (
   const tools = createTools(citreaAgent);
 
   // Create prompt with optional personality
-  const agentPrompt = prompt(options?.personalityPrompt);
+  const agentPrompt = prompt(options?.personalityPrompt, citreaAgent.getClient().mode === 'simulate');
 
   const agent = createToolCallingAgent({
     llm: selectedModel,
@@ -88,6 +94,8 @@ export const createAgent = (
   const executor = new AgentExecutor({
     agent,
     tools,
+    // Let the model see why a tool failed instead of an empty observation
+    handleToolRuntimeErrors: (error) => `Error: ${error.message}`,
   });
 
   // Wrap executor with per-session message history
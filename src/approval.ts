@@ -0,0 +1,50 @@
+import type { CitreaClient } from './core/client.js';
+import { isSimulationResult } from './core/simulation.js';
+
+/** A state-changing tool call the LLM wants to make, as shown to the approver */
+export interface TransactionAction {
+  tool: string;
+  args: Record<string, any>;
+  /** Gas the transaction is expected to use, or null if it could not be estimated */
+  estimatedGas: bigint | null;
+  summary: string;
+}
+
+export type ApprovalDecision =
+  | { decision: 'approve' }
+  | { decision: 'reject'; reason?: string }
+  /** Run the tool with these arguments instead; they are validated against the tool schema */
+  | { decision: 'modify'; args: Record<string, any> };
+
+export type BeforeTransactionHook = (action: TransactionAction) => ApprovalDecision | Promise<ApprovalDecision>;
+
+/**
+ * Builds the action for a tool call: the summary comes from the tool, the gas
+ * estimate from a dry run of the same operation, so the approver sees whether
+ * it would revert before anything is signed.
+ */
+export const describeAction = async <T extends Record<string, any>>(
+  client: CitreaClient,
+  tool: string,
+  args: T,
+  operation: (client: CitreaClient, params: T & { dryRun: boolean }) => Promise<unknown>,
+  summary: string,
+): Promise<TransactionAction> => {
+  try {
+    const simulation = await operation(client, { ...args, dryRun: true });
+    if (!isSimulationResult(simulation)) {
+      return { tool, args, estimatedGas: null, summary };
+    }
+    // Show the approver where a contact name actually sends the funds
+    const contact = simulation.recipient?.name ? ` (contact ${simulation.recipient.name} is ${simulation.recipient.address})` : '';
+    const note = simulation.success ? '' : ` (simulation says it would revert: ${simulation.revertReason})`;
+    return { tool, args, estimatedGas: simulation.gasEstimate, summary: `${summary}${contact}${note}` };
+  } catch (error: any) {
+    return { tool, args, estimatedGas: null, summary: `${summary} (simulation failed: ${error.message})` };
+  }
+};
+
+/** Tool output returned to the LLM when the approver turns a call down */
+export const rejectionMessage = (action: TransactionAction, reason?: string): string =>
+  `The ${action.tool} call was rejected by the approver${reason ? `: ${reason}` : ''}. ` +
+  `Nothing was signed or sent. Tell the user the action was not carried out.`;
@@ -1,99 +1,174 @@
-import { ethers, Provider, Wallet } from "ethers";
+import { ethers, AbstractSigner, Provider } from "ethers";
+import { FailoverProvider, type FailoverProviderOptions } from "./failoverProvider";
+import type { TransactionLifecycleOptions } from "./transactions";
+import { resolveNetwork, type NetworkName, type NetworkProfile } from "./networks";
+import { TokenRegistry, type TokenRegistryOptions } from "./tokens";
+import { AddressBook, type ContactStore } from "./contacts";
 
-let provider: Provider | null = null;
-let currentWallet: Wallet | null = null;
-let currentPrivateKey: string | null = null;
-let currentRpcUrl: string | null = null;
+/** 'simulate' runs every write operation as a dry run instead of broadcasting it */
+export type ClientMode = "live" | "simulate";
 
-export const initializeClient = (privateKey: string, rpcUrl: string): void => {
-  if (!privateKey) {
-    throw new Error("Private key is required");
-  }
-  
-  if (!rpcUrl) {
+/** Defaults for the swap operations of one client */
+export interface SwapOptions {
+  /** Approve the router for exactly the input amount when its allowance is too low (default: true) */
+  autoApprove?: boolean;
+  /** Prefer a signed EIP-2612 permit bundled into the swap over an approval transaction, when the token and router support it (default: true) */
+  usePermit?: boolean;
+  /** Slippage tolerance for swaps given without a minimum output or maximum input, in basis points (default: 50) */
+  slippageBps?: number;
+  /** Largest slippage tolerance a swap may use, in basis points (default: 500) */
+  maxSlippageBps?: number;
+}
+
+/**
+ * Everything a tool needs to talk to the chain on behalf of one agent.
+ * Each CitreaAgent owns its own client, so agents with different keys or
+ * RPC URLs never share a provider or signer.
+ */
+export interface CitreaClient {
+  readonly provider: Provider;
+  readonly signer: AbstractSigner;
+  readonly rpcUrl: string;
+  readonly network: NetworkProfile;
+  /** Confirmation, timeout and replacement settings for sent transactions */
+  readonly txOptions: TransactionLifecycleOptions;
+  readonly mode: ClientMode;
+  readonly swapOptions: SwapOptions;
+  /** Known tokens for symbol resolution, and the token metadata cache */
+  readonly tokens: TokenRegistry;
+  /** Named recipients accepted wherever a recipient address is */
+  readonly contacts: AddressBook;
+}
+
+export interface CreateClientOptions {
+  rpcUrl?: string;
+  /** Several endpoints served through a FailoverProvider (retries, health scoring, quorum reads) */
+  rpcUrls?: string[];
+  rpcOptions?: FailoverProviderOptions;
+  /** Raw key, turned into an in-process ethers Wallet */
+  privateKey?: string;
+  /** Any ethers signer (hardware, KMS, RemoteSigner, ...); takes the place of privateKey. It is connected to the client's RPC */
+  signer?: AbstractSigner;
+  /** Built-in network name or a custom profile (default: citrea-testnet) */
+  network?: NetworkName | NetworkProfile;
+  transactions?: TransactionLifecycleOptions;
+  /** Default: 'live' */
+  mode?: ClientMode;
+  swaps?: SwapOptions;
+  /** Token lists and user-added tokens, or a registry shared between clients */
+  tokens?: TokenRegistry | TokenRegistryOptions;
+  /** An address book, or the store for a new one (default: in memory) */
+  contacts?: AddressBook | ContactStore;
+}
+
+export const createClient = ({
+  rpcUrl,
+  rpcUrls,
+  rpcOptions,
+  privateKey,
+  signer,
+  network,
+  transactions,
+  mode = "live",
+  swaps,
+  tokens,
+  contacts,
+}: CreateClientOptions): CitreaClient => {
+  const urls = rpcUrls?.length ? rpcUrls : rpcUrl ? [rpcUrl] : [];
+  if (!urls.length) {
     throw new Error("RPC URL is required");
   }
-  
-  // Validate private key format
-  if (privateKey.length !== 64 && privateKey.length !== 66) {
-    throw new Error("Private key must be a valid 64 or 66-character hex string");
+
+  if (privateKey && signer) {
+    throw new Error("Provide either a private key or a signer, not both");
   }
-  
-  // Normalize private key (remove 0x prefix if present)
-  const normalizedKey = privateKey.startsWith('0x') ? privateKey.slice(2) : privateKey;
-  
-  if (normalizedKey.length !== 64) {
-    throw new Error("Private key must be a valid 64-character hex string");
+
+  if (!privateKey && !signer) {
+    throw new Error("Private key or signer is required");
   }
-  
+
+  const profile = resolveNetwork(network);
+
   try {
-    // Initialize provider if RPC URL changed
-    if (currentRpcUrl !== rpcUrl) {
-      provider = new ethers.JsonRpcProvider(rpcUrl);
-      currentRpcUrl = rpcUrl;
-    }
-    
-    // Create new wallet if private key changed or no wallet exists
-    if (currentPrivateKey !== normalizedKey || !currentWallet) {
-      if (!provider) {
-        throw new Error("Provider not initialized");
-      }
-      currentWallet = new ethers.Wallet(normalizedKey, provider);
-      currentPrivateKey = normalizedKey;
-    }
-  } catch (error) {
-    throw new Error(`Failed to initialize client: ${error}`);
+    const provider = urls.length > 1 || rpcOptions
+      ? new FailoverProvider(urls, rpcOptions)
+      : new ethers.JsonRpcProvider(urls[0]);
+    // A signer brought with its own provider is reconnected too, so the chain
+    // ID verified on the client's RPC is the one transactions are sent to
+    const connectedSigner = signer
+      ? signer.connect(provider)
+      : createWallet(privateKey!, provider);
+    return {
+      provider,
+      signer: connectedSigner,
+      rpcUrl: urls[0],
+      network: profile,
+      txOptions: { ...transactions },
+      mode,
+      swapOptions: { ...swaps },
+      tokens: TokenRegistry.create(profile, tokens),
+      contacts: AddressBook.create(contacts),
+    };
+  } catch (error: any) {
+    throw new Error(`Failed to initialize client: ${error.message ?? error}`);
   }
 };
 
-export const setCurrentPrivateKey = (privateKey: string): void => {
-  if (!provider || !currentRpcUrl) {
-    throw new Error("Client not initialized. Call initializeClient() first.");
-  }
-  
-  if (!privateKey) {
-    throw new Error("Private key is required");
-  }
-  
+const createWallet = (privateKey: string, provider: Provider): AbstractSigner => {
   // Validate private key format
   if (privateKey.length !== 64 && privateKey.length !== 66) {
     throw new Error("Private key must be a valid 64 or 66-character hex string");
   }
-  
+
   // Normalize private key (remove 0x prefix if present)
   const normalizedKey = privateKey.startsWith('0x') ? privateKey.slice(2) : privateKey;
-  
+
   if (normalizedKey.length !== 64) {
     throw new Error("Private key must be a valid 64-character hex string");
   }
-  
-  try {
-    // Create new wallet if private key changed
-    if (currentPrivateKey !== normalizedKey) {
-      currentWallet = new ethers.Wallet(normalizedKey, provider);
-      currentPrivateKey = normalizedKey;
-    }
-  } catch (error) {
-    throw new Error(`Failed to initialize wallet with private key: ${error}`);
-  }
+
+  return new ethers.Wallet(normalizedKey, provider);
 };
 
-export const getSigner = (): Wallet => {
-  if (!currentWallet) {
-    throw new Error("Client not initialized. Call initializeClient() first.");
+export const getSigner = (client: CitreaClient): AbstractSigner => {
+  if (!client?.signer) {
+    throw new Error("Client not initialized. Call createClient() first.");
   }
-  
-  return currentWallet;
+
+  return client.signer;
 };
 
-export const getProvider = (): Provider => {
-  if (!provider) {
-    throw new Error("Client not initialized. Call initializeClient() first.");
+export const getProvider = (client: CitreaClient): Provider => {
+  if (!client?.provider) {
+    throw new Error("Client not initialized. Call createClient() first.");
   }
-  return provider;
+  return client.provider;
 };
 
-export const getAgentAddress = (): string => {
-  const wallet = getSigner();
-  return wallet.address;
-}; 
\ No newline at end of file
+export const getAgentAddress = async (client: CitreaClient): Promise<string> => {
+  const signer = getSigner(client);
+  return await signer.getAddress();
+};
+
+// Clients whose RPC endpoint has already been confirmed to serve the profile's chain
+const verifiedClients = new WeakSet<CitreaClient>();
+
+/**
+ * Checks that the provider's chain ID matches the client's network profile.
+ * Every state-changing operation calls this before signing.
+ */
+export const verifyNetwork = async (client: CitreaClient): Promise<void> => {
+  if (verifiedClients.has(client)) {
+    return;
+  }
+
+  const { chainId } = await getProvider(client).getNetwork();
+  if (chainId !== BigInt(client.network.chainId)) {
+    throw new Error(
+      `Chain ID mismatch: RPC ${client.rpcUrl} serves chain ${chainId}, ` +
+      `but network "${client.network.name}" expects ${client.network.chainId}. Refusing to sign.`
+    );
+  }
+
+  verifiedClients.add(client);
+};
@@ -0,0 +1,163 @@
+import { ethers } from "ethers";
+import { readFile, writeFile } from "node:fs/promises";
+import type { CitreaClient } from "./client";
+
+export interface Contact {
+  name: string;
+  address: string;
+  note?: string;
+}
+
+/** A recipient as given to a tool, resolved to an address; `name` is set when it came from the address book */
+export interface Recipient {
+  address: string;
+  name?: string;
+}
+
+/** Persistence for the address book, keyed by lower-cased contact name */
+export interface ContactStore {
+  get(key: string): Promise<Contact | undefined>;
+  set(key: string, contact: Contact): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  list(): Promise<Contact[]>;
+}
+
+export class InMemoryContactStore implements ContactStore {
+  private contacts = new Map<string, Contact>();
+
+  async get(key: string): Promise<Contact | undefined> {
+    const contact = this.contacts.get(key);
+    return contact && { ...contact };
+  }
+
+  async set(key: string, contact: Contact): Promise<void> {
+    this.contacts.set(key, { ...contact });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.contacts.delete(key);
+  }
+
+  async list(): Promise<Contact[]> {
+    return [...this.contacts.values()].map((contact) => ({ ...contact }));
+  }
+}
+
+/** Keeps contacts in a JSON file so they survive restarts and new sessions */
+export class JsonFileContactStore implements ContactStore {
+  constructor(private path: string) {}
+
+  async get(key: string): Promise<Contact | undefined> {
+    return (await this.read())[key];
+  }
+
+  async set(key: string, contact: Contact): Promise<void> {
+    const data = await this.read();
+    data[key] = contact;
+    await writeFile(this.path, JSON.stringify(data, null, 2));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const data = await this.read();
+    if (!(key in data)) {
+      return false;
+    }
+    delete data[key];
+    await writeFile(this.path, JSON.stringify(data, null, 2));
+    return true;
+  }
+
+  async list(): Promise<Contact[]> {
+    return Object.values(await this.read());
+  }
+
+  private async read(): Promise<Record<string, Contact>> {
+    try {
+      return JSON.parse(await readFile(this.path, "utf8"));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return {};
+      throw error;
+    }
+  }
+}
+
+const contactKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Named wallet addresses, so "send 1 CBTC to bob" works across sessions
+ * without the model having to remember bob's address. Names are matched
+ * case-insensitively. Saving a name that already points elsewhere needs
+ * `overwrite`, so a contact cannot be silently redirected.
+ */
+export class AddressBook {
+  constructor(private store: ContactStore = new InMemoryContactStore()) {}
+
+  /** Validates and stores a contact; with `dryRun` it is only validated */
+  async save(
+    { name, address, note }: Contact,
+    { overwrite = false, dryRun = false }: { overwrite?: boolean; dryRun?: boolean } = {}
+  ): Promise<Contact> {
+    const trimmed = name?.trim();
+    if (!trimmed) {
+      throw new Error("Contact name is required");
+    }
+    if (trimmed.startsWith("0x")) {
+      throw new Error("Contact names cannot start with 0x");
+    }
+    if (!ethers.isAddress(address)) {
+      throw new Error("Invalid contact address format");
+    }
+
+    const contact: Contact = { name: trimmed, address: ethers.getAddress(address), ...(note && { note }) };
+    const existing = await this.store.get(contactKey(trimmed));
+    if (existing && existing.address !== contact.address && !overwrite) {
+      throw new Error(`Contact ${existing.name} already exists with address ${existing.address}; pass overwrite to change it`);
+    }
+    if (!dryRun) {
+      await this.store.set(contactKey(trimmed), contact);
+    }
+    return contact;
+  }
+
+  async lookup(name: string): Promise<Contact | undefined> {
+    return name?.trim() ? await this.store.get(contactKey(name)) : undefined;
+  }
+
+  async remove(name: string): Promise<boolean> {
+    return await this.store.delete(contactKey(name));
+  }
+
+  async list(): Promise<Contact[]> {
+    return (await this.store.list()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /** Uses or builds an address book; a bare store is wrapped */
+  static create(contacts?: AddressBook | ContactStore): AddressBook {
+    return contacts instanceof AddressBook ? contacts : new AddressBook(contacts);
+  }
+}
+
+/**
+ * Resolves a recipient given as an address or a contact name. Anything that
+ * starts with 0x must be a valid address; everything else must be a saved
+ * contact.
+ */
+export const resolveRecipient = async (client: CitreaClient, recipient: string): Promise<Recipient> => {
+  const input = recipient?.trim();
+  if (!input) {
+    throw new Error("Recipient address is required");
+  }
+
+  if (input.startsWith("0x")) {
+    if (!ethers.isAddress(input)) {
+      throw new Error("Invalid recipient address format");
+    }
+    return { address: ethers.getAddress(input) };
+  }
+
+  const contact = await client.contacts.lookup(input);
+  if (!contact) {
+    throw new Error(`No contact named ${input}. Use a wallet address, or save the contact first.`);
+  }
+  return { address: contact.address, name: contact.name };
+};
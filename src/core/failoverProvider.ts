@@ -0,0 +1,230 @@
+import {
+  FetchRequest,
+  JsonRpcProvider,
+  keccak256,
+  type JsonRpcError,
+  type JsonRpcPayload,
+  type JsonRpcResult,
+  type Networkish,
+} from "ethers";
+
+export interface FailoverProviderOptions {
+  /** Attempts after the first one before a request fails (default: 3) */
+  retries?: number;
+  /** Base delay between attempts, doubled after each failure (default: 250ms) */
+  backoffMs?: number;
+  /** Per-request timeout for a single endpoint (default: 10s) */
+  timeoutMs?: number;
+  /** Number of endpoints that must return the same result for quorum reads (default: 1) */
+  quorum?: number;
+  /** Methods answered by quorum when `quorum` > 1 */
+  quorumMethods?: string[];
+}
+
+export interface EndpointHealth {
+  url: string;
+  /** Moving average of recent successes, from 0 (always failing) to 1 (always healthy) */
+  score: number;
+  successes: number;
+  failures: number;
+  /** Moving average of successful response times */
+  latencyMs: number | null;
+}
+
+const DEFAULT_QUORUM_METHODS = [
+  "eth_chainId",
+  "eth_call",
+  "eth_getBalance",
+  "eth_getCode",
+  "eth_getStorageAt",
+  "eth_getTransactionCount",
+];
+
+// Node replies meaning "this exact transaction is already in my pool or chain"
+const ALREADY_KNOWN_PATTERNS = [/already known/i, /known transaction/i, /already imported/i, /already exists/i];
+
+// JSON-RPC error codes that describe the endpoint rather than the request
+const RETRYABLE_RPC_CODES = new Set([-32005, -32603]);
+
+const HEALTH_WEIGHT = 0.3;
+
+type RpcResponse = JsonRpcResult | JsonRpcError;
+
+class EndpointFailure extends Error {}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * JSON-RPC provider backed by several endpoints. Requests go to the healthiest
+ * endpoint first and fail over with exponential backoff; reads listed in
+ * `quorumMethods` can require agreement between several endpoints.
+ *
+ * Broadcasting is idempotent: before re-sending a raw transaction after a
+ * failed attempt, every endpoint is asked whether it already knows the hash,
+ * and "already known" replies are treated as success.
+ */
+export class FailoverProvider extends JsonRpcProvider {
+  readonly urls: string[];
+  private health: EndpointHealth[];
+  private retries: number;
+  private backoffMs: number;
+  private timeoutMs: number;
+  private quorum: number;
+  private quorumMethods: Set<string>;
+
+  constructor(urls: string[], options: FailoverProviderOptions = {}, network?: Networkish) {
+    if (!urls?.length) {
+      throw new Error("At least one RPC URL is required");
+    }
+
+    // One payload per request, so each call can be routed on its own
+    super(urls[0], network, { batchMaxCount: 1 });
+
+    this.urls = [...urls];
+    this.health = urls.map((url) => ({ url, score: 1, successes: 0, failures: 0, latencyMs: null }));
+    this.retries = options.retries ?? 3;
+    this.backoffMs = options.backoffMs ?? 250;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.quorum = Math.min(options.quorum ?? 1, urls.length);
+    this.quorumMethods = new Set(options.quorumMethods ?? DEFAULT_QUORUM_METHODS);
+  }
+
+  getHealth(): EndpointHealth[] {
+    return this.health.map((entry) => ({ ...entry }));
+  }
+
+  async _send(payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<JsonRpcResult>> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    // Error replies travel in the same array, exactly like JsonRpcProvider does
+    return await Promise.all(payloads.map((entry) => this.dispatch(entry))) as Array<JsonRpcResult>;
+  }
+
+  private async dispatch(payload: JsonRpcPayload): Promise<RpcResponse> {
+    if (payload.method === "eth_sendRawTransaction") {
+      return await this.broadcast(payload);
+    }
+
+    if (this.quorum > 1 && this.quorumMethods.has(payload.method)) {
+      return await this.withRetries(() => this.sendWithQuorum(payload));
+    }
+
+    return await this.withRetries(() => this.sendTo(this.bestEndpoint(), payload));
+  }
+
+  private async broadcast(payload: JsonRpcPayload): Promise<RpcResponse> {
+    const hash = keccak256((payload.params as string[])[0]);
+
+    return await this.withRetries(async (attempt) => {
+      // A previous attempt may have reached a node even though we never saw the reply
+      if (attempt > 0 && (await this.isKnownTransaction(hash))) {
+        return { id: payload.id, result: hash };
+      }
+
+      const response = await this.sendTo(this.bestEndpoint(), payload);
+      if ("error" in response && ALREADY_KNOWN_PATTERNS.some((pattern) => pattern.test(response.error.message ?? ""))) {
+        return { id: payload.id, result: hash };
+      }
+      return response;
+    });
+  }
+
+  private async isKnownTransaction(hash: string): Promise<boolean> {
+    const lookups = this.rankedEndpoints().map(async (endpoint) => {
+      const response = await this.sendTo(endpoint, { id: 0, jsonrpc: "2.0", method: "eth_getTransactionByHash", params: [hash] });
+      return "result" in response && response.result != null;
+    });
+    const results = await Promise.allSettled(lookups);
+    return results.some((result) => result.status === "fulfilled" && result.value);
+  }
+
+  private async sendWithQuorum(payload: JsonRpcPayload): Promise<RpcResponse> {
+    const responses = await Promise.allSettled(this.rankedEndpoints().map((endpoint) => this.sendTo(endpoint, payload)));
+
+    const tally = new Map<string, { count: number; response: RpcResponse }>();
+    for (const outcome of responses) {
+      if (outcome.status !== "fulfilled") continue;
+      const { id, ...body } = outcome.value;
+      const key = JSON.stringify(body);
+      const entry = tally.get(key) ?? { count: 0, response: outcome.value };
+      entry.count += 1;
+      tally.set(key, entry);
+    }
+
+    for (const { count, response } of tally.values()) {
+      if (count >= this.quorum) {
+        return { ...response, id: payload.id };
+      }
+    }
+
+    throw new EndpointFailure(`Quorum of ${this.quorum} not reached for ${payload.method}`);
+  }
+
+  private async withRetries(
+    attemptFn: (attempt: number) => Promise<RpcResponse>
+  ): Promise<RpcResponse> {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= this.retries; attempt++) {
+      if (attempt > 0) {
+        await sleep(this.backoffMs * 2 ** (attempt - 1));
+      }
+      try {
+        return await attemptFn(attempt);
+      } catch (error) {
+        if (!(error instanceof EndpointFailure)) throw error;
+        lastError = error;
+      }
+    }
+
+    throw new Error(`All RPC endpoints failed after ${this.retries + 1} attempts: ${(lastError as Error)?.message}`);
+  }
+
+  // Endpoints sorted by health score, best first; original order breaks ties
+  private rankedEndpoints(): EndpointHealth[] {
+    return [...this.health].sort((a, b) => b.score - a.score);
+  }
+
+  // A failure lowers the score, so a retry naturally moves on to the next endpoint
+  private bestEndpoint(): EndpointHealth {
+    return this.rankedEndpoints()[0];
+  }
+
+  private async sendTo(endpoint: EndpointHealth, payload: JsonRpcPayload): Promise<RpcResponse> {
+    const request = new FetchRequest(endpoint.url);
+    request.timeout = this.timeoutMs;
+    request.body = JSON.stringify(payload);
+    request.setHeader("content-type", "application/json");
+
+    const started = Date.now();
+    let response: RpcResponse;
+    try {
+      const reply = await request.send();
+      reply.assertOk();
+      const body = reply.bodyJson;
+      response = Array.isArray(body) ? body[0] : body;
+    } catch (error: any) {
+      this.record(endpoint, false);
+      throw new EndpointFailure(`${endpoint.url}: ${error.shortMessage ?? error.message}`);
+    }
+
+    if ("error" in response && RETRYABLE_RPC_CODES.has(response.error.code)) {
+      this.record(endpoint, false);
+      throw new EndpointFailure(`${endpoint.url}: ${response.error.message}`);
+    }
+
+    this.record(endpoint, true, Date.now() - started);
+    return response;
+  }
+
+  private record(endpoint: EndpointHealth, ok: boolean, latencyMs?: number) {
+    endpoint.score = endpoint.score * (1 - HEALTH_WEIGHT) + (ok ? HEALTH_WEIGHT : 0);
+    if (ok) {
+      endpoint.successes += 1;
+      if (latencyMs !== undefined) {
+        endpoint.latencyMs = endpoint.latencyMs === null ? latencyMs : endpoint.latencyMs * (1 - HEALTH_WEIGHT) + latencyMs * HEALTH_WEIGHT;
+      }
+    } else {
+      endpoint.failures += 1;
+    }
+  }
+}
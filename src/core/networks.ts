@@ -0,0 +1,125 @@
+// Well-known burn address that nobody has access to
+export const DEFAULT_BURN_ADDRESS = "0x000000000000000000000000000000000000dEaD";
+
+// Multicall3's deterministic deployment address, the same on every chain that has it
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+export interface NetworkContracts {
+  universalRouter?: string;
+  v2Factory?: string;
+  v3Factory?: string;
+  quoter?: string;
+  /** Wrapped CBTC (WCBTC) */
+  wrappedNative?: string;
+  burnAddress?: string;
+  /** Multicall3; callers check that code is deployed there before relying on it */
+  multicall3?: string;
+}
+
+export interface NetworkProfile {
+  name: string;
+  chainId: number;
+  /** Default public RPC, informational only; the agent always uses its configured rpcUrl */
+  rpcUrl?: string;
+  contracts: NetworkContracts;
+  /** URL templates with `{hash}` / `{address}` placeholders */
+  explorer?: {
+    tx: string;
+    address: string;
+  };
+}
+
+// Only addresses known to be deployed are listed. The V2/V3 factories and the
+// V3 quoter are not published for any network yet, and mainnet and devnet
+// have no router or WCBTC either: set those in a custom profile
+export const NETWORKS = {
+  'citrea-testnet': {
+    name: 'citrea-testnet',
+    chainId: 5115,
+    rpcUrl: 'https://rpc.testnet.citrea.xyz',
+    contracts: {
+      universalRouter: '0x610c98EAD0df13EA906854b6041122e8A8D14413',
+      wrappedNative: '0x8d0c9d1c17aE5e40ffF9bE350f57840E9E66Cd93',
+      burnAddress: DEFAULT_BURN_ADDRESS,
+      multicall3: MULTICALL3_ADDRESS,
+    },
+    explorer: {
+      tx: 'https://explorer.testnet.citrea.xyz/tx/{hash}',
+      address: 'https://explorer.testnet.citrea.xyz/address/{address}',
+    },
+  },
+  'citrea-mainnet': {
+    name: 'citrea-mainnet',
+    chainId: 4114,
+    rpcUrl: 'https://rpc.mainnet.citrea.xyz',
+    contracts: {
+      burnAddress: DEFAULT_BURN_ADDRESS,
+      multicall3: MULTICALL3_ADDRESS,
+    },
+    explorer: {
+      tx: 'https://explorer.mainnet.citrea.xyz/tx/{hash}',
+      address: 'https://explorer.mainnet.citrea.xyz/address/{address}',
+    },
+  },
+  'citrea-devnet': {
+    name: 'citrea-devnet',
+    chainId: 62298,
+    rpcUrl: 'https://rpc.devnet.citrea.xyz',
+    contracts: {
+      burnAddress: DEFAULT_BURN_ADDRESS,
+      multicall3: MULTICALL3_ADDRESS,
+    },
+    explorer: {
+      tx: 'https://explorer.devnet.citrea.xyz/tx/{hash}',
+      address: 'https://explorer.devnet.citrea.xyz/address/{address}',
+    },
+  },
+  'local': {
+    name: 'local',
+    chainId: 5655,
+    rpcUrl: 'http://127.0.0.1:12345',
+    contracts: {
+      burnAddress: DEFAULT_BURN_ADDRESS,
+    },
+  },
+} satisfies Record<string, NetworkProfile>;
+
+export type NetworkName = keyof typeof NETWORKS;
+
+export const DEFAULT_NETWORK: NetworkName = 'citrea-testnet';
+
+/**
+ * Resolves a built-in network name or a custom profile to a NetworkProfile
+ */
+export const resolveNetwork = (network: NetworkName | NetworkProfile = DEFAULT_NETWORK): NetworkProfile => {
+  if (typeof network !== 'string') {
+    if (!network.name || !Number.isInteger(network.chainId)) {
+      throw new Error("Custom network profile requires a name and an integer chainId");
+    }
+    return { ...network, contracts: { ...network.contracts } };
+  }
+
+  const profile: NetworkProfile | undefined = (NETWORKS as Record<string, NetworkProfile>)[network];
+  if (!profile) {
+    throw new Error(`Unknown network "${network}". Known networks: ${Object.keys(NETWORKS).join(', ')}`);
+  }
+  return profile;
+};
+
+/**
+ * Returns a contract address from the network profile, failing clearly when
+ * the profile does not configure it
+ */
+export const getContractAddress = (network: NetworkProfile, contract: keyof NetworkContracts): string => {
+  const address = network.contracts[contract];
+  if (!address) {
+    throw new Error(`No ${contract} address configured for network "${network.name}". Use a custom network profile that sets contracts.${contract}.`);
+  }
+  return address;
+};
+
+export const getExplorerTxUrl = (network: NetworkProfile, hash: string): string | undefined =>
+  network.explorer?.tx.replace('{hash}', hash);
+
+export const getExplorerAddressUrl = (network: NetworkProfile, address: string): string | undefined =>
+  network.explorer?.address.replace('{address}', address);
@@ -0,0 +1,154 @@
+import {
+  AbstractSigner,
+  FetchRequest,
+  Transaction,
+  TypedDataEncoder,
+  getAddress,
+  resolveAddress,
+  hexlify,
+  toQuantity,
+  toUtf8Bytes,
+  verifyMessage,
+  verifyTypedData,
+  type Provider,
+  type TransactionLike,
+  type TransactionRequest,
+  type TypedDataDomain,
+  type TypedDataField,
+} from "ethers";
+
+export interface RemoteSignerOptions {
+  /** JSON-RPC endpoint that holds the key and answers eth_signTransaction */
+  url: string;
+  /** Address of the account the endpoint signs for */
+  address: string;
+  /** Extra HTTP headers sent with every request (e.g. an auth token) */
+  headers?: Record<string, string>;
+}
+
+let requestId = 1;
+
+/**
+ * Signer that never sees the private key: every signature is requested from a
+ * remote JSON-RPC signing service (eth_signTransaction, personal_sign,
+ * eth_signTypedData_v4). Broadcasting still goes through the agent's provider.
+ */
+export class RemoteSigner extends AbstractSigner {
+  readonly url: string;
+  readonly address: string;
+  private headers: Record<string, string>;
+
+  constructor(options: RemoteSignerOptions, provider?: Provider | null) {
+    super(provider);
+
+    if (!options?.url) {
+      throw new Error("Remote signer URL is required");
+    }
+
+    this.url = options.url;
+    this.address = getAddress(options.address);
+    this.headers = options.headers ?? {};
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: Provider | null): RemoteSigner {
+    return new RemoteSigner({ url: this.url, address: this.address, headers: this.headers }, provider);
+  }
+
+  async signTransaction(tx: TransactionRequest): Promise<string> {
+    // Without a provider the caller must hand over a fully populated transaction
+    const populated = this.provider
+      ? await this.populateTransaction(tx)
+      : { ...tx, to: tx.to != null ? await resolveAddress(tx.to) : tx.to } as TransactionLike<string>;
+    const signed = await this.request<string>("eth_signTransaction", [toRpcTransaction(populated, this.address)]);
+
+    // Never trust the endpoint blindly: the signature must recover to our
+    // address, and what it signed must be the transaction we asked for
+    const parsed = Transaction.from(signed);
+    if (!parsed.from || getAddress(parsed.from) !== this.address) {
+      throw new Error(`Remote signer returned a transaction signed by ${parsed.from}, expected ${this.address}`);
+    }
+    const changed = findChangedField(parsed, populated);
+    if (changed) {
+      throw new Error(`Remote signer returned a transaction with a different ${changed} than requested`);
+    }
+
+    return parsed.serialized;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const data = typeof message === "string" ? toUtf8Bytes(message) : message;
+    const signature = await this.request<string>("personal_sign", [hexlify(data), this.address]);
+    this.assertSignedByUs("message signature", verifyMessage(data, signature));
+    return signature;
+  }
+
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, Array<TypedDataField>>,
+    value: Record<string, any>
+  ): Promise<string> {
+    const payload = TypedDataEncoder.getPayload(domain, types, value);
+    const signature = await this.request<string>("eth_signTypedData_v4", [this.address, JSON.stringify(payload)]);
+    this.assertSignedByUs("typed data signature", verifyTypedData(domain, types, value, signature));
+    return signature;
+  }
+
+  private assertSignedByUs(what: string, signer: string) {
+    if (getAddress(signer) !== this.address) {
+      throw new Error(`Remote signer returned a ${what} from ${signer}, expected ${this.address}`);
+    }
+  }
+
+  private async request<T>(method: string, params: any[]): Promise<T> {
+    const req = new FetchRequest(this.url);
+    req.setHeader("content-type", "application/json");
+    for (const [key, value] of Object.entries(this.headers)) {
+      req.setHeader(key, value);
+    }
+    req.body = JSON.stringify({ jsonrpc: "2.0", id: requestId++, method, params });
+
+    const response = await req.send();
+    response.assertOk();
+
+    const body = response.bodyJson;
+    if (body?.error) {
+      throw new Error(`Remote signer error (${method}): ${body.error.message ?? JSON.stringify(body.error)}`);
+    }
+
+    return body.result as T;
+  }
+}
+
+// The first of to, value, data, nonce and chain ID where the signed
+// transaction differs from the requested one
+const findChangedField = (signed: Transaction, requested: TransactionLike<string>): string | undefined => {
+  if ((signed.to ? getAddress(signed.to) : null) !== (requested.to ? getAddress(requested.to) : null)) return "recipient";
+  if (signed.value !== BigInt(requested.value ?? 0)) return "value";
+  if (signed.data.toLowerCase() !== (requested.data ?? "0x").toLowerCase()) return "data";
+  if (requested.nonce != null && signed.nonce !== Number(requested.nonce)) return "nonce";
+  if (requested.chainId != null && signed.chainId !== BigInt(requested.chainId)) return "chain ID";
+  return undefined;
+};
+
+// Hex-encode a populated transaction the way JSON-RPC signers expect it
+const toRpcTransaction = (tx: TransactionLike<string>, from: string): Record<string, any> => {
+  const result: Record<string, any> = { from };
+
+  if (tx.to != null) result.to = tx.to;
+  if (tx.data != null) result.data = tx.data;
+  if (tx.type != null) result.type = toQuantity(tx.type);
+  if (tx.nonce != null) result.nonce = toQuantity(tx.nonce);
+  if (tx.chainId != null) result.chainId = toQuantity(tx.chainId);
+  if (tx.gasLimit != null) result.gas = toQuantity(tx.gasLimit);
+  if (tx.value != null) result.value = toQuantity(tx.value);
+  if (tx.gasPrice != null) result.gasPrice = toQuantity(tx.gasPrice);
+  if (tx.maxFeePerGas != null) result.maxFeePerGas = toQuantity(tx.maxFeePerGas);
+  if (tx.maxPriorityFeePerGas != null) result.maxPriorityFeePerGas = toQuantity(tx.maxPriorityFeePerGas);
+  if (tx.accessList != null) result.accessList = tx.accessList;
+
+  return result;
+};
@@ -0,0 +1,260 @@
+import { Contract, ethers, type TransactionReceipt } from "ethers";
+import { getAgentAddress, type CitreaClient } from "./client";
+import { getExplorerTxUrl } from "./networks";
+import type { Recipient } from "./contacts";
+
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+
+const balanceOfAbi = ["function balanceOf(address owner) view returns (uint256)"];
+
+/** An ERC20 Transfer event emitted by the transaction */
+export interface TokenTransfer {
+  token: string;
+  symbol?: string;
+  from: string;
+  to: string;
+  /** Human-readable amount; raw base units when the token's decimals are unknown */
+  amount: string;
+  rawAmount: bigint;
+}
+
+/** Agent wallet balance right after the transaction */
+export interface ResultingBalance {
+  asset: string;
+  token?: string;
+  balance: string;
+}
+
+/** How a burn was carried out; a dead-address transfer leaves the token's total supply unchanged */
+export interface BurnDetails {
+  method: "burn" | "burnFrom" | "deadAddress";
+  /** Where the tokens were sent, for dead-address burns */
+  burnAddress?: string;
+}
+
+/** The amounts a swap was sent with; a limit worked out from a live quote also records the quote */
+export interface SwapBounds {
+  /** exactInput fixes the input and limits the output; exactOutput the other way round */
+  type: "exactInput" | "exactOutput";
+  /** The fixed amount, in whole units */
+  amount: string;
+  /** Minimum output of an exact-input swap or maximum input of an exact-output swap, in whole units */
+  limit: string;
+  /** Quoted amount for the other side, when the limit was derived from a quote */
+  quoted?: string;
+  slippageBps?: number;
+}
+
+export interface TransactionResult {
+  hash: string;
+  blockNumber: number;
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  /** Total fee paid, in CBTC */
+  fee: string;
+  transfers: TokenTransfer[];
+  balances: ResultingBalance[];
+  explorerUrl?: string;
+  /** Address of the deployed contract, for deployments */
+  contractAddress?: string;
+  /** Approval the operation sent and confirmed first, e.g. the router allowance before a swap */
+  approval?: TransactionResult;
+  /** EIP-2612 permit signed off-chain and submitted with the transaction instead of an approval */
+  permit?: { token: string; spender: string; value: bigint; deadline: number };
+  /** Who the operation sent to, with the contact name when one was used */
+  recipient?: Recipient;
+  /** For burns, whether the token's burn function was used or the tokens were sent to a dead address */
+  burn?: BurnDetails;
+  /** For swaps, the fixed amount and the limit the swap was sent with */
+  swap?: SwapBounds;
+  /** For swaps that sell CBTC, the wrap into WCBTC sent and confirmed first */
+  wrap?: TransactionResult;
+  /** For swaps that buy CBTC or refund unspent CBTC, the unwrap of the WCBTC sent afterwards */
+  unwrap?: TransactionResult;
+}
+
+export const isTransactionResult = (value: unknown): value is TransactionResult =>
+  typeof value === "object" && value !== null &&
+  typeof (value as TransactionResult).hash === "string" &&
+  typeof (value as TransactionResult).blockNumber === "number";
+
+/**
+ * Turns a confirmed receipt into a TransactionResult. Token metadata and
+ * balances are best effort: the transaction already succeeded, so a failed
+ * lookup leaves a field out instead of failing the whole operation.
+ */
+export const buildTransactionResult = async (
+  client: CitreaClient,
+  receipt: TransactionReceipt,
+  {
+    tokens = [],
+    approval,
+    permit,
+    recipient,
+    burn,
+    swap,
+    wrap,
+    unwrap,
+  }: {
+    tokens?: string[];
+    approval?: TransactionResult;
+    permit?: TransactionResult["permit"];
+    recipient?: Recipient;
+    burn?: BurnDetails;
+    swap?: SwapBounds;
+    wrap?: TransactionResult;
+    unwrap?: TransactionResult;
+  } = {}
+): Promise<TransactionResult> => {
+  const agentAddress = await getAgentAddress(client);
+  const metadata = new Map<string, Promise<{ symbol?: string; decimals?: number }>>();
+  const lookup = (token: string) => {
+    let entry = metadata.get(token);
+    if (!entry) {
+      entry = getTokenMetadata(client, token);
+      metadata.set(token, entry);
+    }
+    return entry;
+  };
+
+  const transfers: TokenTransfer[] = [];
+  for (const log of receipt.logs) {
+    // ERC721 transfers carry a fourth (indexed tokenId) topic
+    if (log.topics[0] !== TRANSFER_TOPIC || log.topics.length !== 3) continue;
+    const token = ethers.getAddress(log.address);
+    const rawAmount = BigInt(log.data);
+    const { symbol, decimals } = await lookup(token);
+    transfers.push({
+      token,
+      symbol,
+      from: ethers.getAddress(ethers.dataSlice(log.topics[1], 12)),
+      to: ethers.getAddress(ethers.dataSlice(log.topics[2], 12)),
+      amount: decimals === undefined ? rawAmount.toString() : ethers.formatUnits(rawAmount, decimals),
+      rawAmount,
+    });
+  }
+
+  // Balances of every token the agent touched, plus any the operation cares about
+  const touched = new Set(tokens.map((token) => ethers.getAddress(token)));
+  for (const transfer of transfers) {
+    if (transfer.from === agentAddress || transfer.to === agentAddress) touched.add(transfer.token);
+  }
+
+  const blockTag = receipt.blockNumber;
+  const balances: ResultingBalance[] = [];
+  try {
+    const balance = await client.provider.getBalance(agentAddress, blockTag);
+    balances.push({ asset: "CBTC", balance: ethers.formatEther(balance) });
+  } catch {
+    // Left out; see above
+  }
+  for (const token of touched) {
+    try {
+      const contract = new Contract(token, balanceOfAbi, client.provider);
+      const [raw, { symbol, decimals }] = await Promise.all([
+        contract.balanceOf(agentAddress, { blockTag }) as Promise<bigint>,
+        lookup(token),
+      ]);
+      balances.push({
+        asset: symbol ?? token,
+        token,
+        balance: decimals === undefined ? raw.toString() : ethers.formatUnits(raw, decimals),
+      });
+    } catch {
+      // Left out; see above
+    }
+  }
+
+  const result: TransactionResult = {
+    hash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed,
+    effectiveGasPrice: receipt.gasPrice,
+    fee: ethers.formatEther(receipt.fee),
+    transfers,
+    balances,
+    explorerUrl: getExplorerTxUrl(client.network, receipt.hash),
+  };
+  if (receipt.contractAddress) {
+    result.contractAddress = receipt.contractAddress;
+  }
+  if (approval) {
+    result.approval = approval;
+  }
+  if (permit) {
+    const { token, spender, value, deadline } = permit;
+    result.permit = { token, spender, value, deadline };
+  }
+  if (recipient) {
+    result.recipient = recipient;
+  }
+  if (burn) {
+    result.burn = burn;
+  }
+  if (swap) {
+    result.swap = swap;
+  }
+  if (wrap) {
+    result.wrap = wrap;
+  }
+  if (unwrap) {
+    result.unwrap = unwrap;
+  }
+  return result;
+};
+
+/** Compact JSON for tool output: amounts as strings, empty fields dropped */
+export const formatTransactionResult = (result: TransactionResult): string =>
+  JSON.stringify({
+    status: "confirmed",
+    hash: result.hash,
+    block: result.blockNumber,
+    gasUsed: result.gasUsed.toString(),
+    gasPrice: `${ethers.formatUnits(result.effectiveGasPrice, "gwei")} gwei`,
+    fee: `${result.fee} CBTC`,
+    contractAddress: result.contractAddress,
+    recipient: result.recipient ? formatRecipient(result.recipient) : undefined,
+    burn: result.burn ? formatBurn(result.burn) : undefined,
+    swap: result.swap ? formatSwapBounds(result.swap) : undefined,
+    approval: result.approval ? formatLinkedTransaction(result.approval) : undefined,
+    wrap: result.wrap ? formatLinkedTransaction(result.wrap) : undefined,
+    unwrap: result.unwrap ? formatLinkedTransaction(result.unwrap) : undefined,
+    permit: result.permit
+      ? `signed off-chain for ${result.permit.spender} (value ${result.permit.value}, deadline ${new Date(result.permit.deadline * 1000).toISOString()})`
+      : undefined,
+    transfers: result.transfers.length
+      ? result.transfers.map((transfer) => `${transfer.amount} ${transfer.symbol ?? transfer.token} ${transfer.from} -> ${transfer.to}`)
+      : undefined,
+    balances: result.balances.length
+      ? Object.fromEntries(result.balances.map((entry) => [entry.asset, entry.balance]))
+      : undefined,
+    explorer: result.explorerUrl,
+  });
+
+// A transaction sent alongside the main one, such as an approval
+const formatLinkedTransaction = ({ hash, fee, explorerUrl }: TransactionResult) =>
+  ({ hash, fee: `${fee} CBTC`, explorer: explorerUrl });
+
+export const formatRecipient = ({ address, name }: Recipient): string => (name ? `${name} (${address})` : address);
+
+export const formatBurn = ({ method, burnAddress }: BurnDetails): string =>
+  method === "deadAddress"
+    ? `sent to dead address ${burnAddress}; the token has no burn function, so its total supply is unchanged`
+    : `burned with the token's ${method}() function; total supply reduced`;
+
+export const formatSwapBounds = ({ type, amount, limit, quoted, slippageBps }: SwapBounds): string => {
+  const bounds = type === "exactInput"
+    ? `sell exactly ${amount}, receive at least ${limit}`
+    : `receive exactly ${amount}, pay at most ${limit}`;
+  return quoted === undefined ? bounds : `${bounds} (quoted ${quoted}, ${slippageBps} bps slippage)`;
+};
+
+// Served from the client's token registry cache after the first lookup
+const getTokenMetadata = async (client: CitreaClient, token: string): Promise<{ symbol?: string; decimals?: number }> => {
+  try {
+    const { symbol, decimals } = await client.tokens.getMetadata(client, token);
+    return { symbol, decimals };
+  } catch {
+    return {};
+  }
+};
@@ -0,0 +1,215 @@
+import {
+  ethers,
+  getCreateAddress,
+  isError,
+  type Interface,
+  type Result,
+  type TransactionRequest,
+} from "ethers";
+import { getAgentAddress, type CitreaClient } from "./client";
+import type { Recipient } from "./contacts";
+import { formatBurn, formatSwapBounds, type BurnDetails, type SwapBounds } from "./results";
+
+/** Expected change of one asset in the agent wallet; `amount` is signed and human readable */
+export interface BalanceChange {
+  asset: string;
+  token?: string;
+  amount: string;
+}
+
+export interface SimulationResult {
+  simulated: true;
+  /** Whether the transaction would execute without reverting against the current state */
+  success: boolean;
+  from: string;
+  to: string | null;
+  gasEstimate: bigint | null;
+  /** Estimated fee in CBTC at the current gas price */
+  gasCost: string | null;
+  balanceChanges: BalanceChange[];
+  revertReason?: string;
+  /** Address the contract would be deployed at, for deployments */
+  contractAddress?: string;
+  /** Approval that would be sent before the transaction itself */
+  approval?: { token: string; spender: string; amount: string };
+  /** Who the operation would send to, with the contact name when one was used */
+  recipient?: Recipient;
+  /** For burns, how the tokens would be burned */
+  burn?: BurnDetails;
+  /** For swaps, the fixed amount and the limit the swap would be sent with */
+  swap?: SwapBounds;
+  /** For swaps that sell CBTC, the amount that would be wrapped into WCBTC first */
+  wrap?: string;
+  /** For swaps that buy CBTC or may leave part of a wrapped input unspent, whether WCBTC would be unwrapped afterwards */
+  unwrap?: boolean;
+}
+
+export interface SimulationOptions {
+  /** ABI of the called contract, used to decode custom errors and return values */
+  iface?: Interface;
+  /** Token balance changes, either fixed or derived from the decoded return value */
+  balanceChanges?: BalanceChange[] | ((result: Result) => BalanceChange[]);
+  /** Approval the operation would send first; reported alongside the result */
+  approval?: SimulationResult["approval"];
+  recipient?: Recipient;
+  burn?: BurnDetails;
+  swap?: SwapBounds;
+  wrap?: string;
+  unwrap?: boolean;
+}
+
+/** True when this call should be simulated instead of broadcast */
+export const isDryRun = (client: CitreaClient, dryRun?: boolean): boolean =>
+  dryRun ?? client.mode === "simulate";
+
+export const isSimulationResult = (value: unknown): value is SimulationResult =>
+  typeof value === "object" && value !== null && (value as SimulationResult).simulated === true;
+
+/**
+ * Runs a transaction with eth_call and estimateGas against the latest state
+ * without signing or broadcasting it. A revert is reported in the result
+ * rather than thrown, so callers can show what would have happened.
+ */
+export const simulateTransaction = async (
+  client: CitreaClient,
+  tx: TransactionRequest,
+  options: SimulationOptions = {}
+): Promise<SimulationResult> => {
+  const provider = client.provider;
+  const from = await getAgentAddress(client);
+  const request: TransactionRequest = { ...tx, from };
+  const to = tx.to ? await ethers.resolveAddress(tx.to, provider) : null;
+  const value = BigInt(tx.value ?? 0);
+
+  let returnData: string;
+  try {
+    returnData = await provider.call(request);
+  } catch (error: any) {
+    if (!isError(error, "CALL_EXCEPTION")) {
+      throw error;
+    }
+    return {
+      simulated: true,
+      success: false,
+      from,
+      to,
+      gasEstimate: null,
+      gasCost: null,
+      balanceChanges: [],
+      revertReason: decodeRevertReason(error, options.iface),
+      ...(options.approval && { approval: options.approval }),
+      ...(options.recipient && { recipient: options.recipient }),
+      ...(options.burn && { burn: options.burn }),
+      ...(options.swap && { swap: options.swap }),
+      ...(options.wrap && { wrap: options.wrap }),
+      ...(options.unwrap && { unwrap: true }),
+    };
+  }
+
+  const [gasEstimate, feeData] = await Promise.all([
+    provider.estimateGas(request),
+    provider.getFeeData(),
+  ]);
+  const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n;
+  const gasCost = gasEstimate * gasPrice;
+
+  const balanceChanges: BalanceChange[] = [
+    { asset: "CBTC", amount: `-${ethers.formatEther(value + gasCost)}` },
+  ];
+  if (typeof options.balanceChanges === "function") {
+    balanceChanges.push(...options.balanceChanges(decodeResult(options.iface, tx.data, returnData)));
+  } else if (options.balanceChanges) {
+    balanceChanges.push(...options.balanceChanges);
+  }
+
+  const result: SimulationResult = {
+    simulated: true,
+    success: true,
+    from,
+    to,
+    gasEstimate,
+    gasCost: ethers.formatEther(gasCost),
+    balanceChanges,
+    ...(options.approval && { approval: options.approval }),
+    ...(options.recipient && { recipient: options.recipient }),
+    ...(options.burn && { burn: options.burn }),
+    ...(options.swap && { swap: options.swap }),
+    ...(options.wrap && { wrap: options.wrap }),
+    ...(options.unwrap && { unwrap: true }),
+  };
+
+  if (!to) {
+    const nonce = await provider.getTransactionCount(from, "pending");
+    result.contractAddress = getCreateAddress({ from, nonce });
+  }
+
+  return result;
+};
+
+/** One-paragraph description of a simulation, for tool output shown to the LLM */
+export const formatSimulation = (result: SimulationResult): string => {
+  const lines = ["SIMULATION ONLY - nothing was signed or broadcast."];
+
+  if (result.approval) {
+    const { token, spender, amount } = result.approval;
+    lines.push(`An approval of ${amount} of token ${token} for ${spender} would be sent first; the transaction below was simulated without it.`);
+  }
+
+  if (result.wrap) {
+    lines.push(`${result.wrap} CBTC would be wrapped into WCBTC first; the swap below was simulated without it.`);
+  }
+
+  if (result.unwrap) {
+    lines.push("The WCBTC the swap leaves in the wallet would then be unwrapped into CBTC.");
+  }
+
+  if (result.recipient?.name) {
+    lines.push(`Recipient: contact ${result.recipient.name} (${result.recipient.address}).`);
+  }
+
+  if (result.burn) {
+    lines.push(`Burn: tokens would be ${formatBurn(result.burn)}.`);
+  }
+
+  if (result.swap) {
+    lines.push(`Swap: ${formatSwapBounds(result.swap)}.`);
+  }
+
+  if (!result.success) {
+    lines.push(`The transaction would revert: ${result.revertReason ?? "unknown reason"}.`);
+    return lines.join(" ");
+  }
+
+  lines.push(`The transaction would succeed. Estimated gas: ${result.gasEstimate} (~${result.gasCost} CBTC).`);
+  if (result.contractAddress) {
+    lines.push(`The contract would be deployed at ${result.contractAddress}.`);
+  }
+  const changes = result.balanceChanges.map((change) => `${change.amount} ${change.asset}`);
+  lines.push(`Expected balance changes: ${changes.join(", ")}.`);
+  return lines.join(" ");
+};
+
+const decodeResult = (iface: Interface | undefined, data: string | null | undefined, returnData: string): Result => {
+  const fragment = iface && data ? iface.parseTransaction({ data })?.fragment : null;
+  if (!iface || !fragment) {
+    throw new Error("Cannot decode simulation result without the contract ABI");
+  }
+  return iface.decodeFunctionResult(fragment, returnData);
+};
+
+const decodeRevertReason = (error: any, iface?: Interface): string => {
+  // Error(string) and Panic(uint256) are decoded by ethers itself
+  if (error.reason) {
+    return error.reason;
+  }
+
+  const data: string | undefined = error.data;
+  if (data && data !== "0x" && iface) {
+    const parsed = iface.parseError(data);
+    if (parsed) {
+      return `${parsed.name}(${parsed.args.map(String).join(", ")})`;
+    }
+  }
+
+  return data && data !== "0x" ? `custom error ${data.slice(0, 10)}` : "execution reverted without a reason";
+};
@@ -0,0 +1,205 @@
+import { Contract, ethers } from "ethers";
+import { readFile } from "node:fs/promises";
+import type { CitreaClient } from "./client";
+import type { NetworkProfile } from "./networks";
+
+const tokenMetadataAbi = [
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+];
+
+export interface TokenInfo {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name?: string;
+  decimals: number;
+}
+
+/** A token list in the Uniswap token-list format; only `tokens` is read */
+export interface TokenList {
+  name?: string;
+  tokens: TokenInfo[];
+}
+
+export interface TokenRegistryOptions {
+  /** Paths of token-list JSON files, read on first use */
+  lists?: string[];
+  /** Tokens added on top of the lists; they win over list entries for the same address */
+  tokens?: TokenInfo[];
+}
+
+const tokenKey = (chainId: number, address: string) => `${chainId}:${address.toLowerCase()}`;
+
+/**
+ * Known ERC20 tokens per chain, for symbol resolution, plus an in-memory
+ * cache of metadata read from chain. Only listed or user-added tokens are
+ * resolved by symbol; a token seen on chain never is, so a look-alike
+ * contract cannot claim a well-known symbol.
+ */
+export class TokenRegistry {
+  private tokens = new Map<string, TokenInfo>();
+  private metadata = new Map<string, Promise<TokenInfo>>();
+  private loading: Promise<void> | null = null;
+
+  constructor(private options: TokenRegistryOptions = {}) {
+    for (const token of options.tokens ?? []) {
+      this.add(token);
+    }
+  }
+
+  /** Registers a token, replacing any entry with the same chain and address */
+  add(token: TokenInfo): TokenInfo {
+    const entry = validateToken(token);
+    this.tokens.set(tokenKey(entry.chainId, entry.address), entry);
+    return entry;
+  }
+
+  async list(chainId: number): Promise<TokenInfo[]> {
+    await this.load();
+    return [...this.tokens.values()].filter((token) => token.chainId === chainId);
+  }
+
+  async findBySymbol(chainId: number, symbol: string): Promise<TokenInfo[]> {
+    const wanted = symbol.toLowerCase();
+    return (await this.list(chainId)).filter((token) => token.symbol.toLowerCase() === wanted);
+  }
+
+  async findByAddress(chainId: number, address: string): Promise<TokenInfo | undefined> {
+    await this.load();
+    return this.tokens.get(tokenKey(chainId, address));
+  }
+
+  /** Metadata for any token, read from chain once and then served from memory */
+  async getMetadata(client: CitreaClient, address: string): Promise<TokenInfo> {
+    const chainId = client.network.chainId;
+    const listed = await this.findByAddress(chainId, address);
+    if (listed) {
+      return listed;
+    }
+
+    const key = tokenKey(chainId, address);
+    let entry = this.metadata.get(key);
+    if (!entry) {
+      entry = fetchMetadata(client, address);
+      // Do not cache a failed lookup
+      entry.catch(() => this.metadata.delete(key));
+      this.metadata.set(key, entry);
+    }
+    return entry;
+  }
+
+  /** Unlisted tokens whose metadata has been read from chain, e.g. by earlier transfers or balance checks */
+  async discovered(chainId: number): Promise<TokenInfo[]> {
+    const entries = [...this.metadata].filter(([key]) => key.startsWith(`${chainId}:`)).map(([, entry]) => entry);
+    const settled = await Promise.allSettled(entries);
+    return settled.flatMap((entry) => (entry.status === "fulfilled" ? [entry.value] : []));
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= (async () => {
+      for (const path of this.options.lists ?? []) {
+        const list: TokenList = JSON.parse(await readFile(path, "utf8"));
+        if (!Array.isArray(list.tokens)) {
+          throw new Error(`Token list ${path} has no "tokens" array`);
+        }
+        for (const token of list.tokens) {
+          const entry = validateToken(token, path);
+          const key = tokenKey(entry.chainId, entry.address);
+          // Entries added in code take precedence over the files
+          if (!this.tokens.has(key)) {
+            this.tokens.set(key, entry);
+          }
+        }
+      }
+    })();
+    // Let a fixed file be picked up on the next call
+    this.loading.catch(() => (this.loading = null));
+    return this.loading;
+  }
+
+  /** Uses or builds a registry, seeded with the network's wrapped CBTC unless it already lists it */
+  static create(network: NetworkProfile, options: TokenRegistry | TokenRegistryOptions = {}): TokenRegistry {
+    const registry = options instanceof TokenRegistry ? options : new TokenRegistry(options);
+    const wrapped = network.contracts.wrappedNative;
+    if (wrapped && !registry.tokens.has(tokenKey(network.chainId, wrapped))) {
+      registry.add({ chainId: network.chainId, address: wrapped, symbol: "WCBTC", name: "Wrapped CBTC", decimals: 18 });
+    }
+    return registry;
+  }
+}
+
+/**
+ * Resolves a token address or symbol to its metadata. Symbols are looked up
+ * in the client's registry for the current network and must match exactly
+ * one token; anything else is refused rather than guessed.
+ */
+export const resolveToken = async (client: CitreaClient, token: string): Promise<TokenInfo> => {
+  const input = token?.trim();
+  if (!input) {
+    throw new Error("Token address or symbol is required");
+  }
+
+  if (input.startsWith("0x")) {
+    if (!ethers.isAddress(input)) {
+      throw new Error("Invalid token address format");
+    }
+    return await client.tokens.getMetadata(client, ethers.getAddress(input));
+  }
+
+  const matches = await client.tokens.findBySymbol(client.network.chainId, input);
+  if (matches.length === 1) {
+    return matches[0];
+  }
+
+  if (matches.length > 1) {
+    const candidates = matches.map((match) => `${match.address}${match.name ? ` (${match.name})` : ""}`).join(", ");
+    throw new Error(`Token symbol ${input} is ambiguous on ${client.network.name}: ${candidates}. Use the token address instead.`);
+  }
+
+  if (input.toUpperCase() === "CBTC") {
+    throw new Error("CBTC is the native coin, not an ERC20 token; use the CBTC operations for it");
+  }
+
+  throw new Error(`Unknown token symbol ${input} on ${client.network.name}. Use the token address, or add the token to the registry.`);
+};
+
+/** Like resolveToken, but only needs the address: addresses are checksummed without a chain read */
+export const resolveTokenAddress = async (client: CitreaClient, token: string): Promise<string> => {
+  const input = token?.trim();
+  if (input?.startsWith("0x")) {
+    if (!ethers.isAddress(input)) {
+      throw new Error("Invalid token address format");
+    }
+    return ethers.getAddress(input);
+  }
+  return (await resolveToken(client, input)).address;
+};
+
+const validateToken = (token: TokenInfo, source?: string): TokenInfo => {
+  const where = source ? ` in ${source}` : "";
+  if (!ethers.isAddress(token?.address)) {
+    throw new Error(`Invalid token address ${token?.address}${where}`);
+  }
+  if (!Number.isInteger(token.chainId) || !token.symbol || !Number.isInteger(token.decimals)) {
+    throw new Error(`Token ${token.address}${where} needs an integer chainId and decimals and a symbol`);
+  }
+  return {
+    chainId: token.chainId,
+    address: ethers.getAddress(token.address),
+    symbol: token.symbol,
+    name: token.name,
+    decimals: token.decimals,
+  };
+};
+
+const fetchMetadata = async (client: CitreaClient, address: string): Promise<TokenInfo> => {
+  const contract = new Contract(address, tokenMetadataAbi, client.provider);
+  const [decimals, symbol, name] = await Promise.all([
+    contract.decimals(),
+    contract.symbol().catch(() => "Unknown"), // Optional, don't fail if not available
+    contract.name().catch(() => undefined),
+  ]);
+  return { chainId: client.network.chainId, address, symbol, name, decimals: Number(decimals) };
+};
@@ -0,0 +1,131 @@
+import type { AbstractSigner, TransactionRequest, TransactionResponse } from "ethers";
+
+// How many times a send re-syncs its nonce from the chain before giving up
+const MAX_NONCE_RESYNCS = 3;
+
+const isNonceError = (error: any): boolean =>
+  error?.code === 'NONCE_EXPIRED' ||
+  error?.code === 'REPLACEMENT_UNDERPRICED' ||
+  /nonce too low|nonce has already been used|replacement transaction underpriced/i.test(error?.message ?? '');
+
+/**
+ * Serialized send queue with local nonce management for one account on one
+ * chain. Every client of that account shares it (see getTransactionQueue) and
+ * passes its own signer, connected to its own provider, with each send.
+ *
+ * Sends run one at a time, so parallel tool calls never pick the same nonce.
+ * Before each send the local nonce is reconciled with the node: a dropped
+ * transaction leaves a gap that is filled by the next send, and a
+ * "nonce too low" rejection re-syncs from the chain and retries.
+ */
+export class TransactionQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+  private nextNonce: number | null = null;
+  // Lowest nonce still usable; raised when the node says a nonce is taken
+  private minNonce = 0;
+  // Nonce -> hash of transactions we broadcast that are not mined yet
+  private pending = new Map<number, string>();
+
+  send(signer: AbstractSigner, tx: TransactionRequest): Promise<TransactionResponse> {
+    const run = this.tail.then(() => this.sendNext(signer, tx, 0));
+    // Keep the queue moving even when one send fails
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Re-sends an already used nonce (speed-up or cancel). Runs in the queue so
+   * it never interleaves with a fresh send.
+   */
+  replace(signer: AbstractSigner, tx: TransactionRequest & { nonce: number }): Promise<TransactionResponse> {
+    const run = this.tail.then(async () => {
+      const response = await signer.sendTransaction(tx);
+      this.pending.set(tx.nonce, response.hash);
+      return response;
+    });
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  /** Forgets the local nonce so the next send starts from the node's view */
+  reset(): void {
+    this.nextNonce = null;
+    this.minNonce = 0;
+    this.pending.clear();
+  }
+
+  private async sendNext(signer: AbstractSigner, tx: TransactionRequest, resyncs: number): Promise<TransactionResponse> {
+    const nonce = await this.reserveNonce(signer);
+
+    try {
+      const response = await signer.sendTransaction({ ...tx, nonce });
+      this.pending.set(nonce, response.hash);
+      this.nextNonce = nonce + 1;
+      return response;
+    } catch (error: any) {
+      if (isNonceError(error) && resyncs < MAX_NONCE_RESYNCS) {
+        console.warn(`Nonce ${nonce} rejected (${error.shortMessage ?? error.message}), re-syncing from chain...`);
+        // The node may still report a stale count, so never go back to this nonce
+        this.nextNonce = null;
+        this.minNonce = nonce + 1;
+        return await this.sendNext(signer, tx, resyncs + 1);
+      }
+      throw error;
+    }
+  }
+
+  private async reserveNonce(signer: AbstractSigner): Promise<number> {
+    const provider = signer.provider;
+    if (!provider) {
+      throw new Error("Signer is not connected to a provider");
+    }
+
+    const address = await signer.getAddress();
+    const [mined, pendingCount] = await Promise.all([
+      provider.getTransactionCount(address, 'latest'),
+      provider.getTransactionCount(address, 'pending'),
+    ]);
+
+    for (const nonce of [...this.pending.keys()]) {
+      if (nonce < mined) this.pending.delete(nonce);
+    }
+
+    if (this.nextNonce === null || this.nextNonce < pendingCount) {
+      // First send, or someone else (another process) used the wallet
+      this.nextNonce = pendingCount;
+    } else if (this.nextNonce > pendingCount) {
+      // We are ahead of the node: make sure what we sent is still in flight
+      for (let nonce = Math.max(mined, pendingCount, this.minNonce); nonce < this.nextNonce; nonce++) {
+        const hash = this.pending.get(nonce);
+        if (!hash || !(await provider.getTransaction(hash))) {
+          console.warn(`Transaction with nonce ${nonce} was dropped, reusing its nonce`);
+          for (const stale of [...this.pending.keys()]) {
+            if (stale >= nonce) this.pending.delete(stale);
+          }
+          this.nextNonce = nonce;
+          break;
+        }
+      }
+    }
+
+    this.nextNonce = Math.max(this.nextNonce, this.minNonce);
+    return this.nextNonce;
+  }
+}
+
+// One queue per chain and account, for the lifetime of the process
+const queues = new Map<string, TransactionQueue>();
+
+/**
+ * Returns the send queue of the signer's account on the chain. Clients that
+ * share a key share the queue, so their sends never pick the same nonce.
+ */
+export const getTransactionQueue = async (chainId: number, signer: AbstractSigner): Promise<TransactionQueue> => {
+  const key = `${chainId}:${(await signer.getAddress()).toLowerCase()}`;
+  let queue = queues.get(key);
+  if (!queue) {
+    queue = new TransactionQueue();
+    queues.set(key, queue);
+  }
+  return queue;
+};
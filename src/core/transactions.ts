@@ -0,0 +1,202 @@
+import { isError, type TransactionReceipt, type TransactionRequest, type TransactionResponse } from "ethers";
+import type { CitreaClient } from "./client";
+import { getTransactionQueue } from "./transactionQueue";
+
+export interface TransactionLifecycleOptions {
+  /** Blocks on top of the inclusion block before a transaction counts as final (default: 1) */
+  confirmations?: number;
+  /** How long to wait for each attempt before treating it as stuck (default: 120s) */
+  timeoutMs?: number;
+  /** What to do with a stuck transaction (default: 'speedUp') */
+  onTimeout?: 'fail' | 'speedUp' | 'cancel';
+  /** Fee increase per replacement, in percent; nodes require at least 10 (default: 20) */
+  feeBumpPercent?: number;
+  /** Replacements sent before giving up on a stuck transaction (default: 2) */
+  maxReplacements?: number;
+}
+
+export type TransactionState = 'confirmed' | 'failed' | 'replaced' | 'cancelled' | 'timeout' | 'reorged';
+
+/**
+ * Raised when a sent transaction does not end up confirmed. `state` tells the
+ * caller what happened; the message is written for the LLM to relay as-is.
+ */
+export class TransactionLifecycleError extends Error {
+  constructor(
+    message: string,
+    readonly state: Exclude<TransactionState, 'confirmed'>,
+    readonly hash: string,
+    readonly replacementHash?: string,
+    readonly receipt?: TransactionReceipt | null
+  ) {
+    super(message);
+    this.name = 'TransactionLifecycleError';
+  }
+}
+
+const DEFAULT_LIFECYCLE: Required<TransactionLifecycleOptions> = {
+  confirmations: 1,
+  timeoutMs: 120_000,
+  onTimeout: 'speedUp',
+  feeBumpPercent: 20,
+  maxReplacements: 2,
+};
+
+// Times a confirmed transaction may vanish in a reorg before we give up on it
+const MAX_REORG_RECHECKS = 3;
+
+/**
+ * Sends a transaction through the signer's queue, which assigns nonces and
+ * serializes concurrent sends, across every client of the same account. All
+ * write operations go through here.
+ */
+export const sendTransaction = async (
+  client: CitreaClient,
+  tx: TransactionRequest
+): Promise<TransactionResponse> => {
+  const queue = await getTransactionQueue(client.network.chainId, client.signer);
+  return await queue.send(client.signer, tx);
+};
+
+/**
+ * Waits until a sent transaction is final, speeding up or cancelling it when
+ * it gets stuck, and re-checking that the inclusion block was not reorged.
+ * Resolves with the receipt of whichever of our transactions was mined.
+ */
+export const waitForTransaction = async (
+  client: CitreaClient,
+  tx: TransactionResponse,
+  options: TransactionLifecycleOptions = {}
+): Promise<TransactionReceipt> => {
+  const settings = { ...DEFAULT_LIFECYCLE, ...client.txOptions, ...options };
+  const ourHashes = new Set([tx.hash]);
+  let current = tx;
+  let replacements = 0;
+  let cancelling = false;
+  let reorgs = 0;
+
+  while (true) {
+    let receipt: TransactionReceipt | null;
+    try {
+      receipt = await current.wait(settings.confirmations, settings.timeoutMs);
+    } catch (error: any) {
+      if (isError(error, 'TRANSACTION_REPLACED')) {
+        if (!ourHashes.has(error.replacement.hash)) {
+          throw new TransactionLifecycleError(
+            `Transaction ${tx.hash} (nonce ${tx.nonce}) was ${error.reason} by ${error.replacement.hash}, which was not sent by this agent`,
+            error.reason === 'cancelled' ? 'cancelled' : 'replaced',
+            tx.hash,
+            error.replacement.hash,
+            error.receipt
+          );
+        }
+        // An earlier attempt of ours won the race against its replacement
+        receipt = error.receipt;
+      } else if (isError(error, 'CALL_EXCEPTION') && error.receipt) {
+        throw new TransactionLifecycleError(
+          `Transaction ${error.receipt.hash} reverted in block ${error.receipt.blockNumber}`,
+          'failed',
+          tx.hash,
+          error.receipt.hash !== tx.hash ? error.receipt.hash : undefined,
+          error.receipt
+        );
+      } else if (isError(error, 'TIMEOUT')) {
+        const waited = settings.timeoutMs < 1000 ? `${settings.timeoutMs}ms` : `${Math.round(settings.timeoutMs / 1000)}s`;
+        if (settings.onTimeout === 'fail' || replacements >= settings.maxReplacements) {
+          throw new TransactionLifecycleError(
+            `Transaction ${current.hash} (nonce ${tx.nonce}) was not confirmed within ${waited}` +
+            (replacements > 0 ? ` after ${replacements} replacement(s)` : '') +
+            `; it may still be mined later`,
+            'timeout',
+            tx.hash,
+            current.hash !== tx.hash ? current.hash : undefined
+          );
+        }
+
+        cancelling = cancelling || settings.onTimeout === 'cancel';
+        console.warn(
+          `Transaction ${current.hash} stuck for ${waited}, ` +
+          `${cancelling ? 'cancelling it with a zero-value self-send' : 'speeding it up'} (+${settings.feeBumpPercent}% fee)...`
+        );
+
+        try {
+          current = await replaceTransaction(client, current, settings.feeBumpPercent, cancelling);
+        } catch (replaceError: any) {
+          // The original got mined while we were building its replacement
+          if (isError(replaceError, 'NONCE_EXPIRED')) {
+            replacements += 1;
+            continue;
+          }
+          throw replaceError;
+        }
+        ourHashes.add(current.hash);
+        replacements += 1;
+        continue;
+      } else {
+        throw error;
+      }
+    }
+
+    if (!receipt) {
+      throw new TransactionLifecycleError(`Transaction ${current.hash} receipt not available`, 'timeout', tx.hash);
+    }
+
+    // Make sure the block that included us is still canonical
+    const block = await client.provider.getBlock(receipt.blockNumber);
+    if (!block || block.hash !== receipt.blockHash) {
+      reorgs += 1;
+      if (reorgs > MAX_REORG_RECHECKS) {
+        throw new TransactionLifecycleError(
+          `Transaction ${receipt.hash} was reorged out of block ${receipt.blockNumber} and not re-included`,
+          'reorged',
+          tx.hash,
+          receipt.hash !== tx.hash ? receipt.hash : undefined
+        );
+      }
+      console.warn(`Transaction ${receipt.hash} was reorged out of block ${receipt.blockNumber}, waiting for re-inclusion...`);
+      continue;
+    }
+
+    if (cancelling && receipt.hash !== tx.hash) {
+      throw new TransactionLifecycleError(
+        `Transaction ${tx.hash} (nonce ${tx.nonce}) was stuck and has been cancelled by self-send ${receipt.hash}`,
+        'cancelled',
+        tx.hash,
+        receipt.hash,
+        receipt
+      );
+    }
+
+    if (receipt.hash !== tx.hash) {
+      console.log(`Transaction ${tx.hash} was sped up; replacement ${receipt.hash} confirmed`);
+    }
+    return receipt;
+  }
+};
+
+// Re-sends the same nonce with bumped fees, either as the same call or as a cancelling self-send
+const replaceTransaction = async (
+  client: CitreaClient,
+  tx: TransactionResponse,
+  feeBumpPercent: number,
+  cancel: boolean
+): Promise<TransactionResponse> => {
+  const feeData = await client.provider.getFeeData();
+  const bump = (value: bigint | null) => (value ?? 0n) * BigInt(100 + feeBumpPercent) / 100n;
+  const max = (a: bigint, b: bigint | null) => (b != null && b > a ? b : a);
+
+  const fees: TransactionRequest = tx.maxFeePerGas != null
+    ? {
+        type: 2,
+        maxFeePerGas: max(bump(tx.maxFeePerGas), feeData.maxFeePerGas),
+        maxPriorityFeePerGas: max(bump(tx.maxPriorityFeePerGas), feeData.maxPriorityFeePerGas),
+      }
+    : { type: tx.type, gasPrice: max(bump(tx.gasPrice), feeData.gasPrice) };
+
+  const request: TransactionRequest = cancel
+    ? { to: tx.from, value: 0n, data: '0x', gasLimit: 21_000n, nonce: tx.nonce, chainId: tx.chainId, ...fees }
+    : { to: tx.to, value: tx.value, data: tx.data, gasLimit: tx.gasLimit, nonce: tx.nonce, chainId: tx.chainId, ...fees };
+
+  const queue = await getTransactionQueue(client.network.chainId, client.signer);
+  return await queue.replace(client.signer, { ...request, nonce: tx.nonce });
+};
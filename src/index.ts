@@ -1,4 +1,14 @@
 export * from './CitreaAgent.js';
 export * from './tools.js';
+export * from './approval.js';
+export * from './policy.js';
 export * from './tools/citrea/index.js';
-export * from './core/client.js';
\ No newline at end of file
+export * from './core/client.js';
+export * from './core/networks.js';
+export * from './core/failoverProvider.js';
+export * from './core/remoteSigner.js';
+export * from './core/transactions.js';
+export * from './core/simulation.js';
+export * from './core/results.js';
+export * from './core/tokens.js';
+export * from './core/contacts.js';
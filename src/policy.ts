@@ -0,0 +1,313 @@
+import { ethers, parseUnits } from 'ethers';
+import { readFile, writeFile } from 'node:fs/promises';
+import { getAgentAddress, type CitreaClient } from './core/client.js';
+import { resolveToken } from './core/tokens.js';
+import { resolveRecipient } from './core/contacts.js';
+
+export interface AssetLimit {
+  /** Largest amount a single transaction may spend, in whole units (e.g. "0.5") */
+  perTransaction?: string;
+  /** Largest amount spent over any rolling 24 hours, in whole units */
+  daily?: string;
+}
+
+export interface SpendingPolicy {
+  /** Caps keyed by "CBTC" or an ERC20 token address; CBTC and WCBTC share the CBTC cap, or the WCBTC one if CBTC has none */
+  limits?: Record<string, AssetLimit>;
+  /** When set, tokens may only be sent to these addresses (the agent's own wallet is always allowed) */
+  allowedRecipients?: string[];
+  /** Addresses tokens may never be sent to */
+  deniedRecipients?: string[];
+  /** Largest swap input, either for every token or keyed by token address */
+  maxSwapAmount?: string | Record<string, string>;
+  /** Tools the agent may not use at all, e.g. ['deploy_contract', 'burn_erc20'] */
+  disabledTools?: string[];
+  /** Where rolling usage is kept (default: in memory, lost on restart) */
+  store?: UsageStore;
+}
+
+/** What a state-changing tool call would spend, as checked against the policy */
+export interface SpendRequest {
+  tool: string;
+  /** "CBTC" or the address of the ERC20 token being spent */
+  asset?: string;
+  /** Amount of `asset` spent, in whole units */
+  amount?: string;
+  recipient?: string;
+  swap?: boolean;
+  /** An allowance with no cap; refused for any asset that has a limit */
+  unlimited?: boolean;
+}
+
+export type PolicyRule = 'disabledTool' | 'perTransaction' | 'daily' | 'deniedRecipient' | 'allowedRecipients' | 'maxSwapAmount';
+
+/** Raised when a tool call breaks the spending policy; nothing has been signed */
+export class PolicyViolationError extends Error {
+  constructor(message: string, readonly rule: PolicyRule, readonly tool: string) {
+    super(message);
+    this.name = 'PolicyViolationError';
+  }
+}
+
+export interface UsageEntry {
+  /** Amount in base units, as a decimal string */
+  amount: string;
+  timestamp: number;
+}
+
+/** Persistence for rolling usage counters, keyed by asset */
+export interface UsageStore {
+  getEntries(asset: string): Promise<UsageEntry[]>;
+  setEntries(asset: string, entries: UsageEntry[]): Promise<void>;
+}
+
+export class InMemoryUsageStore implements UsageStore {
+  private entries = new Map<string, UsageEntry[]>();
+
+  async getEntries(asset: string): Promise<UsageEntry[]> {
+    return [...(this.entries.get(asset) ?? [])];
+  }
+
+  async setEntries(asset: string, entries: UsageEntry[]): Promise<void> {
+    this.entries.set(asset, [...entries]);
+  }
+}
+
+/** Keeps usage in a JSON file so daily limits survive restarts */
+export class JsonFileUsageStore implements UsageStore {
+  constructor(private path: string) {}
+
+  async getEntries(asset: string): Promise<UsageEntry[]> {
+    return (await this.read())[asset] ?? [];
+  }
+
+  async setEntries(asset: string, entries: UsageEntry[]): Promise<void> {
+    const data = await this.read();
+    data[asset] = entries;
+    await writeFile(this.path, JSON.stringify(data, null, 2));
+  }
+
+  private async read(): Promise<Record<string, UsageEntry[]>> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return {};
+      throw error;
+    }
+  }
+}
+
+/** Spend recorded against the daily limit; release it if the transaction did not go through */
+export interface SpendReservation {
+  release(): Promise<void>;
+}
+
+/** Reservations of several spends made together; `parts` follows the order of the requests */
+export interface BatchReservation extends SpendReservation {
+  parts: SpendReservation[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NATIVE_ASSET = 'cbtc';
+
+// A part released early must not be released again with the rest of its batch
+const releaseOnce = (reservation: SpendReservation): SpendReservation => {
+  let released = false;
+  return {
+    release: async () => {
+      if (released) return;
+      released = true;
+      await reservation.release();
+    },
+  };
+};
+
+const assetKey = (asset: string) => (asset.toLowerCase() === NATIVE_ASSET ? NATIVE_ASSET : ethers.getAddress(asset).toLowerCase());
+
+/**
+ * Enforces a SpendingPolicy before the tool layer signs anything. Checks and
+ * reservations run one at a time, so parallel tool calls cannot both slip
+ * under a daily limit that only one of them fits in.
+ */
+export class PolicyEngine {
+  private limits = new Map<string, AssetLimit>();
+  private allowed: Set<string> | null;
+  private denied: Set<string>;
+  private disabled: Set<string>;
+  private store: UsageStore;
+  private tail: Promise<unknown> = Promise.resolve();
+
+  constructor(private policy: SpendingPolicy) {
+    for (const [asset, limit] of Object.entries(policy.limits ?? {})) {
+      this.limits.set(assetKey(asset), limit);
+    }
+    this.allowed = policy.allowedRecipients ? new Set(policy.allowedRecipients.map((address) => ethers.getAddress(address))) : null;
+    this.denied = new Set((policy.deniedRecipients ?? []).map((address) => ethers.getAddress(address)));
+    this.disabled = new Set(policy.disabledTools ?? []);
+    this.store = policy.store ?? new InMemoryUsageStore();
+  }
+
+  /**
+   * Throws PolicyViolationError if the request breaks the policy. With
+   * `reserve`, the amount is counted towards the daily limit right away.
+   */
+  authorize(client: CitreaClient, request: SpendRequest, reserve = true): Promise<SpendReservation> {
+    const run = this.tail.then(() => this.check(client, request, reserve));
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Authorizes the spends of one call together, e.g. the rows of a batch
+   * transfer: either all of them are reserved or none is. Each part can
+   * still be released on its own, e.g. for a row that failed.
+   */
+  authorizeAll(client: CitreaClient, requests: SpendRequest[], reserve = true): Promise<BatchReservation> {
+    const run = this.tail.then(async () => {
+      const parts: SpendReservation[] = [];
+      const releaseAll = async () => {
+        // One at a time, since stores read and rewrite their entries
+        for (const part of parts) await part.release();
+      };
+      try {
+        for (const request of requests) {
+          parts.push(releaseOnce(await this.check(client, request, reserve)));
+        }
+      } catch (error) {
+        await releaseAll();
+        throw error;
+      }
+      return { parts, release: releaseAll };
+    });
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  private async check(client: CitreaClient, request: SpendRequest, reserve: boolean): Promise<SpendReservation> {
+    const { tool } = request;
+    const none: SpendReservation = { release: async () => {} };
+
+    if (this.disabled.has(tool)) {
+      throw new PolicyViolationError(`Policy violation: ${tool} is disabled for this agent`, 'disabledTool', tool);
+    }
+
+    if (request.recipient) {
+      await this.checkRecipient(client, tool, request.recipient);
+    }
+
+    if (!request.asset || (!request.amount && !request.unlimited)) {
+      return none;
+    }
+
+    // Symbols count against the limits of the token they resolve to. A token
+    // that does not resolve cannot be checked, so the call is refused
+    const token = request.asset.toLowerCase() === NATIVE_ASSET ? null : await resolveToken(client, request.asset);
+
+    const asset = token ? assetKey(token.address) : NATIVE_ASSET;
+    const label = token ? `token ${token.symbol} (${token.address})` : 'CBTC';
+    const decimals = token ? token.decimals : 18;
+
+    // WCBTC is CBTC in another form, so wrapping or unwrapping cannot move
+    // an amount out from under its cap: both share one limit and one usage
+    const wrappedNative = client.network.contracts.wrappedNative;
+    const wrappedKey = wrappedNative ? assetKey(wrappedNative) : undefined;
+    const native = asset === NATIVE_ASSET || asset === wrappedKey;
+    const usageKey = native ? NATIVE_ASSET : asset;
+    const limit = native
+      ? this.limits.get(NATIVE_ASSET) ?? (wrappedKey ? this.limits.get(wrappedKey) : undefined)
+      : this.limits.get(asset);
+
+    if (request.unlimited || !request.amount) {
+      // No amount fits under a cap, so capped assets never get an unlimited allowance
+      const rule = limit?.perTransaction !== undefined ? 'perTransaction' : limit?.daily !== undefined ? 'daily' : undefined;
+      if (rule) {
+        throw new PolicyViolationError(
+          `Policy violation: an unlimited approval of ${label} exceeds the ${rule === 'daily' ? 'daily' : 'per-transaction'} limit of ${limit![rule]}`,
+          rule,
+          tool
+        );
+      }
+      return none;
+    }
+
+    const amount = parseUnits(request.amount, decimals);
+
+    if (request.swap && this.policy.maxSwapAmount !== undefined) {
+      const max = typeof this.policy.maxSwapAmount === 'string'
+        ? this.policy.maxSwapAmount
+        : this.findByAsset(this.policy.maxSwapAmount, asset);
+      if (max !== undefined && amount > parseUnits(max, decimals)) {
+        throw new PolicyViolationError(
+          `Policy violation: swap of ${request.amount} ${label} exceeds the maximum swap size of ${max}`,
+          'maxSwapAmount',
+          tool
+        );
+      }
+    }
+
+    if (!limit) {
+      return none;
+    }
+
+    if (limit.perTransaction !== undefined && amount > parseUnits(limit.perTransaction, decimals)) {
+      throw new PolicyViolationError(
+        `Policy violation: ${request.amount} ${label} exceeds the per-transaction limit of ${limit.perTransaction}`,
+        'perTransaction',
+        tool
+      );
+    }
+
+    if (limit.daily === undefined) {
+      return none;
+    }
+
+    const now = Date.now();
+    const entries = (await this.store.getEntries(usageKey)).filter((entry) => entry.timestamp > now - DAY_MS);
+    const spent = entries.reduce((total, entry) => total + BigInt(entry.amount), 0n);
+    const dailyLimit = parseUnits(limit.daily, decimals);
+    if (spent + amount > dailyLimit) {
+      const remaining = spent >= dailyLimit ? '0' : ethers.formatUnits(dailyLimit - spent, decimals);
+      throw new PolicyViolationError(
+        `Policy violation: ${request.amount} ${label} exceeds the daily limit of ${limit.daily} (${remaining} left in the last 24 hours)`,
+        'daily',
+        tool
+      );
+    }
+
+    if (!reserve) {
+      return none;
+    }
+
+    const entry: UsageEntry = { amount: amount.toString(), timestamp: now };
+    await this.store.setEntries(usageKey, [...entries, entry]);
+    return {
+      release: async () => {
+        const current = await this.store.getEntries(usageKey);
+        const index = current.findIndex((other) => other.timestamp === entry.timestamp && other.amount === entry.amount);
+        if (index !== -1) {
+          current.splice(index, 1);
+          await this.store.setEntries(usageKey, current);
+        }
+      },
+    };
+  }
+
+  private async checkRecipient(client: CitreaClient, tool: string, recipient: string) {
+    // Contact names are checked as the address they point to; malformed
+    // addresses and unknown names are refused here, before the tool runs
+    const { address } = await resolveRecipient(client, recipient);
+
+    if (this.denied.has(address)) {
+      throw new PolicyViolationError(`Policy violation: recipient ${address} is on the deny list`, 'deniedRecipient', tool);
+    }
+
+    if (this.allowed && !this.allowed.has(address) && address !== (await getAgentAddress(client))) {
+      throw new PolicyViolationError(`Policy violation: recipient ${address} is not on the allow list`, 'allowedRecipients', tool);
+    }
+  }
+
+  private findByAsset(values: Record<string, string>, asset: string): string | undefined {
+    const match = Object.entries(values).find(([key]) => assetKey(key) === asset);
+    return match?.[1];
+  }
+}
@@ -3,55 +3,216 @@ import { z } from 'zod';
 
 // Import functions
 import { transferETH } from './tools/citrea/ETHOperations.js';
-import { transferErc20, burnErc20 } from './tools/citrea/erc20Operations.js';
+import {
+  transferErc20,
+  burnErc20,
+  mintErc20,
+  approveErc20,
+  revokeAllowance,
+  getAllowance
+} from './tools/citrea/erc20Operations.js';
+import { signPermit, formatPermit, isPermitMessage } from './tools/citrea/permitOperations.js';
+import { saveContact, lookupContact, listContacts } from './tools/citrea/contactOperations.js';
+import { batchTransfer, parseTransferCsv, formatBatchTransferReport, isBatchTransferReport } from './tools/citrea/batchOperations.js';
 import { getETHBalance } from './tools/citrea/getETHBalance.js';
 import { getErc20Balance } from './tools/citrea/getErc20Balance.js';
+import { getPortfolio, formatPortfolio } from './tools/citrea/getPortfolio.js';
+import { getNftBalance, getNftMetadata, setNftApprovalForAll } from './tools/citrea/nftOperations.js';
+import { getNftOwner, transferErc721, approveErc721, mintErc721 } from './tools/citrea/erc721Operations.js';
+import { transferErc1155 } from './tools/citrea/erc1155Operations.js';
 import { deployContract } from './tools/citrea/deployContract.js';
+import { deployErc20Token, deployNftCollection } from './tools/citrea/deployTemplates.js';
 import {
   swapExactTokensForTokens,
   swapTokensForExactTokens,
   exactInputSingle,
-  exactOutputSingle
+  exactOutputSingle,
+  exactInput,
+  exactOutput
 } from './tools/citrea/swapOperations.js';
-import { setCurrentPrivateKey } from './core/client.js';
+import { wrapCBTC, unwrapCBTC } from './tools/citrea/wrapOperations.js';
+import { quoteSwap, formatSwapQuote } from './tools/citrea/quoteSwap.js';
+import { resolveSwapBounds } from './tools/citrea/swapSlippage.js';
+import type { CitreaClient } from './core/client.js';
+import { resolveToken } from './core/tokens.js';
+import { TransactionLifecycleError } from './core/transactions.js';
+import { formatSimulation, isSimulationResult } from './core/simulation.js';
+import { formatTransactionResult, isTransactionResult } from './core/results.js';
+import { describeAction, rejectionMessage, type BeforeTransactionHook } from './approval.js';
+import type { PolicyEngine, SpendRequest } from './policy.js';
 
 // Types
-type CitreaAgentInterface = {
-  getCredentials: () => { privateKey: string };
+export type CitreaAgentInterface = {
+  getClient: () => CitreaClient;
+  /** Approval hook consulted before any state-changing tool call */
+  getBeforeTransactionHook?: () => BeforeTransactionHook | undefined;
+  /** Spending policy enforced before any state-changing tool call */
+  getPolicy?: () => PolicyEngine | undefined;
+};
+
+// Tool output must be text: simulations are summarized, transaction results and permits serialized compactly
+const toToolOutput = (result: unknown) => {
+  if (isSimulationResult(result)) return formatSimulation(result);
+  if (isTransactionResult(result)) return formatTransactionResult(result);
+  if (isPermitMessage(result)) return formatPermit(result);
+  if (isBatchTransferReport(result)) return formatBatchTransferReport(result);
+  return result;
 };
 
 /**
- * Wraps a function to inject the private key from the agent
+ * Wraps a function to inject the agent's own client context
  * @param fn - The function to wrap
- * @param agent - The CitreaAgent instance containing credentials
+ * @param agent - The CitreaAgent instance owning the client
  */
-const withPrivateKey = <T>(
-  fn: (params: T) => Promise<any>,
+const withClient = <T>(
+  fn: (client: CitreaClient, params: T) => Promise<any>,
   agent: CitreaAgentInterface,
 ) => {
-  return (params: T) => {
-    // Set the private key in the client before calling the function
-    const credentials = agent.getCredentials();
-    setCurrentPrivateKey(credentials.privateKey);
-    return fn(params);
-  };
+  return async (params: T) => toToolOutput(await fn(agent.getClient(), params));
 };
 
+/**
+ * Builds a state-changing tool. The spending policy is checked first; then,
+ * when the agent has an approval hook, the call is described to it and only
+ * runs if approved (or with the modified arguments). A rejection is returned
+ * to the LLM as the tool output.
+ */
+const writeTool = <S extends z.ZodObject<any>>(
+  agent: CitreaAgentInterface,
+  {
+    name,
+    description,
+    schema,
+    operation,
+    summarize,
+    spend,
+    prepare,
+  }: {
+    name: string;
+    description: string;
+    schema: S;
+    operation: (client: CitreaClient, params: any) => Promise<any>;
+    summarize: (params: z.infer<S>) => string;
+    /** What the call spends and where it sends it, for the spending policy; one entry per payment for batches */
+    spend: (params: z.infer<S>) => Omit<SpendRequest, 'tool'> | Omit<SpendRequest, 'tool'>[];
+    /**
+     * Fills in amounts that depend on chain state, such as a slippage-derived maximum input, before the policy and the hook see the call.
+     * It may add parameters the operation takes outside the schema, such as the bounds behind that maximum.
+     */
+    prepare?: (client: CitreaClient, params: z.infer<S>) => Promise<z.infer<S> & Record<string, unknown>>;
+  },
+) => tool(async (params: z.infer<S>) => {
+  const client = agent.getClient();
+  const hook = agent.getBeforeTransactionHook?.();
+  const policy = agent.getPolicy?.();
+  const simulate = client.mode === 'simulate';
+
+  // Simulations are checked against the policy but do not use up any limits
+  const authorize = (args: z.infer<S>) => {
+    const spends = [spend(args)].flat();
+    // An empty batch is still checked, so a disabled tool stays disabled
+    const requests = (spends.length ? spends : [{}]).map((request) => ({ tool: name, ...request }));
+    return policy?.authorizeAll(client, requests, !simulate);
+  };
+
+  const settle = async (args: z.infer<S>) => (prepare ? await prepare(client, args) : args);
+
+  let approvedParams = await settle(params);
+  let reservation = await authorize(approvedParams);
+
+  try {
+    // Nothing is signed in simulate mode, so there is nothing to approve
+    if (hook && !simulate) {
+      const action = await describeAction(client, name, approvedParams, operation, summarize(approvedParams));
+      const decision = await hook(action);
+
+      if (decision.decision === 'reject') {
+        await reservation?.release();
+        return rejectionMessage(action, decision.reason);
+      }
+
+      if (decision.decision === 'modify') {
+        approvedParams = await settle(schema.parse(decision.args));
+        await reservation?.release();
+        reservation = await authorize(approvedParams);
+      }
+    }
+
+    const result = await operation(client, approvedParams);
+    // Batch rows that failed paid nothing, so their spends no longer count
+    if (isBatchTransferReport(result)) {
+      for (const row of result.rows) {
+        if (row.status === 'failed') await reservation?.parts[row.index]?.release();
+      }
+    }
+    return toToolOutput(result);
+  } catch (error) {
+    // Keep the spend counted when the transaction may still land on chain
+    const mayHaveLanded = error instanceof TransactionLifecycleError && ['timeout', 'replaced', 'reorged'].includes(error.state);
+    if (!mayHaveLanded) {
+      await reservation?.release();
+    }
+    throw error;
+  }
+}, { name, description, schema });
+
 // Schema definitions
 const transferCBTCSchema = z.object({
-  toAddress: z.string().describe('The wallet address to transfer CBTC to'),
+  toAddress: z.string().describe('The wallet address or saved contact name to transfer CBTC to'),
   amount: z.string().describe('The amount of CBTC to transfer'),
 });
 
 const transferErc20Schema = z.object({
-  tokenAddress: z.string().describe('The ERC20 token contract address'),
-  toAddress: z.string().describe('The wallet address to transfer tokens to'),
+  tokenAddress: z.string().describe('The ERC20 token contract address or its symbol (e.g. "USDC")'),
+  toAddress: z.string().describe('The wallet address or saved contact name to transfer tokens to'),
   amount: z.string().describe('The amount of tokens to transfer'),
 });
 
 const burnErc20Schema = z.object({
-  tokenAddress: z.string().describe('The ERC20 token contract address'),
+  tokenAddress: z.string().describe('The ERC20 token contract address or its symbol (e.g. "USDC")'),
   amount: z.string().describe('The amount of tokens to burn'),
+  fromAddress: z.string().optional().describe("Burn another holder's tokens with burnFrom, using the allowance they gave the agent wallet"),
+  allowDeadAddress: z.boolean().optional().describe('Whether to send the tokens to the dead address if the token has no burn function (default true); set false when the user wants the total supply reduced'),
+});
+
+const mintErc20Schema = z.object({
+  tokenAddress: z.string().describe('The ERC20 token contract address or its symbol (e.g. "USDC")'),
+  toAddress: z.string().optional().describe('The wallet address or saved contact name to mint to; defaults to the agent wallet'),
+  amount: z.string().describe('The amount of tokens to mint'),
+});
+
+const approveErc20Schema = z.object({
+  tokenAddress: z.string().describe('The ERC20 token contract address or its symbol (e.g. "USDC")'),
+  spenderAddress: z.string().describe('The contract or wallet allowed to spend the tokens, e.g. the swap router'),
+  amount: z.string().optional().describe('The exact amount of tokens the spender may use'),
+  unlimited: z.boolean().optional().describe('Approve an unlimited amount instead; only when the user explicitly asks for an unlimited approval'),
+});
+
+const signPermitSchema = z.object({
+  tokenAddress: z.string().describe('The ERC20 token contract address or its symbol; the token must support EIP-2612 permit'),
+  spenderAddress: z.string().describe('The contract or wallet the permit allows to spend the tokens'),
+  amount: z.string().describe('The exact amount of tokens the spender may use'),
+  deadline: z.number().optional().describe('Optional deadline timestamp in seconds (default: current time + 20 minutes)'),
+});
+
+const batchTransferSchema = z.object({
+  rows: z.array(z.object({
+    recipient: z.string().describe('Wallet address or saved contact name'),
+    asset: z.string().describe('"CBTC" or an ERC20 token address or symbol'),
+    amount: z.string().describe('Amount in whole units'),
+  })).optional().describe('The payments to make'),
+  csv: z.string().optional().describe('The payments as CSV text with recipient,asset,amount columns, instead of rows'),
+});
+
+const revokeAllowanceSchema = z.object({
+  tokenAddress: z.string().describe('The ERC20 token contract address or its symbol (e.g. "USDC")'),
+  spenderAddress: z.string().describe('The spender whose allowance should be set to zero'),
+});
+
+const getAllowanceSchema = z.object({
+  tokenAddress: z.string().describe('The ERC20 token contract address or its symbol (e.g. "USDC")'),
+  spenderAddress: z.string().describe('The spender to check'),
+  ownerAddress: z.string().nullable().optional().describe('The token owner (optional, uses agent wallet if not provided)'),
 });
 
 const getCBTCBalanceSchema = z.object({
@@ -59,113 +220,501 @@ const getCBTCBalanceSchema = z.object({
 });
 
 const getErc20BalanceSchema = z.object({
-  tokenAddress: z.string().describe('The ERC20 token contract address'),
+  tokenAddress: z.string().describe('The ERC20 token contract address or its symbol (e.g. "USDC")'),
   walletAddress: z.string().nullable().optional().describe('The wallet address to check balance (optional, uses agent wallet if not provided)'),
 });
 
+const getPortfolioSchema = z.object({
+  walletAddress: z.string().nullable().optional().describe('The wallet address to list balances of (optional, uses agent wallet if not provided)'),
+  tokens: z.array(z.string()).optional().describe('Extra token addresses or symbols to include besides the known tokens'),
+  includeZero: z.boolean().optional().describe('Also list assets with a zero balance'),
+});
+
+const nftTokenSchema = z.object({
+  contractAddress: z.string().describe('The NFT (ERC721 or ERC1155) contract address'),
+  tokenId: z.string().describe('The token ID'),
+});
+
+const getNftBalanceSchema = z.object({
+  contractAddress: z.string().describe('The NFT (ERC721 or ERC1155) contract address'),
+  tokenId: z.string().nullable().optional().describe('The token ID; required for ERC1155 collections'),
+  walletAddress: z.string().nullable().optional().describe('The wallet address to check (optional, uses agent wallet if not provided)'),
+});
+
+const transferErc721Schema = z.object({
+  contractAddress: z.string().describe('The ERC721 contract address'),
+  toAddress: z.string().describe('The wallet address or saved contact name to send the NFT to'),
+  tokenId: z.string().describe('The token ID to send'),
+});
+
+const transferErc1155Schema = z.object({
+  contractAddress: z.string().describe('The ERC1155 contract address'),
+  toAddress: z.string().describe('The wallet address or saved contact name to send the tokens to'),
+  tokenIds: z.array(z.string()).min(1).describe('The token IDs to send; several IDs are sent in one batch transaction'),
+  amounts: z.array(z.string()).min(1).describe('How many of each token ID to send, in the same order as tokenIds'),
+});
+
+const approveErc721Schema = z.object({
+  contractAddress: z.string().describe('The ERC721 contract address'),
+  spenderAddress: z.string().describe('The address allowed to transfer the token'),
+  tokenId: z.string().describe('The token ID'),
+});
+
+const setNftApprovalForAllSchema = z.object({
+  contractAddress: z.string().describe('The NFT (ERC721 or ERC1155) contract address'),
+  operatorAddress: z.string().describe('The operator, e.g. a marketplace contract'),
+  approved: z.boolean().describe('true to let the operator move all of the wallet\'s NFTs in the collection, false to revoke'),
+});
+
+const resolveTokenSchema = z.object({
+  token: z.string().describe('A token symbol (e.g. "USDC") or contract address'),
+});
+
+const saveContactSchema = z.object({
+  name: z.string().describe('The contact name, e.g. "bob"'),
+  address: z.string().describe('The wallet address of the contact'),
+  note: z.string().optional().describe('An optional note about the contact'),
+  overwrite: z.boolean().optional().describe('Replace the address of an existing contact; only when the user explicitly asks to change it'),
+});
+
+const lookupContactSchema = z.object({
+  name: z.string().describe('The contact name to look up'),
+});
+
 const deployContractSchema = z.object({
   abi: z.array(z.record(z.any())).describe('The contract ABI as an array of objects'),
   bytecode: z.string().describe('The contract bytecode'),
   args: z.array(z.union([z.string(), z.number(), z.boolean()])).nullable().optional().describe('Constructor arguments (optional)'),
 });
 
+const deployErc20TokenSchema = z.object({
+  name: z.string().describe('The token name, e.g. "My Token"'),
+  symbol: z.string().describe('The token symbol, e.g. "MTK"'),
+  initialSupply: z.string().describe('Whole tokens minted to the agent wallet at deployment'),
+  decimals: z.number().int().min(0).max(36).optional().describe('Token decimals (default 18)'),
+  mintable: z.boolean().optional().describe('Let the agent wallet mint more tokens later (default false)'),
+  burnable: z.boolean().optional().describe('Let holders burn their tokens (default true)'),
+  cap: z.string().optional().describe('Maximum total supply in whole tokens (optional, uncapped by default)'),
+});
+
+const deployNftCollectionSchema = z.object({
+  name: z.string().describe('The collection name'),
+  symbol: z.string().describe('The collection symbol'),
+  baseUri: z.string().optional().describe('Prefix of every token URI, e.g. "ipfs://<cid>/" (optional)'),
+  maxSupply: z.string().optional().describe('Most tokens that can ever be minted (optional, unlimited by default)'),
+});
+
+const mintErc721Schema = z.object({
+  contractAddress: z.string().describe('The address of a collection deployed with deploy_nft_collection'),
+  toAddress: z.string().optional().describe('The wallet address or saved contact name to mint to; defaults to the agent wallet'),
+});
+
+const wrapCBTCSchema = z.object({
+  amount: z.string().describe('The amount of CBTC to wrap into WCBTC (e.g., "0.1")'),
+});
+
+const unwrapCBTCSchema = z.object({
+  amount: z.string().describe('The amount of WCBTC to unwrap into CBTC (e.g., "0.1")'),
+});
+
+const quoteSwapSchema = z.object({
+  path: z.array(z.string()).describe('Token addresses or symbols from the input token to the output token (e.g., ["0xTokenA", "USDC"])'),
+  amountIn: z.string().optional().describe('Exact amount to sell; the quote gives the output (e.g., "1.0"). Give this or amountOut.'),
+  amountOut: z.string().optional().describe('Exact amount to buy; the quote gives the required input (e.g., "1.0")'),
+  protocol: z.enum(['v2', 'v3']).optional().describe('Which pools to quote: "v2" (default) or "v3"'),
+  fees: z.array(z.number()).optional().describe('V3 only: the pool fee tier of each hop (500, 3000, or 10000), one fewer than the tokens in the path'),
+});
+
 const swapExactTokensForTokensSchema = z.object({
   amountIn: z.string().describe('The amount of tokens to swap (e.g., "1.0")'),
-  amountOutMin: z.string().describe('The minimum amount of tokens to receive (e.g., "0.99")'),
-  path: z.array(z.string()).describe('Array of token addresses for the swap path (e.g., ["0xTokenA", "0xTokenB"])'),
-  to: z.string().describe('The recipient address for the swapped tokens'),
+  amountOutMin: z.string().optional().describe('The minimum amount of tokens to receive (e.g., "0.99"). Omit it to derive the minimum from a live quote and slippageBps.'),
+  slippageBps: z.number().optional().describe('Slippage tolerance in basis points, used when no minimum is given (e.g., 50 for 0.5%; default from the agent config)'),
+  path: z.array(z.string()).describe('Array of token addresses or symbols for the swap path (e.g., ["0xTokenA", "USDC"]); "CBTC" at either end sells or buys native CBTC'),
+  to: z.string().describe('The recipient address or saved contact name for the swapped tokens'),
   deadline: z.number().optional().describe('Optional deadline timestamp (default: current time + 20 minutes)'),
 });
 
 const swapTokensForExactTokensSchema = z.object({
   amountOut: z.string().describe('The exact amount of tokens to receive (e.g., "1.0")'),
-  amountInMax: z.string().describe('The maximum amount of tokens to spend (e.g., "1.01")'),
-  path: z.array(z.string()).describe('Array of token addresses for the swap path (e.g., ["0xTokenA", "0xTokenB"])'),
-  to: z.string().describe('The recipient address for the swapped tokens'),
+  amountInMax: z.string().optional().describe('The maximum amount of tokens to spend (e.g., "1.01"). Omit it to derive the maximum from a live quote and slippageBps.'),
+  slippageBps: z.number().optional().describe('Slippage tolerance in basis points, used when no maximum is given (e.g., 50 for 0.5%; default from the agent config)'),
+  path: z.array(z.string()).describe('Array of token addresses or symbols for the swap path (e.g., ["0xTokenA", "USDC"]); "CBTC" at either end sells or buys native CBTC'),
+  to: z.string().describe('The recipient address or saved contact name for the swapped tokens'),
   deadline: z.number().optional().describe('Optional deadline timestamp (default: current time + 20 minutes)'),
 });
 
 const exactInputSingleSchema = z.object({
-  tokenIn: z.string().describe('The input token contract address'),
-  tokenOut: z.string().describe('The output token contract address'),
+  tokenIn: z.string().describe('The input token contract address or symbol, or "CBTC" to sell native CBTC'),
+  tokenOut: z.string().describe('The output token contract address or symbol, or "CBTC" to buy native CBTC'),
   fee: z.number().describe('The pool fee tier (500, 3000, or 10000)'),
-  recipient: z.string().describe('The recipient address for the swapped tokens'),
+  recipient: z.string().describe('The recipient address or saved contact name for the swapped tokens'),
   amountIn: z.string().describe('The amount of input tokens to swap (e.g., "1.0")'),
-  amountOutMinimum: z.string().describe('The minimum amount of output tokens to receive (e.g., "0.99")'),
+  amountOutMinimum: z.string().optional().describe('The minimum amount of output tokens to receive (e.g., "0.99"). Omit it to derive the minimum from a live quote and slippageBps.'),
+  slippageBps: z.number().optional().describe('Slippage tolerance in basis points, used when no minimum is given (e.g., 50 for 0.5%; default from the agent config)'),
   sqrtPriceLimitX96: z.string().optional().describe('Optional price limit for the swap'),
 });
 
 const exactOutputSingleSchema = z.object({
-  tokenIn: z.string().describe('The input token contract address'),
-  tokenOut: z.string().describe('The output token contract address'),
+  tokenIn: z.string().describe('The input token contract address or symbol, or "CBTC" to sell native CBTC'),
+  tokenOut: z.string().describe('The output token contract address or symbol, or "CBTC" to buy native CBTC'),
   fee: z.number().describe('The pool fee tier (500, 3000, or 10000)'),
-  recipient: z.string().describe('The recipient address for the swapped tokens'),
+  recipient: z.string().describe('The recipient address or saved contact name for the swapped tokens'),
   amountOut: z.string().describe('The exact amount of output tokens to receive (e.g., "1.0")'),
-  amountInMaximum: z.string().describe('The maximum amount of input tokens to spend (e.g., "1.01")'),
+  amountInMaximum: z.string().optional().describe('The maximum amount of input tokens to spend (e.g., "1.01"). Omit it to derive the maximum from a live quote and slippageBps.'),
+  slippageBps: z.number().optional().describe('Slippage tolerance in basis points, used when no maximum is given (e.g., 50 for 0.5%; default from the agent config)'),
   sqrtPriceLimitX96: z.string().optional().describe('Optional price limit for the swap'),
 });
 
+// How a swap summary states the minimum output when it comes from a quote
+const minimumOutput = (token: string, minimum: string | undefined, slippageBps: number | undefined) =>
+  minimum
+    ? `at least ${minimum} of ${token}`
+    : `${token} at the live quote less ${slippageBps === undefined ? 'the default slippage' : `${slippageBps} bps`}`;
+
+const exactInputSchema = z.object({
+  path: z.array(z.string()).describe('Token addresses or symbols from the input token to the output token (e.g., ["0xTokenA", "WCBTC", "USDC"]); "CBTC" at either end sells or buys native CBTC'),
+  fees: z.array(z.number()).describe('The pool fee tier of each hop (500, 3000, or 10000), one fewer than the tokens in the path'),
+  recipient: z.string().describe('The recipient address or saved contact name for the swapped tokens'),
+  amountIn: z.string().describe('The amount of input tokens to swap (e.g., "1.0")'),
+  amountOutMinimum: z.string().optional().describe('The minimum amount of output tokens to receive (e.g., "0.99"). Omit it to derive the minimum from a live quote and slippageBps.'),
+  slippageBps: z.number().optional().describe('Slippage tolerance in basis points, used when no minimum is given (e.g., 50 for 0.5%; default from the agent config)'),
+});
+
+const exactOutputSchema = z.object({
+  path: z.array(z.string()).describe('Token addresses or symbols from the input token to the output token (e.g., ["0xTokenA", "WCBTC", "USDC"]); "CBTC" at either end sells or buys native CBTC'),
+  fees: z.array(z.number()).describe('The pool fee tier of each hop (500, 3000, or 10000), one fewer than the tokens in the path'),
+  recipient: z.string().describe('The recipient address or saved contact name for the swapped tokens'),
+  amountOut: z.string().describe('The exact amount of output tokens to receive (e.g., "1.0")'),
+  amountInMaximum: z.string().optional().describe('The maximum amount of input tokens to spend (e.g., "1.01"). Omit it to derive the maximum from a live quote and slippageBps.'),
+  slippageBps: z.number().optional().describe('Slippage tolerance in basis points, used when no maximum is given (e.g., 50 for 0.5%; default from the agent config)'),
+});
+
 /**
- * Creates and returns all tools with injected agent credentials
+ * Creates and returns all tools bound to the agent's client context
  */
 export const createTools = (agent: CitreaAgentInterface) => [
-  tool(withPrivateKey(transferETH, agent), {
+  writeTool(agent, {
     name: 'transfer_cbtc',
     description: 'Transfer CBTC (native CBTC token) to another wallet',
     schema: transferCBTCSchema,
+    operation: transferETH,
+    summarize: (params) => `Transfer ${params.amount} CBTC to ${params.toAddress}`,
+    spend: (params) => ({ asset: 'CBTC', amount: params.amount, recipient: params.toAddress }),
   }),
 
-  tool(withPrivateKey(transferErc20, agent), {
+  writeTool(agent, {
     name: 'transfer_erc20',
     description: 'Transfer ERC20 tokens to another wallet',
     schema: transferErc20Schema,
+    operation: transferErc20,
+    summarize: (params) => `Transfer ${params.amount} of token ${params.tokenAddress} to ${params.toAddress}`,
+    spend: (params) => ({ asset: params.tokenAddress, amount: params.amount, recipient: params.toAddress }),
   }),
 
-  tool(withPrivateKey(burnErc20, agent), {
+  writeTool(agent, {
     name: 'burn_erc20',
-    description: 'Burn ERC20 tokens (send to burn address)',
+    description: "Burn ERC20 tokens with the token's burn function, which reduces its total supply. Tokens without one are sent to the dead address instead, unless allowDeadAddress is false; the result says which happened.",
     schema: burnErc20Schema,
+    operation: burnErc20,
+    summarize: (params) => `Burn ${params.amount} of token ${params.tokenAddress}${params.fromAddress ? ` held by ${params.fromAddress}` : ''}`,
+    spend: (params) => ({ asset: params.tokenAddress, amount: params.amount }),
+  }),
+
+  writeTool(agent, {
+    name: 'mint_erc20',
+    description: 'Mint new ERC20 tokens on a token where the agent wallet is the owner or holds MINTER_ROLE',
+    schema: mintErc20Schema,
+    operation: mintErc20,
+    summarize: (params) => `Mint ${params.amount} of token ${params.tokenAddress} to ${params.toAddress ?? 'the agent wallet'}`,
+    spend: (params) => (params.toAddress ? { recipient: params.toAddress } : {}),
+  }),
+
+  writeTool(agent, {
+    name: 'batch_transfer',
+    description: 'Send CBTC and/or ERC20 tokens to many recipients at once, from a list of rows or CSV text. All rows are validated and balances checked before anything is sent; the result lists failed rows as CSV to retry.',
+    schema: batchTransferSchema,
+    operation: batchTransfer,
+    summarize: (params) => {
+      const rows = params.rows ?? parseTransferCsv(params.csv ?? '');
+      const listed = rows.slice(0, 20).map((row) => `${row.amount} ${row.asset} to ${row.recipient}`);
+      const more = rows.length > listed.length ? ` and ${rows.length - listed.length} more` : '';
+      return `Batch transfer of ${rows.length} payment(s): ${listed.join(', ')}${more}`;
+    },
+    spend: (params) => (params.rows ?? parseTransferCsv(params.csv ?? ''))
+      .map((row) => ({ asset: row.asset, amount: row.amount, recipient: row.recipient })),
+  }),
+
+  writeTool(agent, {
+    name: 'approve_erc20',
+    description: 'Approve a spender (such as the swap router) to spend an exact amount of ERC20 tokens from the agent wallet',
+    schema: approveErc20Schema,
+    operation: approveErc20,
+    summarize: (params) => `Approve ${params.spenderAddress} to spend ${params.unlimited ? 'an UNLIMITED amount' : params.amount} of token ${params.tokenAddress}`,
+    // The allowance counts as spent to the spender, since it can pull it at any time
+    spend: (params) => ({ asset: params.tokenAddress, amount: params.amount, unlimited: params.unlimited, recipient: params.spenderAddress }),
+  }),
+
+  writeTool(agent, {
+    name: 'sign_permit',
+    description: 'Sign an EIP-2612 permit off-chain (no transaction, no gas) that lets a spender use an exact amount of tokens; returns the signature for the spender to submit',
+    schema: signPermitSchema,
+    operation: signPermit,
+    summarize: (params) => `Sign a permit allowing ${params.spenderAddress} to spend ${params.amount} of token ${params.tokenAddress}`,
+    spend: (params) => ({ asset: params.tokenAddress, amount: params.amount, recipient: params.spenderAddress }),
   }),
 
-  tool(withPrivateKey(getETHBalance, agent), {
+  writeTool(agent, {
+    name: 'revoke_erc20_allowance',
+    description: 'Revoke an ERC20 allowance by setting it to zero',
+    schema: revokeAllowanceSchema,
+    operation: revokeAllowance,
+    summarize: (params) => `Revoke the allowance of ${params.spenderAddress} on token ${params.tokenAddress}`,
+    spend: () => ({}),
+  }),
+
+  tool(withClient(getAllowance, agent), {
+    name: 'get_erc20_allowance',
+    description: 'Get how many ERC20 tokens a spender may still spend on behalf of a wallet',
+    schema: getAllowanceSchema,
+  }),
+
+  tool(withClient(getETHBalance, agent), {
     name: 'get_cbtc_balance',
     description: 'Get CBTC balance of a wallet',
     schema: getCBTCBalanceSchema,
   }),
 
-  tool(withPrivateKey(getErc20Balance, agent), {
+  tool(withClient(getErc20Balance, agent), {
     name: 'get_erc20_balance',
     description: 'Get ERC20 token balance of a wallet',
     schema: getErc20BalanceSchema,
   }),
 
-  tool(withPrivateKey(deployContract, agent), {
+  tool(withClient(async (client, params: z.infer<typeof getPortfolioSchema>) => formatPortfolio(await getPortfolio(client, params)), agent), {
+    name: 'get_portfolio',
+    description: 'Get all balances of a wallet in one call: CBTC plus every known token, as token, symbol, raw and formatted amounts. Zero balances are left out unless includeZero is set.',
+    schema: getPortfolioSchema,
+  }),
+
+  tool(withClient(getNftOwner, agent), {
+    name: 'get_nft_owner',
+    description: 'Get the owner of an ERC721 token',
+    schema: nftTokenSchema,
+  }),
+
+  tool(withClient(getNftBalance, agent), {
+    name: 'get_nft_balance',
+    description: 'Get how many NFTs of an ERC721 collection, or of one ERC1155 token ID, a wallet holds',
+    schema: getNftBalanceSchema,
+  }),
+
+  tool(withClient(async (client, params: z.infer<typeof nftTokenSchema>) => JSON.stringify(await getNftMetadata(client, params)), agent), {
+    name: 'get_nft_metadata',
+    description: 'Get the metadata URI of an ERC721 or ERC1155 token and the metadata it points to (name, description, image, attributes)',
+    schema: nftTokenSchema,
+  }),
+
+  writeTool(agent, {
+    name: 'transfer_erc721',
+    description: 'Send an ERC721 NFT from the agent wallet with safeTransferFrom',
+    schema: transferErc721Schema,
+    operation: transferErc721,
+    summarize: (params) => `Send NFT #${params.tokenId} of ${params.contractAddress} to ${params.toAddress}`,
+    spend: (params) => ({ recipient: params.toAddress }),
+  }),
+
+  writeTool(agent, {
+    name: 'transfer_erc1155',
+    description: 'Send ERC1155 tokens from the agent wallet; several token IDs go in one safeBatchTransferFrom transaction',
+    schema: transferErc1155Schema,
+    operation: transferErc1155,
+    summarize: (params) => {
+      const items = params.tokenIds.map((tokenId, i) => `${params.amounts[i] ?? '?'} of #${tokenId}`);
+      return `Send ${items.join(', ')} of ${params.contractAddress} to ${params.toAddress}`;
+    },
+    spend: (params) => ({ recipient: params.toAddress }),
+  }),
+
+  writeTool(agent, {
+    name: 'approve_erc721',
+    description: 'Approve an address to transfer one ERC721 token of the agent wallet',
+    schema: approveErc721Schema,
+    operation: approveErc721,
+    summarize: (params) => `Approve ${params.spenderAddress} to transfer NFT #${params.tokenId} of ${params.contractAddress}`,
+    spend: (params) => ({ recipient: params.spenderAddress }),
+  }),
+
+  writeTool(agent, {
+    name: 'set_nft_approval_for_all',
+    description: 'Approve or revoke an operator for ALL of the agent wallet\'s NFTs in an ERC721 or ERC1155 collection; only when the user explicitly asks for it',
+    schema: setNftApprovalForAllSchema,
+    operation: setNftApprovalForAll,
+    summarize: (params) => `${params.approved ? 'Approve' : 'Revoke'} ${params.operatorAddress} as operator for ALL NFTs of ${params.contractAddress}`,
+    // Revoking is always allowed, even for an operator the policy now denies
+    spend: (params) => (params.approved ? { recipient: params.operatorAddress } : {}),
+  }),
+
+  tool(withClient(async (client, { token }: z.infer<typeof resolveTokenSchema>) => JSON.stringify(await resolveToken(client, token)), agent), {
+    name: 'resolve_token',
+    description: 'Look up a token by symbol or address in the token registry and return its address, symbol and decimals. Refuses ambiguous symbols.',
+    schema: resolveTokenSchema,
+  }),
+
+  writeTool(agent, {
+    name: 'save_contact',
+    description: 'Save a named wallet address to the address book, so it can be used as a recipient by name in later conversations',
+    schema: saveContactSchema,
+    operation: async (client, params) => JSON.stringify(await saveContact(client, params)),
+    summarize: (params) => `${params.overwrite ? 'Save or overwrite' : 'Save'} contact ${params.name} as ${params.address}`,
+    spend: () => ({}),
+  }),
+
+  tool(withClient(async (client, params: z.infer<typeof lookupContactSchema>) => JSON.stringify(await lookupContact(client, params)), agent), {
+    name: 'lookup_contact',
+    description: 'Look up the wallet address saved for a contact name',
+    schema: lookupContactSchema,
+  }),
+
+  tool(withClient(async (client) => JSON.stringify(await listContacts(client)), agent), {
+    name: 'list_contacts',
+    description: 'List all contacts in the address book with their wallet addresses',
+    schema: z.object({}),
+  }),
+
+  writeTool(agent, {
     name: 'deploy_contract',
     description: 'Deploy a smart contract to Citrea network',
     schema: deployContractSchema,
+    operation: deployContract,
+    summarize: (params) => `Deploy a contract (${(params.bytecode.length - 2) / 2} bytes of bytecode) with constructor args [${(params.args ?? []).join(', ')}]`,
+    spend: () => ({}),
+  }),
+
+  writeTool(agent, {
+    name: 'deploy_erc20_token',
+    description: 'Deploy a new ERC20 token from the bundled template; the initial supply goes to the agent wallet, which owns the token. The token is registered under its symbol for later calls.',
+    schema: deployErc20TokenSchema,
+    operation: deployErc20Token,
+    summarize: (params) => {
+      const features = [params.mintable && 'mintable', params.burnable !== false && 'burnable', params.cap && `cap ${params.cap}`].filter(Boolean);
+      return `Deploy ERC20 token ${params.name} (${params.symbol}) with ${params.initialSupply} tokens, ${params.decimals ?? 18} decimals${features.length ? `, ${features.join(', ')}` : ''}`;
+    },
+    spend: () => ({}),
   }),
 
-  tool(withPrivateKey(swapExactTokensForTokens, agent), {
+  writeTool(agent, {
+    name: 'deploy_nft_collection',
+    description: 'Deploy a new ERC721 NFT collection from the bundled template, owned by the agent wallet; mint its tokens with mint_erc721',
+    schema: deployNftCollectionSchema,
+    operation: deployNftCollection,
+    summarize: (params) => `Deploy NFT collection ${params.name} (${params.symbol})${params.maxSupply ? ` with max supply ${params.maxSupply}` : ''}`,
+    spend: () => ({}),
+  }),
+
+  writeTool(agent, {
+    name: 'mint_erc721',
+    description: 'Mint the next token of an NFT collection deployed with deploy_nft_collection; token IDs count up from 1, and minting stops at the max supply',
+    schema: mintErc721Schema,
+    operation: mintErc721,
+    summarize: (params) => `Mint the next NFT of ${params.contractAddress} to ${params.toAddress ?? 'the agent wallet'}`,
+    spend: (params) => (params.toAddress ? { recipient: params.toAddress } : {}),
+  }),
+
+  writeTool(agent, {
+    name: 'wrap_cbtc',
+    description: 'Wrap native CBTC into WCBTC, the ERC20 form of CBTC that swap pools trade',
+    schema: wrapCBTCSchema,
+    operation: wrapCBTC,
+    summarize: (params) => `Wrap ${params.amount} CBTC into WCBTC`,
+    // CBTC and WCBTC share the CBTC limits, so converting between them spends nothing
+    spend: () => ({}),
+  }),
+
+  writeTool(agent, {
+    name: 'unwrap_cbtc',
+    description: 'Unwrap WCBTC back into native CBTC',
+    schema: unwrapCBTCSchema,
+    operation: unwrapCBTC,
+    summarize: (params) => `Unwrap ${params.amount} WCBTC into CBTC`,
+    // CBTC and WCBTC share the CBTC limits, so converting between them spends nothing
+    spend: () => ({}),
+  }),
+
+  tool(withClient(async (client, params: z.infer<typeof quoteSwapSchema>) => formatSwapQuote(await quoteSwap(client, params)), agent), {
+    name: 'quote_swap',
+    description: 'Quote a V2 or V3 swap from live pool prices without sending anything: the expected output of an exact input, or the input needed for an exact output, with the fee tiers, execution price and gas estimate. Use it to choose the minimum or maximum amount of a swap.',
+    schema: quoteSwapSchema,
+  }),
+
+  writeTool(agent, {
     name: 'swap_exact_tokens_for_tokens',
-    description: 'Swap exact amount of tokens for tokens (V2 style) - specify input amount and minimum output',
+    description: 'Swap exact amount of tokens for tokens (V2 style) - specify input amount and either a minimum output or a slippage tolerance',
     schema: swapExactTokensForTokensSchema,
+    operation: swapExactTokensForTokens,
+    summarize: (params) => `Swap ${params.amountIn} of ${params.path[0]} for ${minimumOutput(params.path[params.path.length - 1], params.amountOutMin, params.slippageBps)}, sent to ${params.to}`,
+    spend: (params) => ({ asset: params.path[0], amount: params.amountIn, recipient: params.to, swap: true }),
   }),
 
-  tool(withPrivateKey(swapTokensForExactTokens, agent), {
+  writeTool(agent, {
     name: 'swap_tokens_for_exact_tokens',
-    description: 'Swap tokens for exact amount of tokens (V2 style) - specify exact output and maximum input',
+    description: 'Swap tokens for exact amount of tokens (V2 style) - specify exact output and either a maximum input or a slippage tolerance',
     schema: swapTokensForExactTokensSchema,
+    operation: swapTokensForExactTokens,
+    summarize: (params) => `Swap at most ${params.amountInMax} of ${params.path[0]} for exactly ${params.amountOut} of ${params.path[params.path.length - 1]}, sent to ${params.to}`,
+    spend: (params) => ({ asset: params.path[0], amount: params.amountInMax!, recipient: params.to, swap: true }),
+    // The policy counts the maximum input, so a slippage-derived one is worked out first; its quote still goes into the result
+    prepare: async (client, params) => {
+      if (params.amountInMax) return params;
+      const bounds = await resolveSwapBounds(client, { type: 'exactOutput', protocol: 'v2', path: params.path, amount: params.amountOut, slippageBps: params.slippageBps });
+      return { ...params, amountInMax: bounds.limit, slippageBps: undefined, bounds };
+    },
   }),
 
-  tool(withPrivateKey(exactInputSingle, agent), {
+  writeTool(agent, {
     name: 'exact_input_single',
-    description: 'V3 exact input single swap - swap exact amount of one token for another through a single pool',
+    description: 'V3 exact input single swap - swap exact amount of one token for another through a single pool, with either a minimum output or a slippage tolerance',
     schema: exactInputSingleSchema,
+    operation: exactInputSingle,
+    summarize: (params) => `Swap ${params.amountIn} of ${params.tokenIn} for ${minimumOutput(params.tokenOut, params.amountOutMinimum, params.slippageBps)} (fee tier ${params.fee}), sent to ${params.recipient}`,
+    spend: (params) => ({ asset: params.tokenIn, amount: params.amountIn, recipient: params.recipient, swap: true }),
   }),
 
-  tool(withPrivateKey(exactOutputSingle, agent), {
+  writeTool(agent, {
     name: 'exact_output_single',
-    description: 'V3 exact output single swap - swap tokens to receive exact amount through a single pool',
+    description: 'V3 exact output single swap - swap tokens to receive exact amount through a single pool, with either a maximum input or a slippage tolerance',
     schema: exactOutputSingleSchema,
+    operation: exactOutputSingle,
+    summarize: (params) => `Swap at most ${params.amountInMaximum} of ${params.tokenIn} for exactly ${params.amountOut} of ${params.tokenOut} (fee tier ${params.fee}), sent to ${params.recipient}`,
+    spend: (params) => ({ asset: params.tokenIn, amount: params.amountInMaximum!, recipient: params.recipient, swap: true }),
+    // The policy counts the maximum input, so a slippage-derived one is worked out first; its quote still goes into the result
+    prepare: async (client, params) => {
+      if (params.amountInMaximum) return params;
+      const bounds = await resolveSwapBounds(client, { type: 'exactOutput', protocol: 'v3', path: [params.tokenIn, params.tokenOut], fees: [params.fee], amount: params.amountOut, slippageBps: params.slippageBps });
+      return { ...params, amountInMaximum: bounds.limit, slippageBps: undefined, bounds };
+    },
+  }),
+
+  writeTool(agent, {
+    name: 'exact_input',
+    description: 'V3 exact input multi-hop swap - swap exact amount of one token for another through several pools, e.g. TOKEN -> WCBTC -> USDC, with either a minimum output or a slippage tolerance',
+    schema: exactInputSchema,
+    operation: exactInput,
+    summarize: (params) => `Swap ${params.amountIn} of ${params.path[0]} for ${minimumOutput(params.path[params.path.length - 1], params.amountOutMinimum, params.slippageBps)} via ${params.path.join(' -> ')} (fee tiers ${params.fees.join(', ')}), sent to ${params.recipient}`,
+    spend: (params) => ({ asset: params.path[0], amount: params.amountIn, recipient: params.recipient, swap: true }),
+  }),
+
+  writeTool(agent, {
+    name: 'exact_output',
+    description: 'V3 exact output multi-hop swap - swap tokens through several pools to receive an exact amount, with either a maximum input or a slippage tolerance',
+    schema: exactOutputSchema,
+    operation: exactOutput,
+    summarize: (params) => `Swap at most ${params.amountInMaximum} of ${params.path[0]} for exactly ${params.amountOut} of ${params.path[params.path.length - 1]} via ${params.path.join(' -> ')} (fee tiers ${params.fees.join(', ')}), sent to ${params.recipient}`,
+    spend: (params) => ({ asset: params.path[0], amount: params.amountInMaximum!, recipient: params.recipient, swap: true }),
+    // The policy counts the maximum input, so a slippage-derived one is worked out first; its quote still goes into the result
+    prepare: async (client, params) => {
+      if (params.amountInMaximum) return params;
+      const bounds = await resolveSwapBounds(client, { type: 'exactOutput', protocol: 'v3', path: params.path, fees: params.fees, amount: params.amountOut, slippageBps: params.slippageBps });
+      return { ...params, amountInMaximum: bounds.limit, slippageBps: undefined, bounds };
+    },
   }),
 ];
@@ -1,13 +1,23 @@
 import { ethers, parseEther } from "ethers";
-import { getSigner, getProvider, getAgentAddress } from "../../core/client";
+import { getSigner, getProvider, verifyNetwork, getAgentAddress, type CitreaClient } from "../../core/client";
+import { sendTransaction, waitForTransaction, TransactionLifecycleError } from "../../core/transactions";
+import { isDryRun, simulateTransaction, type SimulationResult } from "../../core/simulation";
+import { buildTransactionResult, formatRecipient, type TransactionResult } from "../../core/results";
+import { resolveRecipient } from "../../core/contacts";
 
-export const transferETH = async ({
-  toAddress,
-  amount
-}: {
-  toAddress: string;
-  amount: string | number;
-}): Promise<string> => {
+export const transferETH = async (
+  client: CitreaClient,
+  {
+    toAddress,
+    amount,
+    dryRun
+  }: {
+    toAddress: string;
+    amount: string | number;
+    /** Simulate instead of broadcasting; defaults to the client's mode */
+    dryRun?: boolean;
+  }
+): Promise<TransactionResult | SimulationResult> => {
   try {
     // Validate required parameters
     if (!toAddress) {
@@ -18,33 +28,36 @@ export const transferETH = async ({
       throw new Error("Amount must be greater than 0");
     }
 
-    // Validate recipient address
-    if (!ethers.isAddress(toAddress)) {
-      throw new Error("Invalid recipient address format");
-    }
+    // A saved contact name or an address
+    const recipient = await resolveRecipient(client, toAddress);
+
+    // Refuse to sign unless the RPC serves the configured network
+    await verifyNetwork(client);
 
-    const signer = getSigner();
-    const provider = getProvider();
+    const signer = getSigner(client);
+    const provider = getProvider(client);
     
     if (!signer) {
       throw new Error("Signer not initialized");
     }
 
+    const signerAddress = await signer.getAddress();
+
     if (!provider) {
       throw new Error("Provider not initialized");
     }
 
     // Get current balance
-    const currentBalance = await provider.getBalance(signer.address);
+    const currentBalance = await provider.getBalance(signerAddress);
     
     // Convert amount to wei
     const amountInWei = parseEther(amount.toString());
     
     // Estimate gas for the transaction
     const gasEstimate = await provider.estimateGas({
-      to: toAddress,
+      to: recipient.address,
       value: amountInWei,
-      from: signer.address
+      from: signerAddress
     });
     
     // Get current gas price
@@ -66,32 +79,34 @@ export const transferETH = async ({
       );
     }
 
-    console.log(`Transferring ${amount} CBTC to ${toAddress}...`);
-    
-    // Execute transfer
-    const tx = await signer.sendTransaction({
-      to: toAddress,
+    const txRequest = {
+      to: recipient.address,
       value: amountInWei,
       gasLimit: gasEstimate
-    });
+    };
+
+    if (isDryRun(client, dryRun)) {
+      return await simulateTransaction(client, txRequest, { recipient });
+    }
+
+    console.log(`Transferring ${amount} CBTC to ${formatRecipient(recipient)}...`);
+    
+    // Execute transfer
+    const tx = await sendTransaction(client, txRequest);
     
     console.log(`CBTC transfer transaction sent: ${tx.hash}`);
     
     // Wait for confirmation
-    const receipt = await tx.wait();
+    const receipt = await waitForTransaction(client, tx);
     
-    if (!receipt) {
-      throw new Error("Transaction receipt not available");
-    }
-    
-    if (receipt.status !== 1) {
-      throw new Error("Transaction failed");
-    }
-    
-    console.log(`✅ CBTC transfer completed successfully. Transaction hash: ${tx.hash}`);
-    return tx.hash;
+    console.log(`✅ CBTC transfer completed successfully. Transaction hash: ${receipt.hash}`);
+    return await buildTransactionResult(client, receipt, { recipient });
     
   } catch (error: any) {
+    if (error instanceof TransactionLifecycleError) {
+      throw error;
+    }
+
     console.error("CBTC transfer failed:", error.message);
     
     // Handle specific error types
@@ -10,6 +10,109 @@ export const erc20Abi = [
   "function transferFrom(address from, address to, uint256 amount) returns (bool)",
 ];
 
+// EIP-2612 permit extension, plus the EIP-5267 domain getter some tokens expose
+export const erc20PermitAbi = [
+  "function name() view returns (string)",
+  "function version() view returns (string)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function nonces(address owner) view returns (uint256)",
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+  "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+];
+
+// ERC20Burnable extension
+export const erc20BurnableAbi = [
+  "function burn(uint256 amount)",
+  "function burnFrom(address account, uint256 amount)",
+  // Raised by the kit's CitreaERC20 template when deployed with burning disabled
+  "error BurningDisabled()",
+];
+
+// Mint entry point plus the AccessControl and Ownable getters used to check who may call it
+export const erc20MintableAbi = [
+  "function mint(address to, uint256 amount)",
+  "function MINTER_ROLE() view returns (bytes32)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function owner() view returns (address)",
+  // The kit's CitreaERC20 template reports whether it was deployed mintable
+  "function mintable() view returns (bool)",
+];
+
+// ERC721 with the metadata extension and ERC165 detection
+export const erc721Abi = [
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function tokenURI(uint256 tokenId) view returns (string)",
+  "function balanceOf(address owner) view returns (uint256)",
+  "function ownerOf(uint256 tokenId) view returns (address)",
+  "function getApproved(uint256 tokenId) view returns (address)",
+  "function isApprovedForAll(address owner, address operator) view returns (bool)",
+  "function approve(address to, uint256 tokenId)",
+  "function setApprovalForAll(address operator, bool approved)",
+  "function safeTransferFrom(address from, address to, uint256 tokenId)",
+];
+
+// Minting on the ERC721 template deployed by deploy_nft_collection
+export const erc721MintableAbi = [
+  "function mint(address to) returns (uint256)",
+  "function owner() view returns (address)",
+  "function symbol() view returns (string)",
+  "function maxSupply() view returns (uint256)",
+  "function totalSupply() view returns (uint256)",
+];
+
+// ERC1155 with the metadata URI extension and ERC165 detection
+export const erc1155Abi = [
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "function uri(uint256 id) view returns (string)",
+  "function balanceOf(address account, uint256 id) view returns (uint256)",
+  "function balanceOfBatch(address[] accounts, uint256[] ids) view returns (uint256[])",
+  "function isApprovedForAll(address account, address operator) view returns (bool)",
+  "function setApprovalForAll(address operator, bool approved)",
+  "function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)",
+  "function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)",
+];
+
+// WETH9-style wrapper of the native coin (WCBTC)
+export const wrappedNativeAbi = [
+  "function deposit() payable",
+  "function withdraw(uint256 amount)",
+  "function balanceOf(address owner) view returns (uint256)",
+];
+
+// Self-permit and multicall entry points of SwapRouter02-style routers
+export const routerPermitAbi = [
+  "function selfPermit(address token, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) payable",
+  "function multicall(bytes[] data) payable returns (bytes[] results)",
+];
+
+// SwapRouter02 multicall that reverts after the deadline; its V2 swaps have no deadline of their own
+export const routerDeadlineAbi = [
+  "function multicall(uint256 deadline, bytes[] data) payable returns (bytes[] results)",
+];
+
+// Multicall3 batching; aggregate3Value forwards a CBTC value with each call
+export const multicall3Abi = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+  "function aggregate3Value((address target, bool allowFailure, uint256 value, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+  "function getEthBalance(address addr) view returns (uint256 balance)",
+];
+
+// V2 router quotes: amounts along a path after each pool's fee
+export const v2RouterQuoteAbi = [
+  "function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)",
+  "function getAmountsIn(uint256 amountOut, address[] path) view returns (uint256[] amounts)",
+];
+
+// Uniswap QuoterV2-style quoter; quotes revert internally, so they are read with staticCall
+export const quoterV2Abi = [
+  "function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)",
+  "function quoteExactOutputSingle((address tokenIn, address tokenOut, uint256 amount, uint24 fee, uint160 sqrtPriceLimitX96) params) returns (uint256 amountIn, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)",
+  "function quoteExactInput(bytes path, uint256 amountIn) returns (uint256 amountOut, uint160[] sqrtPriceX96AfterList, uint32[] initializedTicksCrossedList, uint256 gasEstimate)",
+  "function quoteExactOutput(bytes path, uint256 amountOut) returns (uint256 amountIn, uint160[] sqrtPriceX96AfterList, uint32[] initializedTicksCrossedList, uint256 gasEstimate)",
+];
+
 // Universal Router ABI for swap operations
 export const universalRouterAbi = [
   {
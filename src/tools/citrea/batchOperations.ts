@@ -0,0 +1,462 @@
+import { ethers, Contract, Interface, parseUnits, type TransactionRequest, type TransactionResponse } from "ethers";
+import { getSigner, getProvider, getAgentAddress, verifyNetwork, type CitreaClient } from "../../core/client";
+import { sendTransaction, waitForTransaction, TransactionLifecycleError } from "../../core/transactions";
+import { isDryRun } from "../../core/simulation";
+import { resolveToken, type TokenInfo } from "../../core/tokens";
+import { resolveRecipient } from "../../core/contacts";
+import { erc20Abi, multicall3Abi } from "./abis";
+
+// CBTC transfers packed into one Multicall3 transaction
+const MULTICALL_CHUNK_SIZE = 100;
+
+// Gas assumed for a transaction the node cannot estimate, e.g. one that would
+// revert; more than any plain transfer needs
+const UNESTIMATED_GAS_LIMIT = 100_000n;
+
+const multicall3 = new Interface(multicall3Abi);
+
+export interface BatchTransferRow {
+  /** Wallet address or saved contact name */
+  recipient: string;
+  /** "CBTC" or an ERC20 token address or symbol */
+  asset: string;
+  /** Whole units, e.g. "1.5" */
+  amount: string;
+}
+
+/**
+ * confirmed: mined and successful. failed: not sent, or reverted; safe to
+ * retry. pending: sent but not confirmed (timed out, replaced or reorged), so
+ * it may still land and must not simply be re-sent. simulated: dry run only.
+ */
+export type BatchRowStatus = "confirmed" | "failed" | "pending" | "simulated";
+
+export interface BatchRowResult extends BatchTransferRow {
+  /** Position of the row in the input, from 0 */
+  index: number;
+  status: BatchRowStatus;
+  /** The resolved recipient address */
+  to: string;
+  /** Sent inside a Multicall3 batch or as a transfer of its own */
+  via?: "multicall" | "transfer";
+  hash?: string;
+  error?: string;
+}
+
+export interface BatchTransferReport {
+  batch: true;
+  rows: BatchRowResult[];
+  /** Total per asset across all rows, in whole units */
+  totals: Record<string, string>;
+}
+
+export const isBatchTransferReport = (value: unknown): value is BatchTransferReport =>
+  typeof value === "object" && value !== null && (value as BatchTransferReport).batch === true;
+
+interface PlannedRow {
+  index: number;
+  row: BatchTransferRow;
+  to: string;
+  /** null for CBTC */
+  token: TokenInfo | null;
+  value: bigint;
+}
+
+/**
+ * Parses "recipient,asset,amount" rows. A header line is optional; when
+ * present it may list the columns in any order (`to`/`address` and `token`
+ * are accepted as aliases). Blank lines and lines starting with # are skipped.
+ */
+export const parseTransferCsv = (csv: string): BatchTransferRow[] => {
+  const lines = csv
+    .split(/\r?\n/)
+    .map((line, number) => ({ number: number + 1, cells: line.split(",").map((cell) => cell.trim().replace(/^"(.*)"$/, "$1")) }))
+    .filter(({ cells }) => cells.join("") !== "" && !cells[0].startsWith("#"));
+
+  let columns = { recipient: 0, asset: 1, amount: 2 };
+  const header = lines[0]?.cells.map((cell) => cell.toLowerCase());
+  if (header && header.some((cell) => ["recipient", "to", "address"].includes(cell))) {
+    const find = (...names: string[]) => header.findIndex((cell) => names.includes(cell));
+    columns = { recipient: find("recipient", "to", "address"), asset: find("asset", "token"), amount: find("amount") };
+    if (Object.values(columns).includes(-1)) {
+      throw new Error("CSV header must name the recipient, asset and amount columns");
+    }
+    lines.shift();
+  }
+
+  return lines.map(({ number, cells }) => {
+    if (cells.length !== 3) {
+      throw new Error(`CSV line ${number}: expected recipient,asset,amount`);
+    }
+    return { recipient: cells[columns.recipient], asset: cells[columns.asset], amount: cells[columns.amount] };
+  });
+};
+
+/**
+ * Pays out many (recipient, asset, amount) rows. Every row is validated and
+ * the totals, plus the estimated gas, are checked against the wallet's
+ * balances before anything is sent. CBTC rows go out through Multicall3 when the network has it, several
+ * at a time and all-or-nothing per transaction; ERC20 rows, and CBTC rows
+ * without Multicall3, are sent one by one through the nonce-managed queue.
+ * The rows of a Multicall3 transaction that reverts are sent again one by
+ * one, so the report names the row that failed.
+ * ERC20 transfers never go through Multicall3: it would need an allowance
+ * that anyone could spend by calling it.
+ *
+ * Failures are reported per row rather than thrown. Pass the report back as
+ * `resume` with the same rows to send only what did not go through.
+ */
+export const batchTransfer = async (
+  client: CitreaClient,
+  {
+    rows,
+    csv,
+    resume,
+    useMulticall = true,
+    dryRun
+  }: {
+    rows?: BatchTransferRow[];
+    /** CSV text instead of `rows` */
+    csv?: string;
+    /** Report of an earlier run over the same rows; confirmed rows are not sent again */
+    resume?: BatchTransferReport;
+    /** Send CBTC rows through Multicall3 when it is deployed (default: true) */
+    useMulticall?: boolean;
+    /** Validate and check balances only; defaults to the client's mode */
+    dryRun?: boolean;
+  }
+): Promise<BatchTransferReport> => {
+  try {
+    if ((rows && csv) || (!rows && !csv)) {
+      throw new Error("Provide either rows or csv");
+    }
+    const input = rows ?? parseTransferCsv(csv!);
+    if (input.length === 0) {
+      throw new Error("The batch has no rows");
+    }
+
+    // Refuse to sign unless the RPC serves the configured network
+    await verifyNetwork(client);
+
+    const planned = await planRows(client, input);
+    const results = new Map<number, BatchRowResult>();
+    if (resume) {
+      for (const previous of await carryOver(client, input, resume)) {
+        results.set(previous.index, previous);
+      }
+    }
+    const toSend = planned.filter((row) => !results.has(row.index));
+
+    const multicallAddress = useMulticall ? await getMulticallAddress(client) : null;
+    const cbtcRows = toSend.filter((row) => !row.token);
+    const batched = multicallAddress && cbtcRows.length > 1 ? cbtcRows : [];
+    const chunks: PlannedRow[][] = [];
+    for (let start = 0; start < batched.length; start += MULTICALL_CHUNK_SIZE) {
+      chunks.push(batched.slice(start, start + MULTICALL_CHUNK_SIZE));
+    }
+
+    await checkBalances(client, toSend, await estimateGasCost(client, toSend, multicallAddress, chunks));
+
+    if (isDryRun(client, dryRun)) {
+      for (const row of toSend) {
+        results.set(row.index, rowResult(row, "simulated", { via: batched.includes(row) ? "multicall" : "transfer" }));
+      }
+      return buildReport(planned, results);
+    }
+
+    const sequential = toSend.filter((row) => !batched.includes(row));
+    for (const chunk of chunks) {
+      const outcome = await sendMulticallChunk(client, multicallAddress!, chunk);
+      if (outcome) {
+        outcome.forEach((result) => results.set(result.index, result));
+      } else {
+        sequential.push(...chunk);
+      }
+    }
+
+    sequential.sort((a, b) => a.index - b.index);
+    for (const result of await sendSequentially(client, sequential)) {
+      results.set(result.index, result);
+    }
+
+    const report = buildReport(planned, results);
+    const failed = report.rows.filter((row) => row.status !== "confirmed").length;
+    console.log(`✅ Batch transfer finished: ${report.rows.length - failed} of ${report.rows.length} rows confirmed`);
+    return report;
+
+  } catch (error: any) {
+    console.error("Batch transfer failed:", error.message);
+
+    if (error.code === 'NETWORK_ERROR') {
+      throw new Error("Network error during batch transfer");
+    }
+
+    throw new Error(`Batch transfer failed: ${error.message}`);
+  }
+};
+
+/** Compact JSON for tool output, with the rows to retry as CSV */
+export const formatBatchTransferReport = (report: BatchTransferReport): string => {
+  const count = (status: BatchRowStatus) => report.rows.filter((row) => row.status === status).length;
+  const describe = ({ index, recipient, asset, amount, hash, error }: BatchRowResult) =>
+    ({ row: index + 1, recipient, asset, amount, hash, error });
+  const retry = report.rows.filter((row) => row.status === "failed");
+  const pending = report.rows.filter((row) => row.status === "pending");
+
+  return JSON.stringify({
+    status: count("simulated") ? "simulated (nothing sent)" : `${count("confirmed")} confirmed, ${retry.length} failed, ${pending.length} pending`,
+    rows: report.rows.length,
+    totals: report.totals,
+    transactions: [...new Set(report.rows.map((row) => row.hash).filter(Boolean))],
+    failed: retry.length ? retry.map(describe) : undefined,
+    // Pending rows may still be mined; they must be checked, not re-sent
+    pending: pending.length ? pending.map(describe) : undefined,
+    retryCsv: retry.length
+      ? ["recipient,asset,amount", ...retry.map((row) => `${row.recipient},${row.asset},${row.amount}`)].join("\n")
+      : undefined,
+  });
+};
+
+// Resolves every row up front and rejects the whole batch if any row is invalid
+const planRows = async (client: CitreaClient, rows: BatchTransferRow[]): Promise<PlannedRow[]> => {
+  const errors: string[] = [];
+  const planned: PlannedRow[] = [];
+
+  for (const [index, row] of rows.entries()) {
+    try {
+      if (!row?.recipient || !row.asset || !row.amount) {
+        throw new Error("recipient, asset and amount are required");
+      }
+      if (!(Number(row.amount) > 0)) {
+        throw new Error(`amount ${row.amount} must be greater than 0`);
+      }
+      const { address } = await resolveRecipient(client, row.recipient);
+      const token = row.asset.trim().toUpperCase() === "CBTC" ? null : await resolveToken(client, row.asset);
+      const decimals = token ? token.decimals : 18;
+      let value: bigint;
+      try {
+        value = parseUnits(row.amount.toString().trim(), decimals);
+      } catch {
+        throw new Error(`amount ${row.amount} is not a valid ${token?.symbol ?? "CBTC"} amount (at most ${decimals} decimals)`);
+      }
+      planned.push({ index, row, to: address, token, value });
+    } catch (error: any) {
+      errors.push(`row ${index + 1}: ${error.message}`);
+    }
+  }
+
+  if (errors.length) {
+    throw new Error(`${errors.length} invalid row(s), nothing was sent: ${errors.join("; ")}`);
+  }
+  return planned;
+};
+
+// Keeps confirmed rows of an earlier report and re-checks the ones that were pending
+const carryOver = async (client: CitreaClient, rows: BatchTransferRow[], report: BatchTransferReport): Promise<BatchRowResult[]> => {
+  const kept: BatchRowResult[] = [];
+  for (const previous of report.rows) {
+    const row = rows[previous.index];
+    if (!row || row.recipient !== previous.recipient || row.asset !== previous.asset || String(row.amount) !== String(previous.amount)) {
+      throw new Error(`The resumed report does not match row ${previous.index + 1} of this batch`);
+    }
+    if (previous.status === "confirmed") {
+      kept.push(previous);
+    } else if (previous.status === "pending" && previous.hash) {
+      const receipt = await getProvider(client).getTransactionReceipt(previous.hash);
+      if (receipt?.status === 1) {
+        kept.push({ ...previous, status: "confirmed", error: undefined });
+      } else if (!receipt) {
+        // Still not mined: sending it again could pay twice
+        kept.push(previous);
+      }
+    }
+  }
+  return kept;
+};
+
+// Gas for every transaction the batch will send, at the current fee
+const estimateGasCost = async (
+  client: CitreaClient,
+  rows: PlannedRow[],
+  multicallAddress: string | null,
+  chunks: PlannedRow[][]
+): Promise<bigint> => {
+  const provider = getProvider(client);
+  const from = await getAgentAddress(client);
+  const estimate = (request: TransactionRequest) => provider.estimateGas({ ...request, from }).catch(() => UNESTIMATED_GAS_LIMIT);
+
+  let gas = 0n;
+  for (const chunk of chunks) {
+    gas += await estimate(multicallRequest(multicallAddress!, chunk));
+  }
+  // Transfers of one asset cost about the same, so each asset is estimated once
+  const perAsset = new Map<string, bigint>();
+  for (const row of rows.filter((row) => !chunks.some((chunk) => chunk.includes(row)))) {
+    const key = row.token?.address ?? "CBTC";
+    if (!perAsset.has(key)) {
+      perAsset.set(key, await estimate(await transferRequest(client, row)));
+    }
+    gas += perAsset.get(key)!;
+  }
+
+  const { maxFeePerGas, gasPrice } = await provider.getFeeData();
+  return gas * (maxFeePerGas ?? gasPrice ?? 0n);
+};
+
+const checkBalances = async (client: CitreaClient, rows: PlannedRow[], gasCost: bigint) => {
+  const owner = await getAgentAddress(client);
+  // Gas is paid in CBTC, even by a batch of ERC20 rows only
+  const totals = new Map<string, { token: TokenInfo | null; total: bigint }>([["CBTC", { token: null, total: 0n }]]);
+  for (const row of rows) {
+    const key = row.token?.address ?? "CBTC";
+    const entry = totals.get(key) ?? { token: row.token, total: 0n };
+    entry.total += row.value;
+    totals.set(key, entry);
+  }
+
+  const shortfalls: string[] = [];
+  for (const { token, total } of totals.values()) {
+    const balance: bigint = token
+      ? await new Contract(token.address, erc20Abi, getProvider(client)).balanceOf(owner)
+      : await getProvider(client).getBalance(owner);
+    const needed = token ? total : total + gasCost;
+    if (balance < needed) {
+      const decimals = token ? token.decimals : 18;
+      const gas = token ? "" : ` plus about ${ethers.formatEther(gasCost)} for gas`;
+      shortfalls.push(`${token?.symbol ?? "CBTC"}: need ${ethers.formatUnits(total, decimals)}${gas}, have ${ethers.formatUnits(balance, decimals)}`);
+    }
+  }
+
+  if (shortfalls.length) {
+    throw new Error(`Insufficient balance for the batch, nothing was sent (${shortfalls.join("; ")})`);
+  }
+};
+
+/** The network's Multicall3 address, or null when the profile has none or nothing is deployed there */
+export const getMulticallAddress = async (client: CitreaClient): Promise<string | null> => {
+  const address = client.network.contracts.multicall3;
+  if (!address) {
+    return null;
+  }
+  const code = await getProvider(client).getCode(address);
+  return code !== "0x" ? address : null;
+};
+
+const multicallRequest = (multicallAddress: string, rows: PlannedRow[]): TransactionRequest => {
+  // allowFailure stays false: a failed call would leave its CBTC in the Multicall3 contract
+  const calls = rows.map((row) => ({ target: row.to, allowFailure: false, value: row.value, callData: "0x" }));
+  return {
+    to: multicallAddress,
+    data: multicall3.encodeFunctionData("aggregate3Value", [calls]),
+    value: rows.reduce((sum, row) => sum + row.value, 0n),
+  };
+};
+
+const transferRequest = async (client: CitreaClient, row: PlannedRow): Promise<TransactionRequest> =>
+  row.token
+    ? await new Contract(row.token.address, erc20Abi, getSigner(client)).transfer.populateTransaction(row.to, row.value)
+    : { to: row.to, value: row.value };
+
+// One all-or-nothing Multicall3 transaction; null when it cannot be sent or
+// reverted, so the rows go one by one instead
+const sendMulticallChunk = async (client: CitreaClient, multicallAddress: string, rows: PlannedRow[]): Promise<BatchRowResult[] | null> => {
+  let tx: TransactionResponse;
+  try {
+    tx = await sendTransaction(client, multicallRequest(multicallAddress, rows));
+  } catch (error: any) {
+    console.log(`Multicall3 batch not possible (${error.shortMessage ?? error.message}); sending ${rows.length} CBTC transfers one by one`);
+    return null;
+  }
+
+  console.log(`Multicall3 batch of ${rows.length} CBTC transfers sent: ${tx.hash}`);
+  const outcome = await settle(client, tx);
+  if (outcome.reverted) {
+    // Nothing was paid, and one row is enough to revert the whole chunk
+    console.log(`Multicall3 batch ${tx.hash} reverted; sending its ${rows.length} CBTC transfers one by one`);
+    return null;
+  }
+  return rows.map((row) => rowResult(row, outcome.status, { via: "multicall", hash: outcome.hash, error: outcome.error }));
+};
+
+// Sends every row first, so the queue assigns consecutive nonces, then waits for each
+const sendSequentially = async (client: CitreaClient, rows: PlannedRow[]): Promise<BatchRowResult[]> => {
+  const sent: { row: PlannedRow; tx?: TransactionResponse; error?: string }[] = [];
+
+  for (const row of rows) {
+    try {
+      sent.push({ row, tx: await sendTransaction(client, await transferRequest(client, row)) });
+    } catch (error: any) {
+      sent.push({ row, error: error.shortMessage ?? error.message });
+    }
+  }
+
+  const results: BatchRowResult[] = [];
+  for (const { row, tx, error } of sent) {
+    if (!tx) {
+      results.push(rowResult(row, "failed", { via: "transfer", error }));
+      continue;
+    }
+    const outcome = await settle(client, tx);
+    results.push(rowResult(row, outcome.status, { via: "transfer", hash: outcome.hash, error: outcome.error }));
+  }
+  return results;
+};
+
+const settle = async (
+  client: CitreaClient,
+  tx: TransactionResponse
+): Promise<{ status: BatchRowStatus; hash: string; error?: string; reverted?: boolean }> => {
+  try {
+    const receipt = await waitForTransaction(client, tx);
+    return { status: "confirmed", hash: receipt.hash };
+  } catch (error: any) {
+    if (error instanceof TransactionLifecycleError) {
+      const mayLand = ["timeout", "replaced", "reorged"].includes(error.state);
+      return {
+        status: mayLand ? "pending" : "failed",
+        hash: error.replacementHash ?? error.hash,
+        error: error.message,
+        reverted: error.state === "failed",
+      };
+    }
+    return { status: "pending", hash: tx.hash, error: error.message };
+  }
+};
+
+const rowResult = (
+  { index, row, to }: PlannedRow,
+  status: BatchRowStatus,
+  details: Pick<BatchRowResult, "via" | "hash" | "error">
+): BatchRowResult => ({
+  index,
+  recipient: row.recipient,
+  asset: row.asset,
+  amount: String(row.amount),
+  to,
+  status,
+  ...(details.via && { via: details.via }),
+  ...(details.hash && { hash: details.hash }),
+  ...(details.error && { error: details.error }),
+});
+
+const buildReport = (planned: PlannedRow[], results: Map<number, BatchRowResult>): BatchTransferReport => {
+  // Keyed by symbol, or by address when two tokens in the batch share a symbol
+  const labels = new Map<string, string>();
+  const totals = new Map<string, { total: bigint; decimals: number }>();
+  for (const row of planned) {
+    const key = row.token?.address ?? "CBTC";
+    if (!labels.has(key)) {
+      const symbol = row.token?.symbol ?? "CBTC";
+      labels.set(key, [...labels.values()].includes(symbol) ? key : symbol);
+    }
+    const entry = totals.get(key) ?? { total: 0n, decimals: row.token ? row.token.decimals : 18 };
+    entry.total += row.value;
+    totals.set(key, entry);
+  }
+
+  return {
+    batch: true,
+    rows: planned.map((row) => results.get(row.index)!),
+    totals: Object.fromEntries([...totals].map(([key, { total, decimals }]) => [labels.get(key)!, ethers.formatUnits(total, decimals)])),
+  };
+};
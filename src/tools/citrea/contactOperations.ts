@@ -0,0 +1,46 @@
+import type { CitreaClient } from "../../core/client";
+import type { Contact } from "../../core/contacts";
+
+export const saveContact = async (
+  client: CitreaClient,
+  {
+    name,
+    address,
+    note,
+    overwrite = false,
+    dryRun = false
+  }: {
+    name: string;
+    address: string;
+    note?: string;
+    /** Replace the address of an existing contact with the same name */
+    overwrite?: boolean;
+    /** Only validate; contacts live off-chain, so the client's simulate mode does not apply */
+    dryRun?: boolean;
+  }
+): Promise<Contact> => {
+  try {
+    const contact = await client.contacts.save({ name, address, note }, { overwrite, dryRun });
+    if (!dryRun) {
+      console.log(`✅ Saved contact ${contact.name} (${contact.address})`);
+    }
+    return contact;
+  } catch (error: any) {
+    console.error("Saving contact failed:", error.message);
+    throw new Error(`Saving contact failed: ${error.message}`);
+  }
+};
+
+export const lookupContact = async (
+  client: CitreaClient,
+  { name }: { name: string }
+): Promise<Contact> => {
+  const contact = await client.contacts.lookup(name);
+  if (!contact) {
+    throw new Error(`No contact named ${name}`);
+  }
+  return contact;
+};
+
+export const listContacts = async (client: CitreaClient): Promise<Contact[]> =>
+  await client.contacts.list();
@@ -1,49 +1,73 @@
 import { ethers, ContractFactory, InterfaceAbi } from "ethers";
-import { getSigner, getProvider } from "../../core/client";
-
-export const deployContract = async ({
-  abi,
-  bytecode,
-  args = []
-}: {
-  abi: InterfaceAbi;
-  bytecode: string;
-  args?: any[];
-}): Promise<string> => {
+import { getSigner, getProvider, verifyNetwork, type CitreaClient } from "../../core/client";
+import { sendTransaction, waitForTransaction, TransactionLifecycleError } from "../../core/transactions";
+import { isDryRun, simulateTransaction, type SimulationResult } from "../../core/simulation";
+import { buildTransactionResult, type TransactionResult } from "../../core/results";
+
+export const deployContract = async (
+  client: CitreaClient,
+  {
+    abi,
+    bytecode,
+    args = [],
+    dryRun
+  }: {
+    abi: InterfaceAbi;
+    bytecode: string;
+    args?: any[];
+    /** Simulate instead of broadcasting; defaults to the client's mode */
+    dryRun?: boolean;
+  }
+): Promise<TransactionResult | SimulationResult> => {
   try {
     if (!abi || !bytecode) {
       throw new Error("ABI and bytecode are required for contract deployment");
     }
 
-    const signer = getSigner();
-    const provider = getProvider();
+    // Refuse to sign unless the RPC serves the configured network
+    await verifyNetwork(client);
+
+    const signer = getSigner(client);
+    const provider = getProvider(client);
 
     if (!signer) {
       throw new Error("Signer not initialized for contract deployment");
     }
 
+    const signerAddress = await signer.getAddress();
+
     // Validate that wallet has sufficient balance for deployment
-    const balance = await provider.getBalance(signer.address);
+    const balance = await provider.getBalance(signerAddress);
     if (balance === 0n) {
       throw new Error("Wallet has insufficient balance for contract deployment");
     }
 
     const factory = new ContractFactory(abi, bytecode, signer);
+    const deployTx = await factory.getDeployTransaction(...args);
+
+    if (isDryRun(client, dryRun)) {
+      return await simulateTransaction(client, deployTx, { iface: factory.interface });
+    }
+
     console.log(`Deploying contract with args: ${args.join(', ')}...`);
     
-    const contract = await factory.deploy(...args);
-    console.log(`Contract deployment transaction sent: ${contract.deploymentTransaction()?.hash}`);
+    const tx = await sendTransaction(client, deployTx);
+    console.log(`Contract deployment transaction sent: ${tx.hash}`);
     
-    await contract.waitForDeployment();
-    const address = await contract.getAddress();
+    const receipt = await waitForTransaction(client, tx);
+    const address = receipt.contractAddress;
     
     if (!address) {
       throw new Error("Failed to get deployed contract address");
     }
     
     console.log(`Contract deployed successfully at address: ${address}`);
-    return address;
+    return await buildTransactionResult(client, receipt);
   } catch (error: any) {
+    if (error instanceof TransactionLifecycleError) {
+      throw error;
+    }
+
     console.error("Contract deployment failed:", error.message);
     
     // Handle specific error types
@@ -0,0 +1,121 @@
+import { parseUnits } from "ethers";
+import type { CitreaClient } from "../../core/client";
+import type { SimulationResult } from "../../core/simulation";
+import { isTransactionResult, type TransactionResult } from "../../core/results";
+import { deployContract } from "./deployContract";
+import { citreaERC20Artifact, citreaERC721Artifact } from "./templateArtifacts";
+
+/**
+ * Deploys the bundled ERC20 template (contracts/CitreaERC20.sol). The whole
+ * initial supply goes to the agent wallet, which owns the token. Once
+ * deployed, the token is added to the client's registry so later calls can
+ * use its symbol.
+ */
+export const deployErc20Token = async (
+  client: CitreaClient,
+  {
+    name,
+    symbol,
+    initialSupply,
+    decimals = 18,
+    mintable = false,
+    burnable = true,
+    cap,
+    dryRun
+  }: {
+    name: string;
+    symbol: string;
+    /** Whole units minted to the agent wallet */
+    initialSupply: string | number;
+    decimals?: number;
+    /** Let the owner mint more later */
+    mintable?: boolean;
+    /** Let holders burn their tokens */
+    burnable?: boolean;
+    /** Maximum total supply in whole units; uncapped when omitted */
+    cap?: string | number;
+    /** Simulate instead of broadcasting; defaults to the client's mode */
+    dryRun?: boolean;
+  }
+): Promise<TransactionResult | SimulationResult> => {
+  if (!name?.trim() || !symbol?.trim()) {
+    throw new Error("Token name and symbol are required");
+  }
+
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 36) {
+    throw new Error("Decimals must be a whole number from 0 to 36");
+  }
+
+  if (initialSupply === undefined || initialSupply === "" || Number(initialSupply) < 0) {
+    throw new Error("Initial supply must be 0 or more");
+  }
+
+  const supply = parseUnits(initialSupply.toString(), decimals);
+  const capUnits = cap !== undefined && cap !== "" ? parseUnits(cap.toString(), decimals) : 0n;
+  if (capUnits !== 0n && supply > capUnits) {
+    throw new Error(`Initial supply ${initialSupply} exceeds the cap of ${cap}`);
+  }
+  if (supply === 0n && !mintable) {
+    throw new Error("A token with no initial supply must be mintable");
+  }
+
+  const result = await deployContract(client, {
+    abi: citreaERC20Artifact.abi,
+    bytecode: citreaERC20Artifact.bytecode,
+    args: [name.trim(), symbol.trim(), decimals, supply, mintable, burnable, capUnits],
+    dryRun,
+  });
+
+  if (isTransactionResult(result) && result.contractAddress) {
+    client.tokens.add({
+      chainId: client.network.chainId,
+      address: result.contractAddress,
+      symbol: symbol.trim(),
+      name: name.trim(),
+      decimals,
+    });
+    console.log(`Registered ${symbol.trim()} at ${result.contractAddress} in the token registry`);
+  }
+  return result;
+};
+
+/**
+ * Deploys the bundled ERC721 template (contracts/CitreaERC721.sol), owned by
+ * the agent wallet. The owner mints with `mint(to)`, which assigns IDs from 1;
+ * token URIs are `baseUri` followed by the ID.
+ */
+export const deployNftCollection = async (
+  client: CitreaClient,
+  {
+    name,
+    symbol,
+    baseUri = "",
+    maxSupply = 0,
+    dryRun
+  }: {
+    name: string;
+    symbol: string;
+    /** Prefix of every token URI, e.g. "ipfs://<cid>/" */
+    baseUri?: string;
+    /** Most tokens that can ever be minted; 0 for no limit */
+    maxSupply?: string | number;
+    /** Simulate instead of broadcasting; defaults to the client's mode */
+    dryRun?: boolean;
+  }
+): Promise<TransactionResult | SimulationResult> => {
+  if (!name?.trim() || !symbol?.trim()) {
+    throw new Error("Collection name and symbol are required");
+  }
+
+  if (!/^\d+$/.test(String(maxSupply))) {
+    throw new Error("Max supply must be a whole number (0 for no limit)");
+  }
+
+  return await deployContract(client, {
+    abi: citreaERC721Artifact.abi,
+    bytecode: citreaERC721Artifact.bytecode,
+    args: [name.trim(), symbol.trim(), baseUri, BigInt(maxSupply)],
+    dryRun,
+  });
+};
+
@@ -0,0 +1,131 @@
+import { ethers, Contract } from "ethers";
+import { getSigner, getProvider, verifyNetwork, type CitreaClient } from "../../core/client";
+import { sendTransaction, waitForTransaction, TransactionLifecycleError } from "../../core/transactions";
+import { isDryRun, simulateTransaction, type SimulationResult } from "../../core/simulation";
+import { buildTransactionResult, formatRecipient, type TransactionResult } from "../../core/results";
+import { resolveRecipient } from "../../core/contacts";
+import { parseTokenId } from "./nftOperations";
+import { erc1155Abi } from "./abis";
+
+/**
+ * Sends ERC1155 tokens from the agent wallet with safeTransferFrom, or with
+ * safeBatchTransferFrom when several token IDs are given. Balances are
+ * checked first so a shortfall is reported per token ID.
+ */
+export const transferErc1155 = async (
+  client: CitreaClient,
+  {
+    contractAddress,
+    toAddress,
+    tokenIds,
+    amounts,
+    data = "0x",
+    dryRun
+  }: {
+    contractAddress: string;
+    /** Wallet address or saved contact name */
+    toAddress: string;
+    tokenIds: (string | number)[];
+    /** Whole token counts, one per token ID */
+    amounts: (string | number)[];
+    /** Passed on to the recipient's onERC1155Received hook */
+    data?: string;
+    /** Simulate instead of broadcasting; defaults to the client's mode */
+    dryRun?: boolean;
+  }
+): Promise<TransactionResult | SimulationResult> => {
+  try {
+    // Validate required parameters
+    if (!contractAddress || !ethers.isAddress(contractAddress)) {
+      throw new Error("Invalid NFT contract address format");
+    }
+
+    if (!tokenIds?.length || tokenIds.length !== amounts?.length) {
+      throw new Error("Give one amount for each token ID");
+    }
+
+    if (!ethers.isHexString(data)) {
+      throw new Error("Data must be a hex string");
+    }
+
+    const ids = tokenIds.map(parseTokenId);
+    const counts = amounts.map((amount) => {
+      if (!/^\d+$/.test(String(amount).trim()) || BigInt(String(amount).trim()) === 0n) {
+        throw new Error(`Amount ${amount} must be a whole number greater than 0`);
+      }
+      return BigInt(String(amount).trim());
+    });
+
+    // A saved contact name or an address
+    const recipient = await resolveRecipient(client, toAddress);
+
+    // Refuse to sign unless the RPC serves the configured network
+    await verifyNetwork(client);
+
+    const signer = getSigner(client);
+    const provider = getProvider(client);
+
+    if (!signer) {
+      throw new Error("Signer not initialized");
+    }
+
+    const signerAddress = await signer.getAddress();
+
+    // Check signer balance for gas fees
+    const signerBalance = await provider.getBalance(signerAddress);
+    if (signerBalance === 0n) {
+      throw new Error("Insufficient balance for gas fees");
+    }
+
+    const contract = new Contract(contractAddress, erc1155Abi, signer);
+    const balances: bigint[] = await contract.balanceOfBatch(ids.map(() => signerAddress), ids);
+    const shortfalls = ids
+      .map((id, i) => (balances[i] < counts[i] ? `#${id}: have ${balances[i]}, need ${counts[i]}` : null))
+      .filter((shortfall) => shortfall !== null);
+    if (shortfalls.length) {
+      throw new Error(`Insufficient token balance (${shortfalls.join("; ")})`);
+    }
+
+    const txRequest = ids.length === 1
+      ? await contract.safeTransferFrom.populateTransaction(signerAddress, recipient.address, ids[0], counts[0], data)
+      : await contract.safeBatchTransferFrom.populateTransaction(signerAddress, recipient.address, ids, counts, data);
+    const label = ids.map((id, i) => `${counts[i]} of #${id}`).join(", ");
+
+    if (isDryRun(client, dryRun)) {
+      return await simulateTransaction(client, txRequest, {
+        iface: contract.interface,
+        balanceChanges: ids.map((id, i) => ({ asset: `#${id}`, token: ethers.getAddress(contractAddress), amount: `-${counts[i]}` })),
+        recipient,
+      });
+    }
+
+    console.log(`Transferring ${label} of ${contractAddress} to ${formatRecipient(recipient)}...`);
+
+    const tx = await sendTransaction(client, txRequest);
+    console.log(`NFT transfer transaction sent: ${tx.hash}`);
+
+    // Wait for confirmation
+    const receipt = await waitForTransaction(client, tx);
+
+    console.log(`✅ NFT transfer completed successfully. Transaction hash: ${receipt.hash}`);
+    return await buildTransactionResult(client, receipt, { recipient });
+
+  } catch (error: any) {
+    if (error instanceof TransactionLifecycleError) {
+      throw error;
+    }
+
+    console.error("ERC1155 transfer failed:", error.message);
+
+    // Handle specific error types
+    if (error.code === 'INSUFFICIENT_FUNDS') {
+      throw new Error("Insufficient funds for gas fees");
+    } else if (error.code === 'NETWORK_ERROR') {
+      throw new Error("Network error during NFT transfer");
+    } else if (error.code === 'TIMEOUT') {
+      throw new Error("NFT transfer transaction timed out");
+    }
+
+    throw new Error(`ERC1155 transfer failed: ${error.message}`);
+  }
+};
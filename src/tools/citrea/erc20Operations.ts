@@ -1,19 +1,28 @@
-import { ethers, Contract, parseUnits } from "ethers";
-import { getSigner, getProvider, getAgentAddress } from "../../core/client";
-import { erc20Abi } from "./abis";
-
-// Common burn address - using a well-known burn address that nobody has access to
-const BURN_ADDRESS = "0x000000000000000000000000000000000000dEaD";
-
-export const transferErc20 = async ({
-  tokenAddress,
-  toAddress,
-  amount
-}: {
-  tokenAddress: string;
-  toAddress: string;
-  amount: string | number;
-}): Promise<string> => {
+import { ethers, Contract, MaxUint256, isError, parseUnits, type BaseContractMethod, type ContractTransaction } from "ethers";
+import { getSigner, getProvider, verifyNetwork, getAgentAddress, type CitreaClient } from "../../core/client";
+import { sendTransaction, waitForTransaction, TransactionLifecycleError } from "../../core/transactions";
+import { isDryRun, simulateTransaction, type SimulationResult } from "../../core/simulation";
+import { buildTransactionResult, formatBurn, formatRecipient, type BurnDetails, type TransactionResult } from "../../core/results";
+import { DEFAULT_BURN_ADDRESS } from "../../core/networks";
+import { resolveToken } from "../../core/tokens";
+import { resolveRecipient } from "../../core/contacts";
+import { erc20Abi, erc20BurnableAbi, erc20MintableAbi } from "./abis";
+
+export const transferErc20 = async (
+  client: CitreaClient,
+  {
+    tokenAddress,
+    toAddress,
+    amount,
+    dryRun
+  }: {
+    tokenAddress: string;
+    toAddress: string;
+    amount: string | number;
+    /** Simulate instead of broadcasting; defaults to the client's mode */
+    dryRun?: boolean;
+  }
+): Promise<TransactionResult | SimulationResult> => {
   try {
     // Validate required parameters
     if (!tokenAddress) {
@@ -28,41 +37,40 @@ export const transferErc20 = async ({
       throw new Error("Amount must be greater than 0");
     }
 
-    // Validate addresses
-    if (!ethers.isAddress(tokenAddress)) {
-      throw new Error("Invalid token address format");
-    }
-    
-    if (!ethers.isAddress(toAddress)) {
-      throw new Error("Invalid recipient address format");
-    }
+    // A saved contact name or an address
+    const recipient = await resolveRecipient(client, toAddress);
+
+    // Refuse to sign unless the RPC serves the configured network
+    await verifyNetwork(client);
 
-    const signer = getSigner();
-    const provider = getProvider();
+    // Accepts a registered symbol as well as an address; metadata comes from the registry cache
+    const token = await resolveToken(client, tokenAddress);
+
+    const signer = getSigner(client);
+    const provider = getProvider(client);
     
     if (!signer) {
       throw new Error("Signer not initialized");
     }
 
+    const signerAddress = await signer.getAddress();
+
     // Check signer balance for gas fees
-    const signerBalance = await provider.getBalance(signer.address);
+    const signerBalance = await provider.getBalance(signerAddress);
     if (signerBalance === 0n) {
       throw new Error("Insufficient balance for gas fees");
     }
 
-    const tokenContract = new Contract(tokenAddress, erc20Abi, signer);
+    const tokenContract = new Contract(token.address, erc20Abi, signer);
     
     // Validate contract functions are available
     if (!tokenContract.transfer || !tokenContract.decimals || !tokenContract.balanceOf) {
       throw new Error("Required functions not available on token contract");
     }
 
-    // Get token decimals and current balance
-    const [decimals, currentBalance, symbol] = await Promise.all([
-      tokenContract.decimals(),
-      tokenContract.balanceOf(signer.address),
-      tokenContract.symbol().catch(() => "Unknown") // Optional, don't fail if not available
-    ]);
+    // Get current balance
+    const { decimals, symbol } = token;
+    const currentBalance = await tokenContract.balanceOf(signerAddress);
 
     // Convert amount to proper units
     const amountInWei = parseUnits(amount.toString(), decimals);
@@ -73,27 +81,33 @@ export const transferErc20 = async ({
       throw new Error(`Insufficient token balance. Current: ${currentBalanceFormatted} ${symbol}, Required: ${amount}`);
     }
 
-    console.log(`Transferring ${amount} ${symbol} to ${toAddress}...`);
+    const txRequest = await tokenContract.transfer.populateTransaction(recipient.address, amountInWei);
+
+    if (isDryRun(client, dryRun)) {
+      return await simulateTransaction(client, txRequest, {
+        iface: tokenContract.interface,
+        balanceChanges: [{ asset: symbol, token: token.address, amount: `-${ethers.formatUnits(amountInWei, decimals)}` }],
+        recipient,
+      });
+    }
+
+    console.log(`Transferring ${amount} ${symbol} to ${formatRecipient(recipient)}...`);
     
     // Execute transfer
-    const tx = await tokenContract.transfer(toAddress, amountInWei);
+    const tx = await sendTransaction(client, txRequest);
     console.log(`Transfer transaction sent: ${tx.hash}`);
     
     // Wait for confirmation
-    const receipt = await tx.wait();
+    const receipt = await waitForTransaction(client, tx);
     
-    if (!receipt) {
-      throw new Error("Transaction receipt not available");
-    }
-    
-    if (receipt.status !== 1) {
-      throw new Error("Transaction failed");
-    }
-    
-    console.log(`✅ Transfer completed successfully. Transaction hash: ${tx.hash}`);
-    return tx.hash;
+    console.log(`✅ Transfer completed successfully. Transaction hash: ${receipt.hash}`);
+    return await buildTransactionResult(client, receipt, { tokens: [token.address], recipient });
     
   } catch (error: any) {
+    if (error instanceof TransactionLifecycleError) {
+      throw error;
+    }
+
     console.error("ERC20 transfer failed:", error.message);
     
     // Handle specific error types
@@ -111,13 +125,25 @@ export const transferErc20 = async ({
   }
 };
 
-export const burnErc20 = async ({
-  tokenAddress,
-  amount
-}: {
-  tokenAddress: string;
-  amount: string | number;
-}): Promise<string> => {
+export const burnErc20 = async (
+  client: CitreaClient,
+  {
+    tokenAddress,
+    amount,
+    fromAddress,
+    allowDeadAddress = true,
+    dryRun
+  }: {
+    tokenAddress: string;
+    amount: string | number;
+    /** Burn another holder's tokens with burnFrom, using the allowance they gave the agent wallet */
+    fromAddress?: string;
+    /** Send the tokens to the dead address when the token has no burn function; defaults to true */
+    allowDeadAddress?: boolean;
+    /** Simulate instead of broadcasting; defaults to the client's mode */
+    dryRun?: boolean;
+  }
+): Promise<TransactionResult | SimulationResult> => {
   try {
     // Validate required parameters
     if (!tokenAddress) {
@@ -128,68 +154,97 @@ export const burnErc20 = async ({
       throw new Error("Amount must be greater than 0");
     }
 
-    // Validate token address
-    if (!ethers.isAddress(tokenAddress)) {
-      throw new Error("Invalid token address format");
+    if (fromAddress && !ethers.isAddress(fromAddress)) {
+      throw new Error("Invalid holder address format");
     }
 
-    const signer = getSigner();
-    const provider = getProvider();
+    // Refuse to sign unless the RPC serves the configured network
+    await verifyNetwork(client);
+
+    // Accepts a registered symbol as well as an address; metadata comes from the registry cache
+    const token = await resolveToken(client, tokenAddress);
+
+    const signer = getSigner(client);
+    const provider = getProvider(client);
     
     if (!signer) {
       throw new Error("Signer not initialized");
     }
 
+    const signerAddress = await signer.getAddress();
+    const holder = fromAddress ? ethers.getAddress(fromAddress) : signerAddress;
+
     // Check signer balance for gas fees
-    const signerBalance = await provider.getBalance(signer.address);
+    const signerBalance = await provider.getBalance(signerAddress);
     if (signerBalance === 0n) {
       throw new Error("Insufficient balance for gas fees");
     }
 
-    const tokenContract = new Contract(tokenAddress, erc20Abi, signer);
-    
-    // Validate contract functions are available
-    if (!tokenContract.transfer || !tokenContract.decimals || !tokenContract.balanceOf) {
-      throw new Error("Required functions not available on token contract");
-    }
+    const tokenContract = new Contract(token.address, erc20Abi, signer);
+    const burnableContract = new Contract(token.address, erc20BurnableAbi, signer);
 
-    // Get token details
-    const [decimals, currentBalance, symbol] = await Promise.all([
-      tokenContract.decimals(),
-      tokenContract.balanceOf(signer.address),
-      tokenContract.symbol().catch(() => "Unknown") // Optional, don't fail if not available
-    ]);
+    // Get current balance
+    const { decimals, symbol } = token;
+    const currentBalance = await tokenContract.balanceOf(holder);
 
     // Convert amount to proper units
     const amountInWei = parseUnits(amount.toString(), decimals);
     
-    // Check if user has sufficient token balance
+    // Check if the holder has sufficient token balance
     if (currentBalance < amountInWei) {
       const currentBalanceFormatted = ethers.formatUnits(currentBalance, decimals);
       throw new Error(`Insufficient token balance. Current: ${currentBalanceFormatted} ${symbol}, Required: ${amount}`);
     }
 
-    console.log(`Burning ${amount} ${symbol} (transferring to burn address)...`);
+    let burn: BurnDetails;
+    let txRequest: ContractTransaction;
+    if (holder !== signerAddress) {
+      if (!await hasBurnFunction(burnableContract.burnFrom, [holder, amountInWei])) {
+        throw new Error(`${symbol} has no burnFrom function, so tokens of ${holder} cannot be burned`);
+      }
+      burn = { method: "burnFrom" };
+      txRequest = await burnableContract.burnFrom.populateTransaction(holder, amountInWei);
+    } else if (await hasBurnFunction(burnableContract.burn, [amountInWei])) {
+      burn = { method: "burn" };
+      txRequest = await burnableContract.burn.populateTransaction(amountInWei);
+    } else if (allowDeadAddress) {
+      const burnAddress = client.network.contracts.burnAddress ?? DEFAULT_BURN_ADDRESS;
+      burn = { method: "deadAddress", burnAddress };
+      txRequest = await tokenContract.transfer.populateTransaction(burnAddress, amountInWei);
+    } else {
+      throw new Error(`${symbol} has no burn function; allow the dead address to send the tokens there instead`);
+    }
+
+    if (isDryRun(client, dryRun)) {
+      return await simulateTransaction(client, txRequest, {
+        iface: burn.method === "deadAddress" ? tokenContract.interface : burnableContract.interface,
+        balanceChanges: holder === signerAddress
+          ? [{ asset: symbol, token: token.address, amount: `-${ethers.formatUnits(amountInWei, decimals)}` }]
+          : [],
+        burn,
+      });
+    }
+
+    if (burn.method === "deadAddress") {
+      console.log(`Burning ${amount} ${symbol} by transferring to ${burn.burnAddress} (the token has no burn function)...`);
+    } else {
+      console.log(`Burning ${amount} ${symbol} with ${burn.method}()...`);
+    }
     
-    // Execute burn by transferring to burn address
-    const tx = await tokenContract.transfer(BURN_ADDRESS, amountInWei);
+    const tx = await sendTransaction(client, txRequest);
     console.log(`Burn transaction sent: ${tx.hash}`);
     
     // Wait for confirmation
-    const receipt = await tx.wait();
-    
-    if (!receipt) {
-      throw new Error("Transaction receipt not available");
-    }
-    
-    if (receipt.status !== 1) {
-      throw new Error("Transaction failed");
-    }
+    const receipt = await waitForTransaction(client, tx);
     
-    console.log(`✅ Burn completed successfully. ${amount} ${symbol} sent to burn address. Transaction hash: ${tx.hash}`);
-    return tx.hash;
+    console.log(`✅ Burn completed successfully. ${amount} ${symbol} ${formatBurn(burn)}. Transaction hash: ${receipt.hash}`);
+    return await buildTransactionResult(client, receipt, { tokens: [token.address], burn });
     
   } catch (error: any) {
+    if (error instanceof TransactionLifecycleError) {
+      throw error;
+    }
+
     console.error("ERC20 burn failed:", error.message);
     
     // Handle specific error types
@@ -199,10 +254,380 @@ export const burnErc20 = async ({
       throw new Error("Network error during burn");
     } else if (error.code === 'TIMEOUT') {
       throw new Error("Burn transaction timed out");
-    } else if (error.message.includes("transfer amount exceeds balance")) {
+    } else if (error.message.includes("burn amount exceeds balance") || error.message.includes("transfer amount exceeds balance")) {
       throw new Error("Burn amount exceeds token balance");
     }
     
     throw new Error(`ERC20 burn failed: ${error.message}`);
   }
 };
+
+export const mintErc20 = async (
+  client: CitreaClient,
+  {
+    tokenAddress,
+    toAddress,
+    amount,
+    dryRun
+  }: {
+    tokenAddress: string;
+    /** Wallet address or contact name; defaults to the agent wallet */
+    toAddress?: string;
+    amount: string | number;
+    /** Simulate instead of broadcasting; defaults to the client's mode */
+    dryRun?: boolean;
+  }
+): Promise<TransactionResult | SimulationResult> => {
+  try {
+    // Validate required parameters
+    if (!tokenAddress) {
+      throw new Error("Token address is required");
+    }
+
+    if (!amount || Number(amount) <= 0) {
+      throw new Error("Amount must be greater than 0");
+    }
+
+    const recipient = toAddress ? await resolveRecipient(client, toAddress) : { address: await getAgentAddress(client) };
+
+    // Refuse to sign unless the RPC serves the configured network
+    await verifyNetwork(client);
+
+    // Accepts a registered symbol as well as an address; metadata comes from the registry cache
+    const token = await resolveToken(client, tokenAddress);
+
+    const signer = getSigner(client);
+    const provider = getProvider(client);
+
+    if (!signer) {
+      throw new Error("Signer not initialized");
+    }
+
+    const signerAddress = await signer.getAddress();
+
+    // Check signer balance for gas fees
+    const signerBalance = await provider.getBalance(signerAddress);
+    if (signerBalance === 0n) {
+      throw new Error("Insufficient balance for gas fees");
+    }
+
+    // Checked up front so a token the agent cannot mint fails with a reason rather than a bare revert
+    if (await isMintingDisabled(new Contract(token.address, erc20MintableAbi, provider))) {
+      throw new Error(`${token.symbol} was deployed with minting disabled, so no one can mint it`);
+    }
+    const authority = await getMintAuthority(client, token.address, signerAddress);
+    if (!authority) {
+      throw new Error(`The agent wallet ${signerAddress} is neither the owner of ${token.symbol} nor holds its MINTER_ROLE`);
+    }
+
+    const { decimals, symbol } = token;
+    const amountInWei = parseUnits(amount.toString(), decimals);
+
+    const tokenContract = new Contract(token.address, erc20MintableAbi, signer);
+    const txRequest = await tokenContract.mint.populateTransaction(recipient.address, amountInWei);
+
+    if (isDryRun(client, dryRun)) {
+      return await simulateTransaction(client, txRequest, {
+        iface: tokenContract.interface,
+        balanceChanges: recipient.address === signerAddress
+          ? [{ asset: symbol, token: token.address, amount: ethers.formatUnits(amountInWei, decimals) }]
+          : [],
+        recipient,
+      });
+    }
+
+    console.log(`Minting ${amount} ${symbol} to ${formatRecipient(recipient)} (as ${authority === "owner" ? "owner" : "minter"})...`);
+
+    const tx = await sendTransaction(client, txRequest);
+    console.log(`Mint transaction sent: ${tx.hash}`);
+
+    // Wait for confirmation
+    const receipt = await waitForTransaction(client, tx);
+
+    console.log(`✅ Mint completed successfully. Transaction hash: ${receipt.hash}`);
+    return await buildTransactionResult(client, receipt, { tokens: [token.address], recipient });
+
+  } catch (error: any) {
+    if (error instanceof TransactionLifecycleError) {
+      throw error;
+    }
+
+    console.error("ERC20 mint failed:", error.message);
+
+    // Handle specific error types
+    if (error.code === 'INSUFFICIENT_FUNDS') {
+      throw new Error("Insufficient funds for gas fees");
+    } else if (error.code === 'NETWORK_ERROR') {
+      throw new Error("Network error during mint");
+    } else if (error.code === 'TIMEOUT') {
+      throw new Error("Mint transaction timed out");
+    }
+
+    throw new Error(`ERC20 mint failed: ${error.message}`);
+  }
+};
+
+const MINTER_ROLE = ethers.id("MINTER_ROLE");
+
+// Only tokens from the kit's template answer mintable(); any other token is
+// taken to mint as its roles allow
+const isMintingDisabled = async (tokenContract: Contract): Promise<boolean> =>
+  (await tokenContract.mintable().catch(() => true)) === false;
+
+/**
+ * How `account` (the agent wallet by default) may mint the token: through
+ * AccessControl's MINTER_ROLE, or as the Ownable owner. Null when it is
+ * neither, including tokens that expose neither check and template tokens
+ * deployed with minting disabled.
+ */
+export const getMintAuthority = async (
+  client: CitreaClient,
+  token: string,
+  account?: string
+): Promise<"minterRole" | "owner" | null> => {
+  const tokenContract = new Contract(token, erc20MintableAbi, getProvider(client));
+  const minter = account ? ethers.getAddress(account) : await getAgentAddress(client);
+
+  if (await isMintingDisabled(tokenContract)) {
+    return null;
+  }
+
+  try {
+    // Tokens that do not expose the constant use the OpenZeppelin value
+    const role: string = await tokenContract.MINTER_ROLE().catch(() => MINTER_ROLE);
+    if (await tokenContract.hasRole(role, minter)) {
+      return "minterRole";
+    }
+  } catch {
+    // Not AccessControl
+  }
+
+  try {
+    if (ethers.getAddress(await tokenContract.owner()) === minter) {
+      return "owner";
+    }
+  } catch {
+    // Not Ownable
+  }
+
+  return null;
+};
+// Calls the burn function from the agent wallet without sending anything. A
+// revert without data means the token has no such function; a revert with a
+// reason or a custom error means it exists but refused, which is rethrown.
+const hasBurnFunction = async (method: BaseContractMethod, args: unknown[]): Promise<boolean> => {
+  try {
+    await method.staticCall(...args);
+    return true;
+  } catch (error: any) {
+    if (!isError(error, "CALL_EXCEPTION")) {
+      throw error;
+    }
+    if (!error.data || error.data === "0x") {
+      return false;
+    }
+    if (error.revert?.name === "BurningDisabled") {
+      throw new Error("The token was deployed with burning disabled, so it cannot be burned");
+    }
+    throw new Error(`The token refused the burn: ${error.reason ?? error.revert?.signature ?? `custom error ${error.data.slice(0, 10)}`}`);
+  }
+};
+
+export const approveErc20 = async (
+  client: CitreaClient,
+  {
+    tokenAddress,
+    spenderAddress,
+    amount,
+    unlimited = false,
+    dryRun
+  }: {
+    tokenAddress: string;
+    spenderAddress: string;
+    /** Exact amount the spender may use; required unless `unlimited` is set */
+    amount?: string | number;
+    /** Approve the maximum uint256 amount instead of an exact amount */
+    unlimited?: boolean;
+    /** Simulate instead of broadcasting; defaults to the client's mode */
+    dryRun?: boolean;
+  }
+): Promise<TransactionResult | SimulationResult> => {
+  if (!unlimited && (!amount || Number(amount) <= 0)) {
+    throw new Error("Amount must be greater than 0 (set unlimited to approve the maximum amount)");
+  }
+
+  return await setAllowance(client, {
+    tokenAddress,
+    spenderAddress,
+    amount: amount ?? 0,
+    unlimited,
+    dryRun,
+  });
+};
+
+export const revokeAllowance = async (
+  client: CitreaClient,
+  {
+    tokenAddress,
+    spenderAddress,
+    dryRun
+  }: {
+    tokenAddress: string;
+    spenderAddress: string;
+    /** Simulate instead of broadcasting; defaults to the client's mode */
+    dryRun?: boolean;
+  }
+): Promise<TransactionResult | SimulationResult> => {
+  return await setAllowance(client, { tokenAddress, spenderAddress, amount: 0, dryRun });
+};
+
+export const getAllowance = async (
+  client: CitreaClient,
+  {
+    tokenAddress,
+    spenderAddress,
+    ownerAddress
+  }: {
+    tokenAddress: string;
+    spenderAddress: string;
+    /** Defaults to the agent wallet */
+    ownerAddress?: string;
+  }
+): Promise<string> => {
+  try {
+    if (!tokenAddress) {
+      throw new Error("Token address is required");
+    }
+
+    if (!spenderAddress) {
+      throw new Error("Spender address is required");
+    }
+
+    if (!ethers.isAddress(spenderAddress)) {
+      throw new Error("Invalid spender address format");
+    }
+
+    if (ownerAddress && !ethers.isAddress(ownerAddress)) {
+      throw new Error("Invalid owner address format");
+    }
+
+    const owner = ownerAddress || await getAgentAddress(client);
+    const { address, decimals, symbol } = await resolveToken(client, tokenAddress);
+    const tokenContract = new Contract(address, erc20Abi, getProvider(client));
+    const allowance = await tokenContract.allowance(owner, spenderAddress);
+
+    if (allowance === MaxUint256) {
+      return `unlimited ${symbol}`;
+    }
+    return `${ethers.formatUnits(allowance, decimals)} ${symbol}`;
+  } catch (error: any) {
+    throw new Error(`Error: ${error.message}`);
+  }
+};
+
+// approve(spender, amount) shared by approveErc20 and revokeAllowance; amount 0 revokes
+const setAllowance = async (
+  client: CitreaClient,
+  {
+    tokenAddress,
+    spenderAddress,
+    amount,
+    unlimited = false,
+    dryRun
+  }: {
+    tokenAddress: string;
+    spenderAddress: string;
+    amount: string | number;
+    unlimited?: boolean;
+    dryRun?: boolean;
+  }
+): Promise<TransactionResult | SimulationResult> => {
+  const action = !unlimited && Number(amount) === 0 ? "revoke" : "approval";
+
+  try {
+    // Validate required parameters
+    if (!tokenAddress) {
+      throw new Error("Token address is required");
+    }
+
+    if (!spenderAddress) {
+      throw new Error("Spender address is required");
+    }
+
+    // Validate addresses
+    if (!ethers.isAddress(spenderAddress)) {
+      throw new Error("Invalid spender address format");
+    }
+
+    if (ethers.getAddress(spenderAddress) === ethers.ZeroAddress) {
+      throw new Error("Cannot approve the zero address");
+    }
+
+    // Refuse to sign unless the RPC serves the configured network
+    await verifyNetwork(client);
+
+    // Accepts a registered symbol as well as an address; metadata comes from the registry cache
+    const token = await resolveToken(client, tokenAddress);
+
+    const signer = getSigner(client);
+    const provider = getProvider(client);
+
+    if (!signer) {
+      throw new Error("Signer not initialized");
+    }
+
+    const signerAddress = await signer.getAddress();
+
+    // Check signer balance for gas fees
+    const signerBalance = await provider.getBalance(signerAddress);
+    if (signerBalance === 0n) {
+      throw new Error("Insufficient balance for gas fees");
+    }
+
+    const tokenContract = new Contract(token.address, erc20Abi, signer);
+
+    const { decimals, symbol } = token;
+
+    const amountInWei = unlimited ? MaxUint256 : parseUnits(amount.toString(), decimals);
+    const label = unlimited ? `unlimited ${symbol}` : `${amount} ${symbol}`;
+
+    const txRequest = await tokenContract.approve.populateTransaction(spenderAddress, amountInWei);
+
+    if (isDryRun(client, dryRun)) {
+      return await simulateTransaction(client, txRequest, { iface: tokenContract.interface });
+    }
+
+    if (action === "revoke") {
+      console.log(`Revoking ${symbol} allowance of ${spenderAddress}...`);
+    } else {
+      console.log(`Approving ${spenderAddress} to spend ${label}...`);
+    }
+
+    const tx = await sendTransaction(client, txRequest);
+    console.log(`Approval transaction sent: ${tx.hash}`);
+
+    // Wait for confirmation
+    const receipt = await waitForTransaction(client, tx);
+
+    console.log(`✅ ${action === "revoke" ? "Revoke" : "Approval"} completed successfully. Transaction hash: ${receipt.hash}`);
+    return await buildTransactionResult(client, receipt);
+
+  } catch (error: any) {
+    if (error instanceof TransactionLifecycleError) {
+      throw error;
+    }
+
+    console.error(`ERC20 ${action} failed:`, error.message);
+
+    // Handle specific error types
+    if (error.code === 'INSUFFICIENT_FUNDS') {
+      throw new Error("Insufficient funds for gas fees");
+    } else if (error.code === 'NETWORK_ERROR') {
+      throw new Error(`Network error during ${action}`);
+    } else if (error.code === 'TIMEOUT') {
+      throw new Error(`${action === "revoke" ? "Revoke" : "Approval"} transaction timed out`);
+    }
+
+    throw new Error(`ERC20 ${action} failed: ${error.message}`);
+  }
+};
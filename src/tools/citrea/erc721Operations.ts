@@ -0,0 +1,308 @@
+import { ethers, Contract } from "ethers";
+import { getSigner, getProvider, getAgentAddress, verifyNetwork, type CitreaClient } from "../../core/client";
+import { sendTransaction, waitForTransaction, TransactionLifecycleError } from "../../core/transactions";
+import { isDryRun, simulateTransaction, type SimulationResult } from "../../core/simulation";
+import { buildTransactionResult, formatRecipient, type TransactionResult } from "../../core/results";
+import { resolveRecipient } from "../../core/contacts";
+import { parseTokenId } from "./nftOperations";
+import { erc721Abi, erc721MintableAbi } from "./abis";
+
+export const getNftOwner = async (
+  client: CitreaClient,
+  {
+    contractAddress,
+    tokenId
+  }: {
+    contractAddress: string;
+    tokenId: string | number;
+  }
+): Promise<string> => {
+  try {
+    if (!ethers.isAddress(contractAddress)) {
+      throw new Error("Invalid NFT contract address format");
+    }
+    const contract = new Contract(contractAddress, erc721Abi, getProvider(client));
+    return ethers.getAddress(await contract.ownerOf(parseTokenId(tokenId)));
+  } catch (error: any) {
+    throw new Error(`Error: ${error.message}`);
+  }
+};
+
+/**
+ * Sends an ERC721 token with safeTransferFrom, so a contract recipient that
+ * cannot handle NFTs makes the transfer revert instead of locking the token.
+ * The agent wallet must own the token or be approved for it.
+ */
+export const transferErc721 = async (
+  client: CitreaClient,
+  {
+    contractAddress,
+    toAddress,
+    tokenId,
+    dryRun
+  }: {
+    contractAddress: string;
+    /** Wallet address or saved contact name */
+    toAddress: string;
+    tokenId: string | number;
+    /** Simulate instead of broadcasting; defaults to the client's mode */
+    dryRun?: boolean;
+  }
+): Promise<TransactionResult | SimulationResult> => {
+  try {
+    // Validate required parameters
+    if (!contractAddress || !ethers.isAddress(contractAddress)) {
+      throw new Error("Invalid NFT contract address format");
+    }
+
+    const id = parseTokenId(tokenId);
+
+    // A saved contact name or an address
+    const recipient = await resolveRecipient(client, toAddress);
+
+    // Refuse to sign unless the RPC serves the configured network
+    await verifyNetwork(client);
+
+    const signer = getSigner(client);
+    const provider = getProvider(client);
+
+    if (!signer) {
+      throw new Error("Signer not initialized");
+    }
+
+    const signerAddress = await signer.getAddress();
+
+    // Check signer balance for gas fees
+    const signerBalance = await provider.getBalance(signerAddress);
+    if (signerBalance === 0n) {
+      throw new Error("Insufficient balance for gas fees");
+    }
+
+    const contract = new Contract(contractAddress, erc721Abi, signer);
+    const owner = ethers.getAddress(await contract.ownerOf(id));
+    if (owner !== signerAddress) {
+      const approved = ethers.getAddress(await contract.getApproved(id)) === signerAddress
+        || await contract.isApprovedForAll(owner, signerAddress);
+      if (!approved) {
+        throw new Error(`Token #${id} is owned by ${owner}, and the agent wallet is not approved to transfer it`);
+      }
+    }
+
+    const symbol: string = await contract.symbol().catch(() => "NFT");
+    const txRequest = await contract.safeTransferFrom.populateTransaction(owner, recipient.address, id);
+
+    if (isDryRun(client, dryRun)) {
+      return await simulateTransaction(client, txRequest, {
+        iface: contract.interface,
+        balanceChanges: owner === signerAddress ? [{ asset: `${symbol} #${id}`, token: ethers.getAddress(contractAddress), amount: "-1" }] : [],
+        recipient,
+      });
+    }
+
+    console.log(`Transferring ${symbol} #${id} to ${formatRecipient(recipient)}...`);
+
+    const tx = await sendTransaction(client, txRequest);
+    console.log(`NFT transfer transaction sent: ${tx.hash}`);
+
+    // Wait for confirmation
+    const receipt = await waitForTransaction(client, tx);
+
+    console.log(`✅ NFT transfer completed successfully. Transaction hash: ${receipt.hash}`);
+    return await buildTransactionResult(client, receipt, { recipient });
+
+  } catch (error: any) {
+    if (error instanceof TransactionLifecycleError) {
+      throw error;
+    }
+
+    console.error("ERC721 transfer failed:", error.message);
+
+    // Handle specific error types
+    if (error.code === 'INSUFFICIENT_FUNDS') {
+      throw new Error("Insufficient funds for gas fees");
+    } else if (error.code === 'NETWORK_ERROR') {
+      throw new Error("Network error during NFT transfer");
+    } else if (error.code === 'TIMEOUT') {
+      throw new Error("NFT transfer transaction timed out");
+    }
+
+    throw new Error(`ERC721 transfer failed: ${error.message}`);
+  }
+};
+
+/** Approves one address to transfer a single ERC721 token; the zero address clears the approval */
+export const approveErc721 = async (
+  client: CitreaClient,
+  {
+    contractAddress,
+    spenderAddress,
+    tokenId,
+    dryRun
+  }: {
+    contractAddress: string;
+    spenderAddress: string;
+    tokenId: string | number;
+    /** Simulate instead of broadcasting; defaults to the client's mode */
+    dryRun?: boolean;
+  }
+): Promise<TransactionResult | SimulationResult> => {
+  try {
+    // Validate required parameters
+    if (!contractAddress || !ethers.isAddress(contractAddress)) {
+      throw new Error("Invalid NFT contract address format");
+    }
+
+    if (!spenderAddress || !ethers.isAddress(spenderAddress)) {
+      throw new Error("Invalid spender address format");
+    }
+
+    const id = parseTokenId(tokenId);
+
+    // Refuse to sign unless the RPC serves the configured network
+    await verifyNetwork(client);
+
+    const signer = getSigner(client);
+
+    if (!signer) {
+      throw new Error("Signer not initialized");
+    }
+
+    const contract = new Contract(contractAddress, erc721Abi, signer);
+    const txRequest = await contract.approve.populateTransaction(spenderAddress, id);
+
+    if (isDryRun(client, dryRun)) {
+      return await simulateTransaction(client, txRequest, { iface: contract.interface });
+    }
+
+    console.log(`Approving ${spenderAddress} to transfer token #${id} of ${contractAddress}...`);
+
+    const tx = await sendTransaction(client, txRequest);
+    console.log(`NFT approval transaction sent: ${tx.hash}`);
+
+    // Wait for confirmation
+    const receipt = await waitForTransaction(client, tx);
+
+    console.log(`✅ NFT approval completed successfully. Transaction hash: ${receipt.hash}`);
+    return await buildTransactionResult(client, receipt);
+
+  } catch (error: any) {
+    if (error instanceof TransactionLifecycleError) {
+      throw error;
+    }
+
+    console.error("ERC721 approval failed:", error.message);
+
+    // Handle specific error types
+    if (error.code === 'INSUFFICIENT_FUNDS') {
+      throw new Error("Insufficient funds for gas fees");
+    } else if (error.code === 'NETWORK_ERROR') {
+      throw new Error("Network error during NFT approval");
+    } else if (error.code === 'TIMEOUT') {
+      throw new Error("NFT approval transaction timed out");
+    }
+
+    throw new Error(`ERC721 approval failed: ${error.message}`);
+  }
+};
+
+/**
+ * Mints the next token of a collection deployed from the ERC721 template
+ * (deploy_nft_collection). Only the collection owner may mint, and a
+ * collection with a max supply stops minting once it is reached.
+ */
+export const mintErc721 = async (
+  client: CitreaClient,
+  {
+    contractAddress,
+    toAddress,
+    dryRun
+  }: {
+    contractAddress: string;
+    /** Wallet address or contact name; defaults to the agent wallet */
+    toAddress?: string;
+    /** Simulate instead of broadcasting; defaults to the client's mode */
+    dryRun?: boolean;
+  }
+): Promise<TransactionResult | SimulationResult> => {
+  try {
+    // Validate required parameters
+    if (!contractAddress || !ethers.isAddress(contractAddress)) {
+      throw new Error("Invalid NFT contract address format");
+    }
+
+    const recipient = toAddress ? await resolveRecipient(client, toAddress) : { address: await getAgentAddress(client) };
+
+    // Refuse to sign unless the RPC serves the configured network
+    await verifyNetwork(client);
+
+    const signer = getSigner(client);
+    const provider = getProvider(client);
+
+    if (!signer) {
+      throw new Error("Signer not initialized");
+    }
+
+    const signerAddress = await signer.getAddress();
+
+    // Check signer balance for gas fees
+    const signerBalance = await provider.getBalance(signerAddress);
+    if (signerBalance === 0n) {
+      throw new Error("Insufficient balance for gas fees");
+    }
+
+    // Checked up front so the LLM gets a reason rather than a bare revert
+    const contract = new Contract(contractAddress, erc721MintableAbi, signer);
+    const symbol: string = await contract.symbol().catch(() => "NFT");
+    const owner = ethers.getAddress(await contract.owner());
+    if (owner !== signerAddress) {
+      throw new Error(`The agent wallet ${signerAddress} is not the owner of ${symbol}, so it cannot mint`);
+    }
+
+    const [maxSupply, totalSupply]: bigint[] = await Promise.all([contract.maxSupply(), contract.totalSupply()]);
+    if (maxSupply !== 0n && totalSupply >= maxSupply) {
+      throw new Error(`${symbol} has reached its max supply of ${maxSupply}`);
+    }
+
+    const id = totalSupply + 1n;
+    const txRequest = await contract.mint.populateTransaction(recipient.address);
+
+    if (isDryRun(client, dryRun)) {
+      return await simulateTransaction(client, txRequest, {
+        iface: contract.interface,
+        balanceChanges: recipient.address === signerAddress
+          ? [{ asset: `${symbol} #${id}`, token: ethers.getAddress(contractAddress), amount: "+1" }]
+          : [],
+        recipient,
+      });
+    }
+
+    console.log(`Minting ${symbol} #${id} to ${formatRecipient(recipient)}...`);
+
+    const tx = await sendTransaction(client, txRequest);
+    console.log(`NFT mint transaction sent: ${tx.hash}`);
+
+    // Wait for confirmation
+    const receipt = await waitForTransaction(client, tx);
+
+    console.log(`✅ NFT mint completed successfully. Transaction hash: ${receipt.hash}`);
+    return await buildTransactionResult(client, receipt, { recipient });
+
+  } catch (error: any) {
+    if (error instanceof TransactionLifecycleError) {
+      throw error;
+    }
+
+    console.error("ERC721 mint failed:", error.message);
+
+    // Handle specific error types
+    if (error.code === 'INSUFFICIENT_FUNDS') {
+      throw new Error("Insufficient funds for gas fees");
+    } else if (error.code === 'NETWORK_ERROR') {
+      throw new Error("Network error during NFT mint");
+    } else if (error.code === 'TIMEOUT') {
+      throw new Error("NFT mint transaction timed out");
+    }
+
+    throw new Error(`ERC721 mint failed: ${error.message}`);
+  }
+};
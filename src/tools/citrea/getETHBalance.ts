@@ -1,14 +1,17 @@
 import { ethers } from "ethers";
-import { getProvider, getAgentAddress } from "../../core/client";
+import { getProvider, getAgentAddress, type CitreaClient } from "../../core/client";
 
-export const getETHBalance = async ({ 
-  walletAddress
-}: { 
-  walletAddress?: string;
-}): Promise<string> => {
+export const getETHBalance = async (
+  client: CitreaClient,
+  {
+    walletAddress
+  }: {
+    walletAddress?: string;
+  }
+): Promise<string> => {
   try {
-    const provider = getProvider();
-    const agentAddress = getAgentAddress();
+    const provider = getProvider(client);
+    const agentAddress = await getAgentAddress(client);
     
     // Validate wallet address if provided
     if (walletAddress && !ethers.isAddress(walletAddress)) {
@@ -1,17 +1,21 @@
 import { ethers, Contract } from "ethers";
-import { getProvider, getAgentAddress } from "../../core/client";
+import { getProvider, getAgentAddress, type CitreaClient } from "../../core/client";
+import { resolveToken } from "../../core/tokens";
 import { erc20Abi } from "./abis";
 
-export const getErc20Balance = async ({ 
-  tokenAddress,
-  walletAddress
-}: { 
-  tokenAddress: string;
-  walletAddress?: string;
-}): Promise<string> => {
+export const getErc20Balance = async (
+  client: CitreaClient,
+  {
+    tokenAddress,
+    walletAddress
+  }: {
+    tokenAddress: string;
+    walletAddress?: string;
+  }
+): Promise<string> => {
   try {
-    const provider = getProvider();
-    const agentAddress = getAgentAddress();
+    const provider = getProvider(client);
+    const agentAddress = await getAgentAddress(client);
     
     // Validate wallet address if provided
     if (walletAddress && !ethers.isAddress(walletAddress)) {
@@ -23,30 +27,22 @@ export const getErc20Balance = async ({
       throw new Error("Token address is required");
     }
     
-    if (!ethers.isAddress(tokenAddress)) {
-      throw new Error("Invalid token address format");
-    }
-    
     const addressToCheck = walletAddress || agentAddress;
     
     if (!provider) {
       throw new Error("Provider not initialized");
     }
 
-    const tokenContract = new Contract(tokenAddress, erc20Abi, provider);
+    // Symbol or address; decimals and symbol come from the registry cache
+    const { address, decimals, symbol } = await resolveToken(client, tokenAddress);
+    const tokenContract = new Contract(address, erc20Abi, provider);
     const balanceOfFunction = tokenContract.balanceOf;
-    const decimalsFunction = tokenContract.decimals;
-    const symbolFunction = tokenContract.symbol;
     
-    if (!balanceOfFunction || !decimalsFunction || !symbolFunction) {
+    if (!balanceOfFunction) {
       throw new Error('Required functions not available on token contract');
     }
     
-    const [balance, decimals, symbol] = await Promise.all([
-        balanceOfFunction(addressToCheck),
-        decimalsFunction(),
-        symbolFunction()
-    ]);
+    const balance = await balanceOfFunction(addressToCheck);
 
     const formattedBalance = ethers.formatUnits(balance, decimals);
     const numericBalance = parseFloat(formattedBalance);
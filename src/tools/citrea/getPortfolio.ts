@@ -0,0 +1,142 @@
+import { ethers, Contract, Interface } from "ethers";
+import { getProvider, getAgentAddress, type CitreaClient } from "../../core/client";
+import { resolveToken, type TokenInfo } from "../../core/tokens";
+import { getMulticallAddress } from "./batchOperations";
+import { erc20Abi, multicall3Abi } from "./abis";
+
+// balanceOf reads packed into one aggregate3 eth_call
+const MULTICALL_CHUNK_SIZE = 200;
+
+const erc20 = new Interface(erc20Abi);
+const multicall3 = new Interface(multicall3Abi);
+
+export interface PortfolioBalance {
+  /** "CBTC" for the native coin, otherwise the token address */
+  token: string;
+  symbol: string;
+  /** Balance in base units */
+  raw: bigint;
+  /** Balance in whole units */
+  formatted: string;
+}
+
+/**
+ * CBTC plus every token the client knows about: registered tokens, tokens
+ * whose metadata was read from chain this session, and any passed in
+ * `tokens`. Balances are read through Multicall3 in as few calls as
+ * possible, or one by one where it is not deployed. A token whose balance
+ * cannot be read is left out.
+ */
+export const getPortfolio = async (
+  client: CitreaClient,
+  {
+    walletAddress,
+    tokens = [],
+    includeZero = false
+  }: {
+    walletAddress?: string | null;
+    /** Extra token addresses or symbols to include */
+    tokens?: string[];
+    /** Also list assets with a zero balance */
+    includeZero?: boolean;
+  } = {}
+): Promise<PortfolioBalance[]> => {
+  try {
+    // Validate wallet address if provided
+    if (walletAddress && !ethers.isAddress(walletAddress)) {
+      throw new Error("Invalid wallet address format");
+    }
+
+    const owner = walletAddress ? ethers.getAddress(walletAddress) : await getAgentAddress(client);
+    const assets = await collectTokens(client, tokens);
+
+    const multicallAddress = await getMulticallAddress(client);
+    const [native, tokenBalances] = multicallAddress
+      ? await readWithMulticall(client, multicallAddress, owner, assets)
+      : await readOneByOne(client, owner, assets);
+
+    const balances: PortfolioBalance[] = [
+      { token: "CBTC", symbol: "CBTC", raw: native, formatted: ethers.formatEther(native) },
+    ];
+    assets.forEach((asset, i) => {
+      const raw = tokenBalances[i];
+      if (raw !== null) {
+        balances.push({ token: asset.address, symbol: asset.symbol, raw, formatted: ethers.formatUnits(raw, asset.decimals) });
+      }
+    });
+
+    return includeZero ? balances : balances.filter((balance) => balance.raw !== 0n);
+  } catch (error: any) {
+    throw new Error(`Error: ${error.message}`);
+  }
+};
+
+/** JSON for tool output, with raw amounts as strings */
+export const formatPortfolio = (balances: PortfolioBalance[]): string =>
+  JSON.stringify(balances.map((balance) => ({ ...balance, raw: balance.raw.toString() })));
+
+// Registry and discovered tokens plus the requested ones, once per address
+const collectTokens = async (client: CitreaClient, extra: string[]): Promise<TokenInfo[]> => {
+  const chainId = client.network.chainId;
+  const requested = await Promise.all(extra.map((token) => resolveToken(client, token)));
+  const all = [
+    ...(await client.tokens.list(chainId)),
+    ...(await client.tokens.discovered(chainId)),
+    ...requested,
+  ];
+
+  const unique = new Map<string, TokenInfo>();
+  for (const token of all) {
+    const address = ethers.getAddress(token.address);
+    if (!unique.has(address)) {
+      unique.set(address, { ...token, address });
+    }
+  }
+  return [...unique.values()];
+};
+
+// The CBTC balance and one balance per token, null where balanceOf failed
+const readWithMulticall = async (
+  client: CitreaClient,
+  multicallAddress: string,
+  owner: string,
+  assets: TokenInfo[]
+): Promise<[bigint, (bigint | null)[]]> => {
+  const contract = new Contract(multicallAddress, multicall3Abi, getProvider(client));
+  const calls = [
+    { target: multicallAddress, allowFailure: true, callData: multicall3.encodeFunctionData("getEthBalance", [owner]) },
+    ...assets.map((asset) => ({ target: asset.address, allowFailure: true, callData: erc20.encodeFunctionData("balanceOf", [owner]) })),
+  ];
+
+  const results: { success: boolean; returnData: string }[] = [];
+  for (let i = 0; i < calls.length; i += MULTICALL_CHUNK_SIZE) {
+    results.push(...await contract.aggregate3.staticCall(calls.slice(i, i + MULTICALL_CHUNK_SIZE)));
+  }
+
+  const [native, ...tokens] = results.map(({ success, returnData }) => {
+    if (!success) {
+      return null;
+    }
+    try {
+      return erc20.decodeFunctionResult("balanceOf", returnData)[0] as bigint;
+    } catch {
+      // Not an ERC20, e.g. a contract with a fallback that returns nothing
+      return null;
+    }
+  });
+  return [native ?? await getProvider(client).getBalance(owner), tokens];
+};
+
+const readOneByOne = async (client: CitreaClient, owner: string, assets: TokenInfo[]): Promise<[bigint, (bigint | null)[]]> => {
+  const provider = getProvider(client);
+  return await Promise.all([
+    provider.getBalance(owner),
+    Promise.all(assets.map(async (asset) => {
+      try {
+        return await new Contract(asset.address, erc20Abi, provider).balanceOf(owner) as bigint;
+      } catch {
+        return null;
+      }
+    })),
+  ]);
+};
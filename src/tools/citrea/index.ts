@@ -1,11 +1,52 @@
 export { getETHBalance } from "./getETHBalance";
 export { getErc20Balance } from "./getErc20Balance";
+export { getPortfolio, formatPortfolio, type PortfolioBalance } from "./getPortfolio";
 export { deployContract } from "./deployContract";
-export { transferErc20, burnErc20 } from "./erc20Operations";
+export { deployErc20Token, deployNftCollection } from "./deployTemplates";
+export { citreaERC20Artifact, citreaERC721Artifact } from "./templateArtifacts";
+export {
+  transferErc20,
+  burnErc20,
+  mintErc20,
+  getMintAuthority,
+  approveErc20,
+  revokeAllowance,
+  getAllowance
+} from "./erc20Operations";
+export { signPermit, supportsPermit, getPermitDomain, createPermit, type PermitMessage, type SignedPermit } from "./permitOperations";
 export { transferETH } from "./ETHOperations";
+export {
+  detectNftStandard,
+  getNftBalance,
+  getNftMetadata,
+  setNftApprovalForAll,
+  type NftStandard,
+  type NftMetadata
+} from "./nftOperations";
+export { getNftOwner, transferErc721, approveErc721, mintErc721 } from "./erc721Operations";
+export { transferErc1155 } from "./erc1155Operations";
+export { saveContact, lookupContact, listContacts } from "./contactOperations";
+export {
+  batchTransfer,
+  getMulticallAddress,
+  parseTransferCsv,
+  formatBatchTransferReport,
+  type BatchTransferRow,
+  type BatchRowResult,
+  type BatchRowStatus,
+  type BatchTransferReport
+} from "./batchOperations";
 export {
   swapExactTokensForTokens,
   swapTokensForExactTokens,
   exactInputSingle,
-  exactOutputSingle
-} from "./swapOperations";
\ No newline at end of file
+  exactOutputSingle,
+  exactInput,
+  exactOutput,
+  SwapError,
+  type SwapSentTransactions
+} from "./swapOperations";
+export { wrapCBTC, unwrapCBTC, getWrappedBalance } from "./wrapOperations";
+export { quoteSwap, formatSwapQuote, type QuoteSwapParams, type SwapQuote, type SwapProtocol } from "./quoteSwap";
+export { V3_FEE_TIERS, validateV3Route, encodeV3Path, isNativeCBTC, resolveRouteTokens } from "./swapPath";
+export { resolveSwapBounds, getSlippageBps, DEFAULT_SLIPPAGE_BPS, DEFAULT_MAX_SLIPPAGE_BPS } from "./swapSlippage";
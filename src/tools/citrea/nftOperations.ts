@@ -0,0 +1,255 @@
+import { ethers, Contract } from "ethers";
+import { getSigner, getProvider, verifyNetwork, getAgentAddress, type CitreaClient } from "../../core/client";
+import { sendTransaction, waitForTransaction, TransactionLifecycleError } from "../../core/transactions";
+import { isDryRun, simulateTransaction, type SimulationResult } from "../../core/simulation";
+import { buildTransactionResult, type TransactionResult } from "../../core/results";
+import { erc721Abi, erc1155Abi } from "./abis";
+
+export type NftStandard = "erc721" | "erc1155";
+
+// ERC165 interface IDs
+const ERC721_INTERFACE_ID = "0x80ac58cd";
+const ERC1155_INTERFACE_ID = "0xd9b67a26";
+
+const IPFS_GATEWAY = "https://ipfs.io/ipfs/";
+const METADATA_TIMEOUT_MS = 10_000;
+
+export interface NftMetadata {
+  standard: NftStandard;
+  contractAddress: string;
+  tokenId: string;
+  /** The URI as returned by the contract, with the ERC1155 {id} placeholder filled in */
+  uri: string;
+  /** The metadata JSON; absent when it could not be fetched or parsed */
+  metadata?: Record<string, any>;
+  error?: string;
+}
+
+/** Token IDs are uint256; accepts decimal or 0x-prefixed hex */
+export const parseTokenId = (tokenId: string | number | bigint): bigint => {
+  let id: bigint;
+  try {
+    id = BigInt(tokenId);
+  } catch {
+    throw new Error(`Invalid token ID ${tokenId}`);
+  }
+  if (id < 0n || id > ethers.MaxUint256) {
+    throw new Error(`Invalid token ID ${tokenId}`);
+  }
+  return id;
+};
+
+/** Which NFT standard a contract implements, from its ERC165 supportsInterface */
+export const detectNftStandard = async (client: CitreaClient, contractAddress: string): Promise<NftStandard> => {
+  if (!ethers.isAddress(contractAddress)) {
+    throw new Error("Invalid NFT contract address format");
+  }
+  const contract = new Contract(contractAddress, erc721Abi, getProvider(client));
+  const supports = (interfaceId: string): Promise<boolean> => contract.supportsInterface(interfaceId).catch(() => false);
+
+  if (await supports(ERC721_INTERFACE_ID)) {
+    return "erc721";
+  }
+  if (await supports(ERC1155_INTERFACE_ID)) {
+    return "erc1155";
+  }
+  throw new Error(`${contractAddress} does not report ERC721 or ERC1155 support through ERC165`);
+};
+
+/**
+ * NFT balance of a wallet (the agent wallet by default). ERC721 counts the
+ * tokens held in the collection; ERC1155 needs the token ID.
+ */
+export const getNftBalance = async (
+  client: CitreaClient,
+  {
+    contractAddress,
+    tokenId,
+    walletAddress
+  }: {
+    contractAddress: string;
+    /** Required for ERC1155 */
+    tokenId?: string | number | null;
+    walletAddress?: string | null;
+  }
+): Promise<string> => {
+  try {
+    if (walletAddress && !ethers.isAddress(walletAddress)) {
+      throw new Error("Invalid wallet address format");
+    }
+
+    const owner = walletAddress || await getAgentAddress(client);
+    const standard = await detectNftStandard(client, contractAddress);
+
+    if (standard === "erc721") {
+      const contract = new Contract(contractAddress, erc721Abi, getProvider(client));
+      const [balance, symbol] = await Promise.all([
+        contract.balanceOf(owner),
+        contract.symbol().catch(() => "NFT"),
+      ]);
+      return `${balance} ${symbol}`;
+    }
+
+    if (tokenId === undefined || tokenId === null || tokenId === "") {
+      throw new Error("A token ID is required for ERC1155 balances");
+    }
+    const id = parseTokenId(tokenId);
+    const contract = new Contract(contractAddress, erc1155Abi, getProvider(client));
+    return `${await contract.balanceOf(owner, id)} of token #${id}`;
+  } catch (error: any) {
+    throw new Error(`Error: ${error.message}`);
+  }
+};
+
+/**
+ * Reads tokenURI (ERC721) or uri (ERC1155) and fetches the metadata JSON.
+ * data: URIs are decoded locally, ipfs:// goes through a public gateway, and
+ * http(s) URLs are fetched with a timeout. A failed fetch is reported in
+ * `error` instead of thrown, since the URI itself is still useful.
+ */
+export const getNftMetadata = async (
+  client: CitreaClient,
+  {
+    contractAddress,
+    tokenId,
+    fetchMetadata = true,
+    ipfsGateway = IPFS_GATEWAY
+  }: {
+    contractAddress: string;
+    tokenId: string | number;
+    /** Only return the URI */
+    fetchMetadata?: boolean;
+    ipfsGateway?: string;
+  }
+): Promise<NftMetadata> => {
+  try {
+    const id = parseTokenId(tokenId);
+    const standard = await detectNftStandard(client, contractAddress);
+
+    let uri: string;
+    if (standard === "erc721") {
+      uri = await new Contract(contractAddress, erc721Abi, getProvider(client)).tokenURI(id);
+    } else {
+      // ERC1155 clients substitute the lower-case, 64-digit hex ID
+      const template: string = await new Contract(contractAddress, erc1155Abi, getProvider(client)).uri(id);
+      uri = template.replace(/\{id\}/g, id.toString(16).padStart(64, "0"));
+    }
+
+    const result: NftMetadata = { standard, contractAddress: ethers.getAddress(contractAddress), tokenId: id.toString(), uri };
+    if (!fetchMetadata) {
+      return result;
+    }
+
+    try {
+      result.metadata = await readMetadata(uri, ipfsGateway);
+    } catch (error: any) {
+      result.error = `Could not load metadata: ${error.message}`;
+    }
+    return result;
+  } catch (error: any) {
+    throw new Error(`Error: ${error.message}`);
+  }
+};
+
+/** Grants or revokes an operator's right to move all of the agent wallet's NFTs in a collection (ERC721 and ERC1155) */
+export const setNftApprovalForAll = async (
+  client: CitreaClient,
+  {
+    contractAddress,
+    operatorAddress,
+    approved,
+    dryRun
+  }: {
+    contractAddress: string;
+    operatorAddress: string;
+    approved: boolean;
+    /** Simulate instead of broadcasting; defaults to the client's mode */
+    dryRun?: boolean;
+  }
+): Promise<TransactionResult | SimulationResult> => {
+  const action = approved ? "approval" : "revoke";
+
+  try {
+    if (!operatorAddress || !ethers.isAddress(operatorAddress)) {
+      throw new Error("Invalid operator address format");
+    }
+
+    // Refuse to sign unless the RPC serves the configured network
+    await verifyNetwork(client);
+
+    const standard = await detectNftStandard(client, contractAddress);
+    const signer = getSigner(client);
+    if (!signer) {
+      throw new Error("Signer not initialized");
+    }
+
+    const contract = new Contract(contractAddress, standard === "erc721" ? erc721Abi : erc1155Abi, signer);
+    const txRequest = await contract.setApprovalForAll.populateTransaction(operatorAddress, approved);
+
+    if (isDryRun(client, dryRun)) {
+      return await simulateTransaction(client, txRequest, { iface: contract.interface });
+    }
+
+    console.log(`${approved ? "Approving" : "Revoking"} ${operatorAddress} as operator for all NFTs of ${contractAddress}...`);
+
+    const tx = await sendTransaction(client, txRequest);
+    console.log(`Operator ${action} transaction sent: ${tx.hash}`);
+
+    // Wait for confirmation
+    const receipt = await waitForTransaction(client, tx);
+
+    console.log(`✅ Operator ${action} completed successfully. Transaction hash: ${receipt.hash}`);
+    return await buildTransactionResult(client, receipt);
+
+  } catch (error: any) {
+    if (error instanceof TransactionLifecycleError) {
+      throw error;
+    }
+
+    console.error(`NFT operator ${action} failed:`, error.message);
+
+    // Handle specific error types
+    if (error.code === 'INSUFFICIENT_FUNDS') {
+      throw new Error("Insufficient funds for gas fees");
+    } else if (error.code === 'NETWORK_ERROR') {
+      throw new Error(`Network error during operator ${action}`);
+    } else if (error.code === 'TIMEOUT') {
+      throw new Error(`Operator ${action} transaction timed out`);
+    }
+
+    throw new Error(`NFT operator ${action} failed: ${error.message}`);
+  }
+};
+
+const readMetadata = async (uri: string, ipfsGateway: string): Promise<Record<string, any>> => {
+  if (uri.startsWith("data:")) {
+    return JSON.parse(decodeDataUri(uri));
+  }
+
+  const url = uri.startsWith("ipfs://")
+    ? `${ipfsGateway.replace(/\/?$/, "/")}${uri.slice("ipfs://".length).replace(/^ipfs\//, "")}`
+    : uri;
+  // The URI comes from the contract, so nothing but plain web URLs is followed
+  if (!/^https?:\/\//i.test(url)) {
+    throw new Error(`unsupported URI scheme in ${uri}`);
+  }
+
+  const response = await fetch(url, { signal: AbortSignal.timeout(METADATA_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`${url} returned HTTP ${response.status}`);
+  }
+  return await response.json() as Record<string, any>;
+};
+
+// data:[<mediatype>][;base64],<data>
+const decodeDataUri = (uri: string): string => {
+  const comma = uri.indexOf(",");
+  if (comma === -1) {
+    throw new Error("malformed data URI");
+  }
+  const header = uri.slice("data:".length, comma);
+  const data = uri.slice(comma + 1);
+  return header.split(";").includes("base64")
+    ? Buffer.from(data, "base64").toString("utf8")
+    : decodeURIComponent(data);
+};
@@ -0,0 +1,195 @@
+import { ethers, Contract, Signature, TypedDataEncoder, parseUnits, type TypedDataDomain } from "ethers";
+import { getSigner, getProvider, getAgentAddress, verifyNetwork, type CitreaClient } from "../../core/client";
+import { isDryRun } from "../../core/simulation";
+import { resolveToken } from "../../core/tokens";
+import { erc20PermitAbi } from "./abis";
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/** The EIP-2612 Permit message, before it is signed */
+export interface PermitMessage {
+  token: string;
+  owner: string;
+  spender: string;
+  value: bigint;
+  nonce: bigint;
+  /** Unix timestamp in seconds */
+  deadline: number;
+}
+
+export interface SignedPermit extends PermitMessage {
+  v: number;
+  r: string;
+  s: string;
+  /** The packed 65-byte signature */
+  signature: string;
+}
+
+export const isPermitMessage = (value: unknown): value is PermitMessage =>
+  typeof value === "object" && value !== null &&
+  typeof (value as PermitMessage).spender === "string" &&
+  typeof (value as PermitMessage).nonce === "bigint";
+
+/**
+ * The token's EIP-712 domain if it implements EIP-2612, or null. A token
+ * counts as supporting permit when it exposes DOMAIN_SEPARATOR and nonces,
+ * and the domain rebuilt from name/version matches its DOMAIN_SEPARATOR,
+ * so a signature made here is one the token will accept.
+ */
+export const getPermitDomain = async (client: CitreaClient, token: string): Promise<TypedDataDomain | null> => {
+  const tokenContract = new Contract(token, erc20PermitAbi, getProvider(client));
+  const owner = await getAgentAddress(client);
+
+  let separator: string;
+  try {
+    [separator] = await Promise.all([tokenContract.DOMAIN_SEPARATOR(), tokenContract.nonces(owner)]);
+  } catch {
+    return null;
+  }
+
+  const candidates: TypedDataDomain[] = [];
+  try {
+    // EIP-5267 tokens describe their own domain
+    const [, name, version, chainId, verifyingContract] = await tokenContract.eip712Domain();
+    candidates.push({ name, version, chainId, verifyingContract });
+  } catch {
+    const name: string = await tokenContract.name().catch(() => "");
+    const version: string | null = await tokenContract.version().catch(() => null);
+    // Most OpenZeppelin tokens use version "1" without exposing version()
+    for (const candidate of version ? [version] : ["1", "2"]) {
+      candidates.push({ name, version: candidate, chainId: client.network.chainId, verifyingContract: ethers.getAddress(token) });
+    }
+  }
+
+  return candidates.find((domain) => TypedDataEncoder.hashDomain(domain) === separator) ?? null;
+};
+
+export const supportsPermit = async (client: CitreaClient, token: string): Promise<boolean> =>
+  (await getPermitDomain(client, token)) !== null;
+
+/**
+ * Signs an EIP-2612 permit for `value` base units. Throws if the token does
+ * not support permit; callers that can send an approval instead should check
+ * getPermitDomain first.
+ */
+export const createPermit = async (
+  client: CitreaClient,
+  { token, spender, value, deadline }: { token: string; spender: string; value: bigint; deadline: number }
+): Promise<SignedPermit> => {
+  const domain = await getPermitDomain(client, token);
+  if (!domain) {
+    throw new Error(`Token ${token} does not support EIP-2612 permit`);
+  }
+
+  const message = await buildPermitMessage(client, { token, spender, value, deadline });
+  const signature = await getSigner(client).signTypedData(domain, PERMIT_TYPES, {
+    owner: message.owner,
+    spender: message.spender,
+    value: message.value,
+    nonce: message.nonce,
+    deadline: message.deadline,
+  });
+  const { v, r, s } = Signature.from(signature);
+  return { ...message, v, r, s, signature };
+};
+
+export const signPermit = async (
+  client: CitreaClient,
+  {
+    tokenAddress,
+    spenderAddress,
+    amount,
+    deadline,
+    dryRun
+  }: {
+    tokenAddress: string;
+    spenderAddress: string;
+    amount: string | number;
+    /** Unix timestamp in seconds (default: current time + 20 minutes) */
+    deadline?: number;
+    /** Return the unsigned permit instead of signing it; defaults to the client's mode */
+    dryRun?: boolean;
+  }
+): Promise<SignedPermit | PermitMessage> => {
+  try {
+    // Validate required parameters
+    if (!tokenAddress) {
+      throw new Error("Token address is required");
+    }
+
+    if (!spenderAddress) {
+      throw new Error("Spender address is required");
+    }
+
+    if (!amount || Number(amount) <= 0) {
+      throw new Error("Amount must be greater than 0");
+    }
+
+    if (!ethers.isAddress(spenderAddress)) {
+      throw new Error("Invalid spender address format");
+    }
+
+    const finalDeadline = deadline || Math.floor(Date.now() / 1000) + (20 * 60);
+    if (finalDeadline <= Math.floor(Date.now() / 1000)) {
+      throw new Error("Deadline must be in the future");
+    }
+
+    // The signature is bound to the chain ID, so it must match the RPC's
+    await verifyNetwork(client);
+
+    const token = await resolveToken(client, tokenAddress);
+    const value = parseUnits(amount.toString(), token.decimals);
+    const request = { token: token.address, spender: ethers.getAddress(spenderAddress), value, deadline: finalDeadline };
+
+    if (isDryRun(client, dryRun)) {
+      if (!(await getPermitDomain(client, token.address))) {
+        throw new Error(`Token ${token.address} does not support EIP-2612 permit`);
+      }
+      return await buildPermitMessage(client, request);
+    }
+
+    const permit = await createPermit(client, request);
+    console.log(`✅ Permit signed for ${spenderAddress} to spend ${amount} ${token.symbol} until ${new Date(finalDeadline * 1000).toISOString()}`);
+    return permit;
+
+  } catch (error: any) {
+    console.error("Permit signing failed:", error.message);
+
+    if (error.message.includes("does not support EIP-2612")) {
+      throw new Error(`${error.message}; use approve_erc20 instead`);
+    }
+
+    throw new Error(`Permit signing failed: ${error.message}`);
+  }
+};
+
+/** Compact JSON for tool output, with the signature parts a relayer needs to call permit() */
+export const formatPermit = (permit: SignedPermit | PermitMessage): string =>
+  JSON.stringify({
+    status: "signature" in permit ? "signed" : "unsigned (simulation)",
+    token: permit.token,
+    owner: permit.owner,
+    spender: permit.spender,
+    value: permit.value.toString(),
+    nonce: permit.nonce.toString(),
+    deadline: permit.deadline,
+    ...("signature" in permit && { v: permit.v, r: permit.r, s: permit.s, signature: permit.signature }),
+  });
+
+const buildPermitMessage = async (
+  client: CitreaClient,
+  { token, spender, value, deadline }: { token: string; spender: string; value: bigint; deadline: number }
+): Promise<PermitMessage> => {
+  const owner = await getAgentAddress(client);
+  const tokenContract = new Contract(token, erc20PermitAbi, getProvider(client));
+  const nonce: bigint = await tokenContract.nonces(owner);
+  return { token, owner, spender, value, nonce, deadline };
+};
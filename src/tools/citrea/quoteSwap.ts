@@ -0,0 +1,184 @@
+import { ethers, Contract } from "ethers";
+import { getProvider, getAgentAddress, type CitreaClient } from "../../core/client";
+import { getContractAddress } from "../../core/networks";
+import { resolveToken, type TokenInfo } from "../../core/tokens";
+import { encodeV3Path, resolveRouteTokens, validateV3Route } from "./swapPath";
+import { quoterV2Abi, universalRouterAbi, v2RouterQuoteAbi } from "./abis";
+
+// V2 pools take a flat 0.3% on every hop
+const V2_FEE = 3000;
+
+export type SwapProtocol = "v2" | "v3";
+
+export interface QuoteSwapParams {
+  /** Token addresses or registry symbols, from the input token to the output token; CBTC is quoted as WCBTC */
+  path: string[];
+  /** Exact amount to sell; quotes the output. Give this or amountOut. */
+  amountIn?: string;
+  /** Exact amount to buy; quotes the required input */
+  amountOut?: string;
+  /** Default: "v2" */
+  protocol?: SwapProtocol;
+  /** V3 fee tier of each hop (500, 3000 or 10000) */
+  fees?: number[];
+}
+
+export interface SwapQuote {
+  protocol: SwapProtocol;
+  /** exactInput quotes the output of a fixed input; exactOutput the input a fixed output needs */
+  type: "exactInput" | "exactOutput";
+  /** Token addresses from input to output */
+  path: string[];
+  /** Fee tier of each hop in hundredths of a basis point */
+  fees: number[];
+  tokenIn: Pick<TokenInfo, "address" | "symbol" | "decimals">;
+  tokenOut: Pick<TokenInfo, "address" | "symbol" | "decimals">;
+  /** Amounts in whole units */
+  amountIn: string;
+  amountOut: string;
+  /** Amounts in base units */
+  amountInRaw: bigint;
+  amountOutRaw: bigint;
+  /** Output tokens received per input token */
+  executionPrice: string;
+  /** Gas units for the swap; null when the router cannot estimate it yet, e.g. before the input token is approved */
+  gasEstimate: bigint | null;
+}
+
+/**
+ * Quotes a swap without sending anything: the output of an exact input, or
+ * the input an exact output needs. V2 routes are priced by the router's
+ * getAmountsOut / getAmountsIn, V3 routes by the network's QuoterV2, one pool
+ * per hop at the given fee tiers.
+ */
+export const quoteSwap = async (
+  client: CitreaClient,
+  {
+    path: route,
+    amountIn,
+    amountOut,
+    protocol = "v2",
+    fees = []
+  }: QuoteSwapParams
+): Promise<SwapQuote> => {
+  try {
+    if (!route || route.length < 2) {
+      throw new Error("Path must contain at least 2 tokens");
+    }
+
+    if (!amountIn === !amountOut) {
+      throw new Error("Give either amountIn or amountOut");
+    }
+
+    const amount = (amountIn ?? amountOut)!;
+    if (Number(amount) <= 0) {
+      throw new Error("Amount must be greater than 0");
+    }
+
+    if (protocol === "v3") {
+      validateV3Route(route, fees);
+    }
+
+    const path = await resolveRouteTokens(client, route);
+    const [tokenIn, tokenOut] = await Promise.all([resolveToken(client, path[0]), resolveToken(client, path[path.length - 1])]);
+
+    const exactInput = amountIn !== undefined;
+    const fixed = exactInput ? ethers.parseUnits(amount, tokenIn.decimals) : ethers.parseUnits(amount, tokenOut.decimals);
+
+    const { quoted, gasEstimate } = protocol === "v3"
+      ? await quoteV3(client, path, fees, fixed, exactInput)
+      : await quoteV2(client, path, fixed, exactInput);
+
+    const amountInRaw = exactInput ? fixed : quoted;
+    const amountOutRaw = exactInput ? quoted : fixed;
+
+    return {
+      protocol,
+      type: exactInput ? "exactInput" : "exactOutput",
+      path,
+      fees: protocol === "v3" ? fees : path.slice(1).map(() => V2_FEE),
+      tokenIn: { address: tokenIn.address, symbol: tokenIn.symbol, decimals: tokenIn.decimals },
+      tokenOut: { address: tokenOut.address, symbol: tokenOut.symbol, decimals: tokenOut.decimals },
+      amountIn: ethers.formatUnits(amountInRaw, tokenIn.decimals),
+      amountOut: ethers.formatUnits(amountOutRaw, tokenOut.decimals),
+      amountInRaw,
+      amountOutRaw,
+      executionPrice: executionPrice(amountInRaw, tokenIn.decimals, amountOutRaw, tokenOut.decimals),
+      gasEstimate,
+    };
+  } catch (error: any) {
+    if (error.code === 'CALL_EXCEPTION') {
+      throw new Error(`Quote failed: the route ${route.join(" → ")} has no pool or not enough liquidity`);
+    }
+    throw new Error(`Quote failed: ${error.message}`);
+  }
+};
+
+/** JSON for tool output, with raw amounts and gas as strings */
+export const formatSwapQuote = (quote: SwapQuote): string =>
+  JSON.stringify({
+    ...quote,
+    amountInRaw: quote.amountInRaw.toString(),
+    amountOutRaw: quote.amountOutRaw.toString(),
+    gasEstimate: quote.gasEstimate?.toString() ?? null,
+  });
+
+interface RawQuote {
+  /** The amount that was not fixed: the output of an exact input, or the input of an exact output */
+  quoted: bigint;
+  gasEstimate: bigint | null;
+}
+
+const quoteV2 = async (client: CitreaClient, path: string[], fixed: bigint, exactInput: boolean): Promise<RawQuote> => {
+  const routerAddress = getContractAddress(client.network, "universalRouter");
+  const router = new Contract(routerAddress, v2RouterQuoteAbi, getProvider(client));
+
+  const amounts: bigint[] = exactInput
+    ? await router.getAmountsOut(fixed, path)
+    : await router.getAmountsIn(fixed, path);
+  const quoted = exactInput ? amounts[amounts.length - 1] : amounts[0];
+
+  // The router only estimates a swap it could execute, so this needs the balance and allowance in place
+  let gasEstimate: bigint | null = null;
+  try {
+    const swapRouter = new Contract(routerAddress, universalRouterAbi, getProvider(client));
+    const agent = await getAgentAddress(client);
+    const txRequest = exactInput
+      ? await swapRouter.swapExactTokensForTokens.populateTransaction(fixed, quoted, path, agent)
+      : await swapRouter.swapTokensForExactTokens.populateTransaction(fixed, quoted, path, agent);
+    gasEstimate = await getProvider(client).estimateGas({ ...txRequest, from: agent });
+  } catch {
+    // Left as null
+  }
+
+  return { quoted, gasEstimate };
+};
+
+const quoteV3 = async (client: CitreaClient, path: string[], fees: number[], fixed: bigint, exactInput: boolean): Promise<RawQuote> => {
+  const quoter = new Contract(getContractAddress(client.network, "quoter"), quoterV2Abi, getProvider(client));
+
+  let result: { gasEstimate: bigint } & ([bigint, ...unknown[]]);
+  if (path.length === 2) {
+    const params = exactInput
+      ? { tokenIn: path[0], tokenOut: path[1], amountIn: fixed, fee: fees[0], sqrtPriceLimitX96: 0 }
+      : { tokenIn: path[0], tokenOut: path[1], amount: fixed, fee: fees[0], sqrtPriceLimitX96: 0 };
+    result = exactInput
+      ? await quoter.quoteExactInputSingle.staticCall(params)
+      : await quoter.quoteExactOutputSingle.staticCall(params);
+  } else {
+    result = exactInput
+      ? await quoter.quoteExactInput.staticCall(encodeV3Path(path, fees), fixed)
+      : await quoter.quoteExactOutput.staticCall(encodeV3Path(path, fees, true), fixed);
+  }
+
+  return { quoted: result[0], gasEstimate: result.gasEstimate };
+};
+
+// amountOut / amountIn in whole units, to 18 decimal places
+const executionPrice = (amountIn: bigint, decimalsIn: number, amountOut: bigint, decimalsOut: number): string => {
+  if (amountIn === 0n) {
+    return "0";
+  }
+  const scaled = (amountOut * 10n ** BigInt(decimalsIn) * 10n ** 18n) / (amountIn * 10n ** BigInt(decimalsOut));
+  return ethers.formatUnits(scaled, 18);
+};
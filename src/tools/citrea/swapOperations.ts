@@ -1,504 +1,658 @@
-import { ethers, parseEther } from "ethers";
-import { getSigner, getProvider } from "../../core/client";
-import { universalRouterAbi } from "./abis";
-
-// Universal Router contract address on Citrea testnet
-const UNIVERSAL_ROUTER_ADDRESS = "0x610c98EAD0df13EA906854b6041122e8A8D14413";
+import { ethers, Contract, Interface, parseUnits, type TransactionRequest } from "ethers";
+import { getSigner, getProvider, getAgentAddress, verifyNetwork, type CitreaClient } from "../../core/client";
+import { sendTransaction, waitForTransaction, TransactionLifecycleError } from "../../core/transactions";
+import { isDryRun, simulateTransaction, type BalanceChange, type SimulationResult } from "../../core/simulation";
+import { buildTransactionResult, type SwapBounds, type TransactionResult } from "../../core/results";
+import { getContractAddress } from "../../core/networks";
+import { resolveToken, type TokenInfo } from "../../core/tokens";
+import { resolveRecipient, type Recipient } from "../../core/contacts";
+import { createPermit, type SignedPermit } from "./permitOperations";
+import { resolveSwapBounds } from "./swapSlippage";
+import { encodeV3Path, isNativeCBTC, resolveRouteTokens, validateV3Route, V3_FEE_TIERS } from "./swapPath";
+import { getWrappedBalance, unwrapCBTC, wrapCBTC } from "./wrapOperations";
+import { erc20Abi, routerDeadlineAbi, routerPermitAbi, universalRouterAbi } from "./abis";
 
 export interface SwapExactTokensForTokensParams {
   amountIn: string;
-  amountOutMin: string;
-  path: string[]; // Array of token addresses
+  amountOutMin?: string; // Omit to derive it from a live quote and slippageBps
+  slippageBps?: number; // Slippage tolerance in basis points (default: the client's swap options)
+  path: string[]; // Array of token addresses or registry symbols; CBTC at either end is wrapped or unwrapped
   to: string;
   deadline?: number; // Optional deadline (default: current time + 20 minutes)
+  dryRun?: boolean; // Simulate instead of broadcasting (default: the client's mode)
+  autoApprove?: boolean; // Approve the router for the input amount first if needed (default: the client's swap options)
 }
 
 export interface SwapTokensForExactTokensParams {
   amountOut: string;
-  amountInMax: string;
-  path: string[]; // Array of token addresses
+  amountInMax?: string; // Omit to derive it from a live quote and slippageBps
+  slippageBps?: number; // Slippage tolerance in basis points (default: the client's swap options)
+  bounds?: SwapBounds; // The bounds a given maximum input was worked out with, reported with the result
+  path: string[]; // Array of token addresses or registry symbols; CBTC at either end is wrapped or unwrapped
   to: string;
   deadline?: number; // Optional deadline (default: current time + 20 minutes)
+  dryRun?: boolean; // Simulate instead of broadcasting (default: the client's mode)
+  autoApprove?: boolean; // Approve the router for the input amount first if needed (default: the client's swap options)
 }
 
 export interface ExactInputSingleParams {
-  tokenIn: string;
-  tokenOut: string;
+  tokenIn: string; // Token address or registry symbol, or CBTC to wrap it first
+  tokenOut: string; // Token address or registry symbol, or CBTC to unwrap the output
   fee: number; // Pool fee (500, 3000, or 10000)
   recipient: string;
   amountIn: string;
-  amountOutMinimum: string;
+  amountOutMinimum?: string; // Omit to derive it from a live quote and slippageBps
+  slippageBps?: number; // Slippage tolerance in basis points (default: the client's swap options)
   sqrtPriceLimitX96?: string; // Optional price limit
+  dryRun?: boolean; // Simulate instead of broadcasting (default: the client's mode)
+  autoApprove?: boolean; // Approve the router for the input amount first if needed (default: the client's swap options)
 }
 
 export interface ExactOutputSingleParams {
-  tokenIn: string;
-  tokenOut: string;
+  tokenIn: string; // Token address or registry symbol, or CBTC to wrap it first
+  tokenOut: string; // Token address or registry symbol, or CBTC to unwrap the output
   fee: number; // Pool fee (500, 3000, or 10000)
   recipient: string;
   amountOut: string;
-  amountInMaximum: string;
+  amountInMaximum?: string; // Omit to derive it from a live quote and slippageBps
+  slippageBps?: number; // Slippage tolerance in basis points (default: the client's swap options)
+  bounds?: SwapBounds; // The bounds a given maximum input was worked out with, reported with the result
   sqrtPriceLimitX96?: string; // Optional price limit
+  dryRun?: boolean; // Simulate instead of broadcasting (default: the client's mode)
+  autoApprove?: boolean; // Approve the router for the input amount first if needed (default: the client's swap options)
 }
 
-/**
- * Swap exact tokens for tokens (V2 style swap)
- */
-export const swapExactTokensForTokens = async ({
-  amountIn,
-  amountOutMin,
-  path,
-  to,
-  deadline
-}: SwapExactTokensForTokensParams): Promise<string> => {
-  try {
-    // Validate required parameters
-    if (!amountIn || Number(amountIn) <= 0) {
-      throw new Error("Amount in must be greater than 0");
-    }
-
-    if (!amountOutMin || Number(amountOutMin) <= 0) {
-      throw new Error("Amount out minimum must be greater than 0");
-    }
-
-    if (!path || path.length < 2) {
-      throw new Error("Path must contain at least 2 token addresses");
-    }
-
-    if (!to) {
-      throw new Error("Recipient address is required");
-    }
-
-    // Validate addresses
-    for (const address of path) {
-      if (!ethers.isAddress(address)) {
-        throw new Error(`Invalid token address in path: ${address}`);
-      }
-    }
-
-    if (!ethers.isAddress(to)) {
-      throw new Error("Invalid recipient address");
-    }
+export interface ExactInputParams {
+  path: string[]; // Token addresses or registry symbols, from the input token to the output token; CBTC at either end is wrapped or unwrapped
+  fees: number[]; // Pool fee of each hop (500, 3000, or 10000), one fewer than the tokens
+  recipient: string;
+  amountIn: string;
+  amountOutMinimum?: string; // Omit to derive it from a live quote and slippageBps
+  slippageBps?: number; // Slippage tolerance in basis points (default: the client's swap options)
+  dryRun?: boolean; // Simulate instead of broadcasting (default: the client's mode)
+  autoApprove?: boolean; // Approve the router for the input amount first if needed (default: the client's swap options)
+}
 
-    const signer = getSigner();
-    const provider = getProvider();
+export interface ExactOutputParams {
+  path: string[]; // Token addresses or registry symbols, from the input token to the output token; CBTC at either end is wrapped or unwrapped
+  fees: number[]; // Pool fee of each hop (500, 3000, or 10000), one fewer than the tokens
+  recipient: string;
+  amountOut: string;
+  amountInMaximum?: string; // Omit to derive it from a live quote and slippageBps
+  slippageBps?: number; // Slippage tolerance in basis points (default: the client's swap options)
+  bounds?: SwapBounds; // The bounds a given maximum input was worked out with, reported with the result
+  dryRun?: boolean; // Simulate instead of broadcasting (default: the client's mode)
+  autoApprove?: boolean; // Approve the router for the input amount first if needed (default: the client's swap options)
+}
 
-    if (!signer) {
-      throw new Error("Signer not initialized");
-    }
+/** Transactions a swap sent before it failed; they stay on chain */
+export interface SwapSentTransactions {
+  /** The router approval, whose allowance the failed swap left unused */
+  approval?: TransactionResult;
+  /** CBTC wrapped for the swap */
+  wrap?: TransactionResult;
+  /** The wrap undone after the swap failed */
+  unwrap?: TransactionResult;
+}
 
-    if (!provider) {
-      throw new Error("Provider not initialized");
-    }
+/**
+ * Raised when a swap fails after sending part of its work, such as the
+ * router approval. The message says what is left on chain, for the LLM to
+ * relay; `sent` has the transaction results.
+ */
+export class SwapError extends Error {
+  constructor(message: string, readonly sent: SwapSentTransactions) {
+    super(message);
+    this.name = 'SwapError';
+  }
+}
 
-    // Convert amounts to wei
-    const amountInWei = parseEther(amountIn);
-    const amountOutMinWei = parseEther(amountOutMin);
+interface RouterApproval {
+  token: string;
+  spender: string;
+  amount: bigint;
+  decimals: number;
+}
 
-    // Set deadline (default: current time + 20 minutes)
-    const currentTimestamp = Math.floor(Date.now() / 1000);
-    const defaultDeadline = currentTimestamp + (20 * 60); // 20 minutes
-    const finalDeadline = deadline || defaultDeadline;
-
-    // Create contract instance
-    const routerContract = new ethers.Contract(
-      UNIVERSAL_ROUTER_ADDRESS,
-      universalRouterAbi,
-      signer
-    );
-
-    console.log(`Swapping ${amountIn} tokens from ${path[0]} to ${path[path.length - 1]}...`);
-
-    // Execute swap
-    const tx = await routerContract.swapExactTokensForTokens(
-      amountInWei,
-      amountOutMinWei,
-      path,
-      to,
-      finalDeadline
-    );
+// The approval a swap needs first: none when auto-approval is off or the allowance already covers `amount`
+const getRequiredApproval = async (
+  client: CitreaClient,
+  { address: token, decimals }: TokenInfo,
+  spender: string,
+  amount: bigint,
+  autoApprove?: boolean
+): Promise<RouterApproval | null> => {
+  if (!(autoApprove ?? client.swapOptions.autoApprove ?? true)) {
+    return null;
+  }
+  const tokenContract = new Contract(token, erc20Abi, getProvider(client));
+  const allowance: bigint = await tokenContract.allowance(await getAgentAddress(client), spender);
+  return allowance >= amount ? null : { token, spender, amount, decimals };
+};
 
-    console.log(`Swap transaction sent: ${tx.hash}`);
+// Approves exactly the swap's input amount and waits for it, so the router can pull the tokens
+const sendApproval = async (client: CitreaClient, { token, spender, amount, decimals }: RouterApproval): Promise<TransactionResult> => {
+  const tokenContract = new Contract(token, erc20Abi, getSigner(client));
+  console.log(`Approving router ${spender} to spend ${ethers.formatUnits(amount, decimals)} of ${token}...`);
 
-    // Wait for confirmation
-    const receipt = await tx.wait();
+  const tx = await sendTransaction(client, await tokenContract.approve.populateTransaction(spender, amount));
+  console.log(`Approval transaction sent: ${tx.hash}`);
 
-    if (!receipt) {
-      throw new Error("Transaction receipt not available");
-    }
+  const receipt = await waitForTransaction(client, tx);
+  return await buildTransactionResult(client, receipt);
+};
 
-    if (receipt.status !== 1) {
-      throw new Error("Swap transaction failed");
-    }
+const routerPermit = new Interface(routerPermitAbi);
+const routerDeadline = new Interface(routerDeadlineAbi);
 
-    console.log(`✅ Swap completed successfully. Transaction hash: ${tx.hash}`);
-    return tx.hash;
+// Wraps a V2 swap in multicall(deadline, data) so the router refuses it once the deadline has passed
+const withDeadline = (txRequest: TransactionRequest, deadline: number): TransactionRequest => ({
+  ...txRequest,
+  data: routerDeadline.encodeFunctionData("multicall", [deadline, [txRequest.data]]),
+});
 
-  } catch (error: any) {
-    console.error("Swap failed:", error.message);
+interface RouterPull {
+  txRequest: TransactionRequest;
+  approval?: TransactionResult;
+  permit?: SignedPermit;
+}
 
-    // Handle specific error types
-    if (error.code === 'INSUFFICIENT_FUNDS') {
-      throw new Error("Insufficient funds for swap");
-    } else if (error.code === 'NETWORK_ERROR') {
-      throw new Error("Network error during swap");
-    } else if (error.code === 'TIMEOUT') {
-      throw new Error("Swap transaction timed out");
-    } else if (error.message.includes("insufficient")) {
-      throw new Error("Insufficient token balance for swap");
-    } else if (error.message.includes("allowance") || error.message.includes("approve")) {
-      throw new Error("Token approval required for swap");
+/**
+ * Lets the router pull the input tokens: a permit bundled into the swap with
+ * selfPermit + multicall when the token and router accept one, otherwise an
+ * approval transaction sent and confirmed first.
+ */
+const authorizeRouter = async (client: CitreaClient, approval: RouterApproval, txRequest: TransactionRequest): Promise<RouterPull> => {
+  if (client.swapOptions.usePermit ?? true) {
+    const permit = await tryRouterPermit(client, approval);
+    if (permit) {
+      const selfPermit = routerPermit.encodeFunctionData("selfPermit", [permit.token, permit.value, permit.deadline, permit.v, permit.r, permit.s]);
+      const data = routerPermit.encodeFunctionData("multicall", [[selfPermit, txRequest.data]]);
+      return { txRequest: { ...txRequest, data }, permit };
     }
-
-    throw new Error(`Swap failed: ${error.message}`);
   }
+  return { txRequest, approval: await sendApproval(client, approval) };
 };
 
-/**
- * Swap tokens for exact tokens (V2 style swap)
- */
-export const swapTokensForExactTokens = async ({
-  amountOut,
-  amountInMax,
-  path,
-  to,
-  deadline
-}: SwapTokensForExactTokensParams): Promise<string> => {
+// A permit the router accepts, or null when the swap has to fall back to approve
+const tryRouterPermit = async (client: CitreaClient, { token, spender, amount, decimals }: RouterApproval): Promise<SignedPermit | null> => {
+  let permit: SignedPermit;
   try {
-    // Validate required parameters
-    if (!amountOut || Number(amountOut) <= 0) {
-      throw new Error("Amount out must be greater than 0");
-    }
-
-    if (!amountInMax || Number(amountInMax) <= 0) {
-      throw new Error("Amount in maximum must be greater than 0");
-    }
-
-    if (!path || path.length < 2) {
-      throw new Error("Path must contain at least 2 token addresses");
-    }
-
-    if (!to) {
-      throw new Error("Recipient address is required");
-    }
-
-    // Validate addresses
-    for (const address of path) {
-      if (!ethers.isAddress(address)) {
-        throw new Error(`Invalid token address in path: ${address}`);
-      }
-    }
-
-    if (!ethers.isAddress(to)) {
-      throw new Error("Invalid recipient address");
-    }
-
-    const signer = getSigner();
-    const provider = getProvider();
-
-    if (!signer) {
-      throw new Error("Signer not initialized");
-    }
-
-    if (!provider) {
-      throw new Error("Provider not initialized");
-    }
+    const deadline = Math.floor(Date.now() / 1000) + (20 * 60);
+    permit = await createPermit(client, { token, spender, value: amount, deadline });
+  } catch (error: any) {
+    console.log(`Permit not available (${error.message}); sending an approval instead`);
+    return null;
+  }
 
-    // Convert amounts to wei
-    const amountOutWei = parseEther(amountOut);
-    const amountInMaxWei = parseEther(amountInMax);
+  // selfPermit on its own only succeeds if the router forwards permits to the token
+  try {
+    await getProvider(client).call({
+      to: spender,
+      from: permit.owner,
+      data: routerPermit.encodeFunctionData("selfPermit", [permit.token, permit.value, permit.deadline, permit.v, permit.r, permit.s]),
+    });
+  } catch {
+    console.log("Router does not accept permits; sending an approval instead");
+    return null;
+  }
 
-    // Set deadline (default: current time + 20 minutes)
-    const currentTimestamp = Math.floor(Date.now() / 1000);
-    const defaultDeadline = currentTimestamp + (20 * 60); // 20 minutes
-    const finalDeadline = deadline || defaultDeadline;
-
-    // Create contract instance
-    const routerContract = new ethers.Contract(
-      UNIVERSAL_ROUTER_ADDRESS,
-      universalRouterAbi,
-      signer
-    );
-
-    console.log(`Swapping tokens to receive exactly ${amountOut} of ${path[path.length - 1]}...`);
-
-    // Execute swap
-    const tx = await routerContract.swapTokensForExactTokens(
-      amountOutWei,
-      amountInMaxWei,
-      path,
-      to,
-      finalDeadline
-    );
+  console.log(`Permit signed for router ${spender} to spend ${ethers.formatUnits(amount, decimals)} of ${token}`);
+  return permit;
+};
 
-    console.log(`Swap transaction sent: ${tx.hash}`);
+// The tokens a swap sells and buys, whose decimals scale its amounts
+const resolveSwapEnds = async (client: CitreaClient, path: string[]): Promise<[TokenInfo, TokenInfo]> =>
+  Promise.all([resolveToken(client, path[0]), resolveToken(client, path[path.length - 1])]);
 
-    // Wait for confirmation
-    const receipt = await tx.wait();
+// Whole units to base units, refusing more decimals than the token has
+const parseSwapAmount = (label: string, amount: string, token: TokenInfo): bigint => {
+  try {
+    return parseUnits(amount, token.decimals);
+  } catch {
+    throw new Error(`${label} ${amount} is not a valid ${token.symbol} amount (at most ${token.decimals} decimals)`);
+  }
+};
 
-    if (!receipt) {
-      throw new Error("Transaction receipt not available");
-    }
+const describeApproval = ({ token, spender, amount, decimals }: RouterApproval) =>
+  ({ token, spender, amount: ethers.formatUnits(amount, decimals) });
+
+// Agent wallet changes for a swap; the router returns whichever amount was not fixed up front
+const swapBalanceChanges = (
+  tokenIn: TokenInfo,
+  tokenOut: TokenInfo,
+  amountIn: bigint,
+  amountOut: bigint,
+  receivesOutput: boolean
+): BalanceChange[] => {
+  const changes: BalanceChange[] = [
+    { asset: tokenIn.address, token: tokenIn.address, amount: `-${ethers.formatUnits(amountIn, tokenIn.decimals)}` },
+  ];
+  if (receivesOutput) {
+    changes.push({ asset: tokenOut.address, token: tokenOut.address, amount: `+${ethers.formatUnits(amountOut, tokenOut.decimals)}` });
+  }
+  return changes;
+};
 
-    if (receipt.status !== 1) {
-      throw new Error("Swap transaction failed");
-    }
+interface NativeSwap {
+  /** CBTC is sold: it is wrapped into WCBTC before the swap */
+  input: boolean;
+  /** CBTC is bought: the WCBTC received is unwrapped after the swap */
+  output: boolean;
+}
 
-    console.log(`✅ Swap completed successfully. Transaction hash: ${tx.hash}`);
-    return tx.hash;
+// Which ends of a swap are native CBTC. WCBTC can only be unwrapped by the wallet holding it, so CBTC is only bought for the agent.
+const getNativeSwap = async (client: CitreaClient, tokenIn: string, tokenOut: string, receiver: Recipient): Promise<NativeSwap> => {
+  const native = { input: isNativeCBTC(tokenIn), output: isNativeCBTC(tokenOut) };
+  if (native.output && receiver.address !== await getAgentAddress(client)) {
+    throw new Error("A swap to native CBTC can only pay the agent wallet, which unwraps the WCBTC; swap to WCBTC to pay another recipient");
+  }
+  return native;
+};
 
-  } catch (error: any) {
-    console.error("Swap failed:", error.message);
+// The wrap and unwrap a dry run would add around a native swap; an exact-output swap may leave part of a wrapped input unspent
+const describeNative = (native: NativeSwap, amountIn: bigint, exactOutput: boolean) => ({
+  wrap: native.input ? ethers.formatEther(amountIn) : undefined,
+  unwrap: native.output || (native.input && exactOutput),
+});
 
-    // Handle specific error types
-    if (error.code === 'INSUFFICIENT_FUNDS') {
-      throw new Error("Insufficient funds for swap");
-    } else if (error.code === 'NETWORK_ERROR') {
-      throw new Error("Network error during swap");
-    } else if (error.code === 'TIMEOUT') {
-      throw new Error("Swap transaction timed out");
-    } else if (error.message.includes("insufficient")) {
-      throw new Error("Insufficient token balance for swap");
-    } else if (error.message.includes("allowance") || error.message.includes("approve")) {
-      throw new Error("Token approval required for swap");
-    }
+/**
+ * Before a native swap: notes the WCBTC the wallet already holds and wraps
+ * the CBTC input, the most the router may pull
+ */
+const wrapSwapInput = async (client: CitreaClient, native: NativeSwap, amountIn: bigint): Promise<{ held: bigint; wrap?: TransactionResult }> => {
+  if (!native.input && !native.output) {
+    return { held: 0n };
+  }
+  const held = await getWrappedBalance(client);
+  const wrap = native.input ? await wrapCBTC(client, { amount: ethers.formatEther(amountIn), dryRun: false }) as TransactionResult : undefined;
+  return { held, wrap };
+};
 
-    throw new Error(`Swap failed: ${error.message}`);
+/**
+ * After a native swap: unwraps whatever WCBTC the swap added to the wallet,
+ * the output bought or the part of a wrapped input the router did not pull
+ */
+const unwrapSwapOutput = async (client: CitreaClient, native: NativeSwap, held: bigint): Promise<TransactionResult | undefined> => {
+  if (!native.input && !native.output) {
+    return undefined;
   }
+  const added = await getWrappedBalance(client) - held;
+  return added > 0n ? await unwrapCBTC(client, { amount: ethers.formatEther(added), dryRun: false }) as TransactionResult : undefined;
 };
 
+interface SwapPlan {
+  /** Names the swap in logs and errors, e.g. "V3 Swap" */
+  label: string;
+  type: "exactInput" | "exactOutput";
+  protocol: "v2" | "v3";
+  /** Tokens as the caller gave them, from the input to the output */
+  route: string[];
+  fees?: number[];
+  /** Checks the shape of the route and its fee tiers */
+  validateRoute: () => void;
+  recipient: string;
+  /** The fixed side in whole units: the input of an exact-input swap, the output of an exact-output swap */
+  amount: string;
+  /** The caller's minimum output or maximum input, in whole units */
+  limit?: string;
+  slippageBps?: number;
+  /** Bounds worked out ahead of the swap, used when their limit is the one given */
+  bounds?: SwapBounds;
+  /** V2 only: the swap is sent through multicall(deadline, data) */
+  deadline?: number;
+  dryRun?: boolean;
+  autoApprove?: boolean;
+  /** Builds the router call from the resolved path and the amounts in base units */
+  populate: (router: Contract, swap: { path: string[]; receiver: string; amount: bigint; limit: bigint }) => Promise<TransactionRequest>;
+}
+
 /**
- * Exact input single swap (V3 style swap)
+ * Runs a swap end to end: validation, the live-quote limit, the router's
+ * allowance, a dry run, or the wrap, approval or permit, swap and unwrap.
  */
-export const exactInputSingle = async ({
-  tokenIn,
-  tokenOut,
-  fee,
-  recipient,
-  amountIn,
-  amountOutMinimum,
-  sqrtPriceLimitX96
-}: ExactInputSingleParams): Promise<string> => {
+const executeSwap = async (
+  client: CitreaClient,
+  { label, type, protocol, route, fees, validateRoute, recipient, amount, limit, slippageBps, bounds: preset, deadline, dryRun, autoApprove, populate }: SwapPlan
+): Promise<TransactionResult | SimulationResult> => {
+  const exactOutput = type === "exactOutput";
+  const [amountLabel, limitLabel] = exactOutput ? ["Amount out", "Amount in maximum"] : ["Amount in", "Amount out minimum"];
+  // What already went through when a later step fails, reported with the error
+  const sent: SwapSentTransactions = {};
+  const leftovers: string[] = [];
+  // Set once CBTC is wrapped; takes back the WCBTC when the swap failed, or explains where it is
+  let settleWrap: ((swapMayLand: boolean) => Promise<string>) | undefined;
+  let swapHash: string | undefined;
+
   try {
     // Validate required parameters
-    if (!ethers.isAddress(tokenIn)) {
-      throw new Error("Invalid tokenIn address");
-    }
-
-    if (!ethers.isAddress(tokenOut)) {
-      throw new Error("Invalid tokenOut address");
-    }
+    validateRoute();
 
     if (!recipient) {
       throw new Error("Recipient address is required");
     }
 
-    if (!ethers.isAddress(recipient)) {
-      throw new Error("Invalid recipient address");
+    if (!amount || Number(amount) <= 0) {
+      throw new Error(`${amountLabel} must be greater than 0`);
     }
 
-    if (!amountIn || Number(amountIn) <= 0) {
-      throw new Error("Amount in must be greater than 0");
-    }
+    // A saved contact name or an address
+    const receiver = await resolveRecipient(client, recipient);
 
-    if (!amountOutMinimum || Number(amountOutMinimum) <= 0) {
-      throw new Error("Amount out minimum must be greater than 0");
-    }
+    // Refuse to sign unless the RPC serves the configured network
+    await verifyNetwork(client);
+
+    const native = await getNativeSwap(client, route[0], route[route.length - 1], receiver);
+    const path = await resolveRouteTokens(client, route);
+    const [input, output] = await resolveSwapEnds(client, path);
+    const amountWei = parseSwapAmount(amountLabel, amount, exactOutput ? output : input);
 
-    // Validate fee tier
-    const validFees = [500, 3000, 10000];
-    if (!validFees.includes(fee)) {
-      throw new Error("Invalid fee tier. Must be 500, 3000, or 10000");
+    // The caller's limit, or one worked out from a live quote and the slippage tolerance
+    const bounds = preset && preset.limit === limit
+      ? preset
+      : await resolveSwapBounds(client, { type, protocol, path, fees, amount, limit, slippageBps });
+    if (Number(bounds.limit) <= 0) {
+      throw new Error(`${limitLabel} must be greater than 0`);
     }
+    const limitWei = parseSwapAmount(limitLabel, bounds.limit, exactOutput ? input : output);
+    // The most the router may pull from the agent wallet
+    const maxInWei = exactOutput ? limitWei : amountWei;
 
-    const signer = getSigner();
-    const provider = getProvider();
+    const signer = getSigner(client);
 
     if (!signer) {
       throw new Error("Signer not initialized");
     }
 
-    if (!provider) {
-      throw new Error("Provider not initialized");
-    }
+    const routerAddress = getContractAddress(client.network, "universalRouter");
+    const routerContract = new ethers.Contract(routerAddress, universalRouterAbi, signer);
 
-    // Convert amounts to wei
-    const amountInWei = parseEther(amountIn);
-    const amountOutMinimumWei = parseEther(amountOutMinimum);
-
-    // Create contract instance
-    const routerContract = new ethers.Contract(
-      UNIVERSAL_ROUTER_ADDRESS,
-      universalRouterAbi,
-      signer
-    );
-
-    // Prepare parameters
-    const params = {
-      tokenIn,
-      tokenOut,
-      fee,
-      recipient,
-      amountIn: amountInWei,
-      amountOutMinimum: amountOutMinimumWei,
-      sqrtPriceLimitX96: sqrtPriceLimitX96 || "0"
-    };
+    const hops = path.length > 2 ? ` through ${path.length - 1} pools` : "";
+    console.log(exactOutput
+      ? `${label}: receive ${amount} ${output.symbol} for at most ${bounds.limit} ${input.symbol}${hops}...`
+      : `${label}: ${amount} ${input.symbol} for at least ${bounds.limit} ${output.symbol}${hops}...`);
 
-    console.log(`V3 Exact input swap: ${amountIn} ${tokenIn} to ${tokenOut}...`);
-
-    // Execute swap
-    const tx = await routerContract.exactInputSingle(params);
+    const swapRequest = await populate(routerContract, { path, receiver: receiver.address, amount: amountWei, limit: limitWei });
+    // Set deadline (default: current time + 20 minutes)
+    const txRequest = protocol === "v2"
+      ? withDeadline(swapRequest, deadline || Math.floor(Date.now() / 1000) + (20 * 60))
+      : swapRequest;
+
+    // The router pulls the input tokens from the agent wallet, so check its allowance first
+    const approval = await getRequiredApproval(client, input, routerAddress, maxInWei, autoApprove);
+
+    if (isDryRun(client, dryRun)) {
+      const receivesOutput = receiver.address === await signer.getAddress();
+      // Simulated without the deadline wrapper, so the router's return value decodes
+      return await simulateTransaction(client, swapRequest, {
+        iface: routerContract.interface,
+        approval: approval ? describeApproval(approval) : undefined,
+        recipient: receiver,
+        swap: bounds,
+        ...describeNative(native, maxInWei, exactOutput),
+        balanceChanges: ([returned]) => exactOutput
+          ? swapBalanceChanges(input, output, returned, amountWei, receivesOutput)
+          : swapBalanceChanges(input, output, amountWei, returned, receivesOutput),
+      });
+    }
+
+    // CBTC in is wrapped first; WCBTC the swap adds to the wallet is unwrapped after it
+    const { held, wrap } = await wrapSwapInput(client, native, maxInWei);
+    if (wrap) {
+      sent.wrap = wrap;
+      const wrapped = `${ethers.formatEther(maxInWei)} CBTC wrapped by ${wrap.hash}`;
+      settleWrap = async (swapMayLand) => {
+        if (swapMayLand) {
+          return `The ${wrapped} stays WCBTC while the swap is pending; unwrap it with unwrap_cbtc if the swap does not go through.`;
+        }
+        try {
+          sent.unwrap = await unwrapSwapOutput(client, native, held);
+          return sent.unwrap ? `The ${wrapped} was unwrapped again by ${sent.unwrap.hash}.` : `The ${wrapped} is no longer in the wallet.`;
+        } catch (unwrapError: any) {
+          return `The ${wrapped} could not be unwrapped again (${unwrapError.message}); it is still WCBTC in the agent wallet, so unwrap it with unwrap_cbtc.`;
+        }
+      };
+    }
+
+    const pull: RouterPull = approval ? await authorizeRouter(client, approval, txRequest) : { txRequest };
+    if (pull.approval) {
+      sent.approval = pull.approval;
+      leftovers.push(`The router approval ${pull.approval.hash} went through, so ${routerAddress} may still spend ${ethers.formatUnits(maxInWei, input.decimals)} ${input.symbol} of the agent wallet; revoke it with revoke_erc20_allowance unless the swap is retried.`);
+    }
+
+    const tx = await sendTransaction(client, pull.txRequest);
 
     console.log(`Swap transaction sent: ${tx.hash}`);
 
     // Wait for confirmation
-    const receipt = await tx.wait();
+    const receipt = await waitForTransaction(client, tx);
+    swapHash = receipt.hash;
+    const unwrap = await unwrapSwapOutput(client, native, held);
+
+    console.log(`✅ ${label} completed successfully. Transaction hash: ${receipt.hash}`);
+    return await buildTransactionResult(client, receipt, { tokens: [path[0], path[path.length - 1]], approval: pull.approval, permit: pull.permit, recipient: receiver, swap: bounds, wrap, unwrap });
 
-    if (!receipt) {
-      throw new Error("Transaction receipt not available");
+  } catch (error: any) {
+    if (swapHash) {
+      // Only the unwrap after the swap failed; the approval and any wrapped input were used up
+      leftovers.splice(0, leftovers.length, `The swap ${swapHash} went through, but its WCBTC could not be unwrapped; unwrap it with unwrap_cbtc.`);
+    } else if (settleWrap) {
+      const swapMayLand = error instanceof TransactionLifecycleError && ['timeout', 'replaced', 'reorged'].includes(error.state);
+      leftovers.unshift(await settleWrap(swapMayLand));
     }
+    const note = leftovers.length ? ` ${leftovers.join(" ")}` : "";
 
-    if (receipt.status !== 1) {
-      throw new Error("Swap transaction failed");
+    if (error instanceof TransactionLifecycleError) {
+      // Kept as is, since the swap itself may still land
+      error.message += note;
+      throw error;
     }
 
-    console.log(`✅ V3 Swap completed successfully. Transaction hash: ${tx.hash}`);
-    return tx.hash;
+    console.error(`${label} failed:`, error.message);
 
-  } catch (error: any) {
-    console.error("V3 Swap failed:", error.message);
+    const fail = (message: string) => (leftovers.length ? new SwapError(`${message}.${note}`, sent) : new Error(message));
 
     // Handle specific error types
     if (error.code === 'INSUFFICIENT_FUNDS') {
-      throw new Error("Insufficient funds for swap");
+      throw fail("Insufficient funds for swap");
     } else if (error.code === 'NETWORK_ERROR') {
-      throw new Error("Network error during swap");
+      throw fail("Network error during swap");
     } else if (error.code === 'TIMEOUT') {
-      throw new Error("Swap transaction timed out");
+      throw fail("Swap transaction timed out");
     } else if (error.message.includes("insufficient")) {
-      throw new Error("Insufficient token balance for swap");
+      throw fail("Insufficient token balance for swap");
     } else if (error.message.includes("allowance") || error.message.includes("approve")) {
-      throw new Error("Token approval required for swap");
+      throw fail("Token approval required for swap");
     }
 
-    throw new Error(`V3 Swap failed: ${error.message}`);
+    throw fail(`${label} failed: ${error.message}`);
   }
 };
 
-/**
- * Exact output single swap (V3 style swap)
- */
-export const exactOutputSingle = async ({
-  tokenIn,
-  tokenOut,
-  fee,
-  recipient,
-  amountOut,
-  amountInMaximum,
-  sqrtPriceLimitX96
-}: ExactOutputSingleParams): Promise<string> => {
-  try {
-    // Validate required parameters
-    if (!ethers.isAddress(tokenIn)) {
-      throw new Error("Invalid tokenIn address");
-    }
-
-    if (!ethers.isAddress(tokenOut)) {
-      throw new Error("Invalid tokenOut address");
-    }
-
-    if (!recipient) {
-      throw new Error("Recipient address is required");
-    }
-
-    if (!ethers.isAddress(recipient)) {
-      throw new Error("Invalid recipient address");
-    }
-
-    if (!amountOut || Number(amountOut) <= 0) {
-      throw new Error("Amount out must be greater than 0");
-    }
-
-    if (!amountInMaximum || Number(amountInMaximum) <= 0) {
-      throw new Error("Amount in maximum must be greater than 0");
-    }
+const validateV2Route = (route: string[]) => {
+  if (!route || route.length < 2) {
+    throw new Error("Path must contain at least 2 tokens");
+  }
+};
 
-    // Validate fee tier
-    const validFees = [500, 3000, 10000];
-    if (!validFees.includes(fee)) {
-      throw new Error("Invalid fee tier. Must be 500, 3000, or 10000");
-    }
+const validateV3Pair = (tokenIn: string, tokenOut: string, fee: number) => {
+  if (!tokenIn || !tokenOut) {
+    throw new Error("tokenIn and tokenOut are required");
+  }
 
-    const signer = getSigner();
-    const provider = getProvider();
+  if (!V3_FEE_TIERS.includes(fee)) {
+    throw new Error("Invalid fee tier. Must be 500, 3000, or 10000");
+  }
+};
 
-    if (!signer) {
-      throw new Error("Signer not initialized");
-    }
+/**
+ * Swap exact tokens for tokens (V2 style swap)
+ */
+export const swapExactTokensForTokens = async (
+  client: CitreaClient,
+  { amountIn, amountOutMin, slippageBps, path, to, deadline, dryRun, autoApprove }: SwapExactTokensForTokensParams
+): Promise<TransactionResult | SimulationResult> =>
+  executeSwap(client, {
+    label: "Swap",
+    type: "exactInput",
+    protocol: "v2",
+    route: path,
+    validateRoute: () => validateV2Route(path),
+    recipient: to,
+    amount: amountIn,
+    limit: amountOutMin,
+    slippageBps,
+    deadline,
+    dryRun,
+    autoApprove,
+    populate: (router, swap) =>
+      router.swapExactTokensForTokens.populateTransaction(swap.amount, swap.limit, swap.path, swap.receiver),
+  });
 
-    if (!provider) {
-      throw new Error("Provider not initialized");
-    }
+/**
+ * Swap tokens for exact tokens (V2 style swap)
+ */
+export const swapTokensForExactTokens = async (
+  client: CitreaClient,
+  { amountOut, amountInMax, slippageBps, bounds, path, to, deadline, dryRun, autoApprove }: SwapTokensForExactTokensParams
+): Promise<TransactionResult | SimulationResult> =>
+  executeSwap(client, {
+    label: "Swap",
+    type: "exactOutput",
+    protocol: "v2",
+    route: path,
+    validateRoute: () => validateV2Route(path),
+    recipient: to,
+    amount: amountOut,
+    limit: amountInMax,
+    slippageBps,
+    bounds,
+    deadline,
+    dryRun,
+    autoApprove,
+    populate: (router, swap) =>
+      router.swapTokensForExactTokens.populateTransaction(swap.amount, swap.limit, swap.path, swap.receiver),
+  });
 
-    // Convert amounts to wei
-    const amountOutWei = parseEther(amountOut);
-    const amountInMaximumWei = parseEther(amountInMaximum);
-
-    // Create contract instance
-    const routerContract = new ethers.Contract(
-      UNIVERSAL_ROUTER_ADDRESS,
-      universalRouterAbi,
-      signer
-    );
-
-    // Prepare parameters
-    const params = {
-      tokenIn,
-      tokenOut,
+/**
+ * Exact input single swap (V3 style swap)
+ */
+export const exactInputSingle = async (
+  client: CitreaClient,
+  { tokenIn, tokenOut, fee, recipient, amountIn, amountOutMinimum, slippageBps, sqrtPriceLimitX96, dryRun, autoApprove }: ExactInputSingleParams
+): Promise<TransactionResult | SimulationResult> =>
+  executeSwap(client, {
+    label: "V3 Swap",
+    type: "exactInput",
+    protocol: "v3",
+    route: [tokenIn, tokenOut],
+    fees: [fee],
+    validateRoute: () => validateV3Pair(tokenIn, tokenOut, fee),
+    recipient,
+    amount: amountIn,
+    limit: amountOutMinimum,
+    slippageBps,
+    dryRun,
+    autoApprove,
+    populate: (router, swap) => router.exactInputSingle.populateTransaction({
+      tokenIn: swap.path[0],
+      tokenOut: swap.path[1],
       fee,
-      recipient,
-      amountOut: amountOutWei,
-      amountInMaximum: amountInMaximumWei,
+      recipient: swap.receiver,
+      amountIn: swap.amount,
+      amountOutMinimum: swap.limit,
       sqrtPriceLimitX96: sqrtPriceLimitX96 || "0"
-    };
-
-    console.log(`V3 Exact output swap: receive ${amountOut} ${tokenOut} from ${tokenIn}...`);
-
-    // Execute swap
-    const tx = await routerContract.exactOutputSingle(params);
-
-    console.log(`Swap transaction sent: ${tx.hash}`);
-
-    // Wait for confirmation
-    const receipt = await tx.wait();
+    }),
+  });
 
-    if (!receipt) {
-      throw new Error("Transaction receipt not available");
-    }
-
-    if (receipt.status !== 1) {
-      throw new Error("Swap transaction failed");
-    }
-
-    console.log(`✅ V3 Swap completed successfully. Transaction hash: ${tx.hash}`);
-    return tx.hash;
-
-  } catch (error: any) {
-    console.error("V3 Swap failed:", error.message);
+/**
+ * Exact output single swap (V3 style swap)
+ */
+export const exactOutputSingle = async (
+  client: CitreaClient,
+  { tokenIn, tokenOut, fee, recipient, amountOut, amountInMaximum, slippageBps, bounds, sqrtPriceLimitX96, dryRun, autoApprove }: ExactOutputSingleParams
+): Promise<TransactionResult | SimulationResult> =>
+  executeSwap(client, {
+    label: "V3 Swap",
+    type: "exactOutput",
+    protocol: "v3",
+    route: [tokenIn, tokenOut],
+    fees: [fee],
+    validateRoute: () => validateV3Pair(tokenIn, tokenOut, fee),
+    recipient,
+    amount: amountOut,
+    limit: amountInMaximum,
+    slippageBps,
+    bounds,
+    dryRun,
+    autoApprove,
+    populate: (router, swap) => router.exactOutputSingle.populateTransaction({
+      tokenIn: swap.path[0],
+      tokenOut: swap.path[1],
+      fee,
+      recipient: swap.receiver,
+      amountOut: swap.amount,
+      amountInMaximum: swap.limit,
+      sqrtPriceLimitX96: sqrtPriceLimitX96 || "0"
+    }),
+  });
 
-    // Handle specific error types
-    if (error.code === 'INSUFFICIENT_FUNDS') {
-      throw new Error("Insufficient funds for swap");
-    } else if (error.code === 'NETWORK_ERROR') {
-      throw new Error("Network error during swap");
-    } else if (error.code === 'TIMEOUT') {
-      throw new Error("Swap transaction timed out");
-    } else if (error.message.includes("insufficient")) {
-      throw new Error("Insufficient token balance for swap");
-    } else if (error.message.includes("allowance") || error.message.includes("approve")) {
-      throw new Error("Token approval required for swap");
-    }
+/**
+ * Exact input multi-hop swap (V3 style swap). The route is packed as
+ * token, fee, token, ... from the input token to the output token.
+ */
+export const exactInput = async (
+  client: CitreaClient,
+  { path, fees, recipient, amountIn, amountOutMinimum, slippageBps, dryRun, autoApprove }: ExactInputParams
+): Promise<TransactionResult | SimulationResult> =>
+  executeSwap(client, {
+    label: "V3 Swap",
+    type: "exactInput",
+    protocol: "v3",
+    route: path,
+    fees,
+    validateRoute: () => validateV3Route(path, fees),
+    recipient,
+    amount: amountIn,
+    limit: amountOutMinimum,
+    slippageBps,
+    dryRun,
+    autoApprove,
+    populate: (router, swap) => router.exactInput.populateTransaction({
+      path: encodeV3Path(swap.path, fees),
+      recipient: swap.receiver,
+      amountIn: swap.amount,
+      amountOutMinimum: swap.limit
+    }),
+  });
 
-    throw new Error(`V3 Swap failed: ${error.message}`);
-  }
-};
+/**
+ * Exact output multi-hop swap (V3 style swap). The router walks the route
+ * backwards from the output, so the path is packed from the output token to
+ * the input token.
+ */
+export const exactOutput = async (
+  client: CitreaClient,
+  { path, fees, recipient, amountOut, amountInMaximum, slippageBps, bounds, dryRun, autoApprove }: ExactOutputParams
+): Promise<TransactionResult | SimulationResult> =>
+  executeSwap(client, {
+    label: "V3 Swap",
+    type: "exactOutput",
+    protocol: "v3",
+    route: path,
+    fees,
+    validateRoute: () => validateV3Route(path, fees),
+    recipient,
+    amount: amountOut,
+    limit: amountInMaximum,
+    slippageBps,
+    bounds,
+    dryRun,
+    autoApprove,
+    populate: (router, swap) => router.exactOutput.populateTransaction({
+      path: encodeV3Path(swap.path, fees, true),
+      recipient: swap.receiver,
+      amountOut: swap.amount,
+      amountInMaximum: swap.limit
+    }),
+  });
@@ -0,0 +1,64 @@
+import { ethers } from "ethers";
+import type { CitreaClient } from "../../core/client";
+import { getContractAddress } from "../../core/networks";
+import { resolveTokenAddress } from "../../core/tokens";
+
+/** Fee tiers of V3 pools, in hundredths of a basis point */
+export const V3_FEE_TIERS = [500, 3000, 10000];
+
+/** True for native CBTC, which pools only trade as WCBTC */
+export const isNativeCBTC = (token: string): boolean => token?.trim().toUpperCase() === "CBTC";
+
+/**
+ * Resolves the tokens of a swap route to addresses through the client's
+ * registry. CBTC stands for the network's WCBTC, the token the pools hold.
+ */
+export const resolveRouteTokens = async (client: CitreaClient, tokens: string[]): Promise<string[]> =>
+  Promise.all(tokens.map((token) =>
+    isNativeCBTC(token) ? ethers.getAddress(getContractAddress(client.network, "wrappedNative")) : resolveTokenAddress(client, token)
+  ));
+
+/**
+ * Checks a V3 route: at least two tokens and one supported fee tier for
+ * every hop between them
+ */
+export const validateV3Route = (tokens: string[], fees: number[]): void => {
+  if (!tokens || tokens.length < 2) {
+    throw new Error("Path must contain at least 2 tokens");
+  }
+
+  const hops = tokens.length - 1;
+  if (!fees || fees.length !== hops) {
+    throw new Error(`A route through ${tokens.length} tokens needs ${hops} fee tier${hops === 1 ? "" : "s"}, one per hop; got ${fees?.length ?? 0}`);
+  }
+
+  fees.forEach((fee, i) => {
+    if (!V3_FEE_TIERS.includes(fee)) {
+      throw new Error(`Invalid fee tier ${fee} for hop ${i + 1} (${tokens[i]} → ${tokens[i + 1]}). Must be 500, 3000, or 10000`);
+    }
+  });
+};
+
+/**
+ * Packs a V3 route as token (20 bytes), fee (3 bytes), token, ... in the
+ * order given. Exact-output swaps and quotes walk the route from the output
+ * token back to the input token, so pass `reverse` for them.
+ */
+export const encodeV3Path = (tokens: string[], fees: number[], reverse = false): string => {
+  validateV3Route(tokens, fees);
+
+  const route = reverse ? [...tokens].reverse() : tokens;
+  const hops = reverse ? [...fees].reverse() : fees;
+
+  const types: string[] = [];
+  const values: (string | number)[] = [];
+  route.forEach((token, i) => {
+    types.push("address");
+    values.push(token);
+    if (i < hops.length) {
+      types.push("uint24");
+      values.push(hops[i]);
+    }
+  });
+  return ethers.solidityPacked(types, values);
+};
@@ -0,0 +1,79 @@
+import { ethers } from "ethers";
+import type { CitreaClient } from "../../core/client";
+import type { SwapBounds } from "../../core/results";
+import { quoteSwap, type SwapProtocol } from "./quoteSwap";
+
+export const DEFAULT_SLIPPAGE_BPS = 50;
+export const DEFAULT_MAX_SLIPPAGE_BPS = 500;
+
+const BPS = 10_000n;
+
+/**
+ * The slippage tolerance a swap may use: the given one or the client's
+ * default, refused above the client's maximum
+ */
+export const getSlippageBps = (client: CitreaClient, slippageBps?: number): number => {
+  const bps = slippageBps ?? client.swapOptions.slippageBps ?? DEFAULT_SLIPPAGE_BPS;
+  const max = client.swapOptions.maxSlippageBps ?? DEFAULT_MAX_SLIPPAGE_BPS;
+
+  if (!Number.isInteger(bps) || bps < 0) {
+    throw new Error("Slippage must be a whole number of basis points (e.g. 50 for 0.5%)");
+  }
+  if (bps > max) {
+    throw new Error(`Slippage of ${bps} bps exceeds the maximum of ${max} bps`);
+  }
+  return bps;
+};
+
+/**
+ * Works out the limit of a swap. A given limit (amountOutMin / amountInMax)
+ * is used as is. Otherwise the other side is quoted from live pool state and
+ * widened by the slippage tolerance: the minimum output is the quote less the
+ * tolerance, the maximum input the quote plus the tolerance, rounded up.
+ */
+export const resolveSwapBounds = async (
+  client: CitreaClient,
+  {
+    type,
+    protocol,
+    path,
+    fees,
+    amount,
+    limit,
+    slippageBps
+  }: {
+    type: SwapBounds["type"];
+    protocol: SwapProtocol;
+    /** Token addresses from input to output */
+    path: string[];
+    /** V3 fee tier of each hop */
+    fees?: number[];
+    /** The fixed amount, in whole units */
+    amount: string;
+    /** The caller's own limit, in whole units */
+    limit?: string;
+    slippageBps?: number;
+  }
+): Promise<SwapBounds> => {
+  if (limit) {
+    if (slippageBps !== undefined) {
+      throw new Error(`Give either ${type === "exactInput" ? "a minimum output" : "a maximum input"} or slippageBps, not both`);
+    }
+    return { type, amount, limit };
+  }
+
+  const bps = getSlippageBps(client, slippageBps);
+
+  if (type === "exactInput") {
+    const quote = await quoteSwap(client, { path, protocol, fees, amountIn: amount });
+    const minimum = (quote.amountOutRaw * (BPS - BigInt(bps))) / BPS;
+    if (minimum === 0n) {
+      throw new Error(`The quoted output of ${quote.amountOut} ${quote.tokenOut.symbol} is too small to swap`);
+    }
+    return { type, amount, limit: ethers.formatUnits(minimum, quote.tokenOut.decimals), quoted: quote.amountOut, slippageBps: bps };
+  }
+
+  const quote = await quoteSwap(client, { path, protocol, fees, amountOut: amount });
+  const maximum = (quote.amountInRaw * (BPS + BigInt(bps)) + BPS - 1n) / BPS;
+  return { type, amount, limit: ethers.formatUnits(maximum, quote.tokenIn.decimals), quoted: quote.amountIn, slippageBps: bps };
+};
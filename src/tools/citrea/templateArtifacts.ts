@@ -0,0 +1,12 @@
+// Generated by scripts/compile-templates.mjs with solc 0.8.26+commit.8a97fa7a.Emscripten.clang (evmVersion paris, optimizer 200 runs). Do not edit.
+// Sources: contracts/*.sol, built on @openzeppelin/contracts.
+
+export const citreaERC20Artifact = {
+  abi: [{"inputs":[{"internalType":"string","name":"name_","type":"string"},{"internalType":"string","name":"symbol_","type":"string"},{"internalType":"uint8","name":"decimals_","type":"uint8"},{"internalType":"uint256","name":"initialSupply","type":"uint256"},{"internalType":"bool","name":"mintable_","type":"bool"},{"internalType":"bool","name":"burnable_","type":"bool"},{"internalType":"uint256","name":"cap_","type":"uint256"}],"stateMutability":"nonpayable","type":"constructor"},{"inputs":[],"name":"BurningDisabled","type":"error"},{"inputs":[{"internalType":"uint256","name":"supply","type":"uint256"},{"internalType":"uint256","name":"cap","type":"uint256"}],"name":"CapExceeded","type":"error"},{"inputs":[{"internalType":"address","name":"spender","type":"address"},{"internalType":"uint256","name":"allowance","type":"uint256"},{"internalType":"uint256","name":"needed","type":"uint256"}],"name":"ERC20InsufficientAllowance","type":"error"},{"inputs":[{"internalType":"address","name":"sender","type":"address"},{"internalType":"uint256","name":"balance","type":"uint256"},{"internalType":"uint256","name":"needed","type":"uint256"}],"name":"ERC20InsufficientBalance","type":"error"},{"inputs":[{"internalType":"address","name":"approver","type":"address"}],"name":"ERC20InvalidApprover","type":"error"},{"inputs":[{"internalType":"address","name":"receiver","type":"address"}],"name":"ERC20InvalidReceiver","type":"error"},{"inputs":[{"internalType":"address","name":"sender","type":"address"}],"name":"ERC20InvalidSender","type":"error"},{"inputs":[{"internalType":"address","name":"spender","type":"address"}],"name":"ERC20InvalidSpender","type":"error"},{"inputs":[],"name":"MintingDisabled","type":"error"},{"inputs":[{"internalType":"address","name":"owner","type":"address"}],"name":"OwnableInvalidOwner","type":"error"},{"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"OwnableUnauthorizedAccount","type":"error"},{"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"owner","type":"address"},{"indexed":true,"internalType":"address","name":"spender","type":"address"},{"indexed":false,"internalType":"uint256","name":"value","type":"uint256"}],"name":"Approval","type":"event"},{"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferred","type":"event"},{"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"from","type":"address"},{"indexed":true,"internalType":"address","name":"to","type":"address"},{"indexed":false,"internalType":"uint256","name":"value","type":"uint256"}],"name":"Transfer","type":"event"},{"inputs":[{"internalType":"address","name":"owner","type":"address"},{"internalType":"address","name":"spender","type":"address"}],"name":"allowance","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},{"inputs":[{"internalType":"address","name":"spender","type":"address"},{"internalType":"uint256","name":"value","type":"uint256"}],"name":"approve","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"nonpayable","type":"function"},{"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"balanceOf","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},{"inputs":[{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"burn","outputs":[],"stateMutability":"nonpayable","type":"function"},{"inputs":[{"internalType":"address","name":"account","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"burnFrom","outputs":[],"stateMutability":"nonpayable","type":"function"},{"inputs":[],"name":"burnable","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"cap","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"decimals","outputs":[{"internalType":"uint8","name":"","type":"uint8"}],"stateMutability":"view","type":"function"},{"inputs":[{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"mint","outputs":[],"stateMutability":"nonpayable","type":"function"},{"inputs":[],"name":"mintable","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"name","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"owner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"renounceOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},{"inputs":[],"name":"symbol","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"totalSupply","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},{"inputs":[{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"value","type":"uint256"}],"name":"transfer","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"nonpayable","type":"function"},{"inputs":[{"internalType":"address","name":"from","type":"address"},{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"value","type":"uint256"}],"name":"transferFrom","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"nonpayable","type":"function"},{"inputs":[{"internalType":"address","name":"newOwner","type":"address"}],"name":"transferOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"}],
+  bytecode: "0x61010060405234801561001157600080fd5b506040516111ee3803806111ee8339810160408190526100309161039e565b338787600361003f83826104e3565b50600461004c82826104e3565b5050506001600160a01b03811661007e57604051631e4fbdf760e01b8152600060048201526024015b60405180910390fd5b610087816100b6565b5060ff851660805282151560a05281151560c05260e08190526100aa3385610108565b505050505050506105c8565b600580546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b6001600160a01b0382166101325760405163ec442f0560e01b815260006004820152602401610075565b61013e60008383610142565b5050565b61014d8383836101a6565b6001600160a01b038316158015610165575060e05115155b8015610174575060e051600254115b156101a15760025460e05160405163f480e28560e01b815260048101929092526024820152604401610075565b505050565b6001600160a01b0383166101d15780600260008282546101c691906105a1565b909155506102439050565b6001600160a01b038316600090815260208190526040902054818110156102245760405163391434e360e21b81526001600160a01b03851660048201526024810182905260448101839052606401610075565b6001600160a01b03841660009081526020819052604090209082900390555b6001600160a01b03821661025f5760028054829003905561027e565b6001600160a01b03821660009081526020819052604090208054820190555b816001600160a01b0316836001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef836040516102c391815260200190565b60405180910390a3505050565b634e487b7160e01b600052604160045260246000fd5b600082601f8301126102f757600080fd5b81516001600160401b03811115610310576103106102d0565b604051601f8201601f19908116603f011681016001600160401b038111828210171561033e5761033e6102d0565b60405281815283820160200185101561035657600080fd5b60005b8281101561037557602081860181015183830182015201610359565b506000918101602001919091529392505050565b8051801515811461039957600080fd5b919050565b600080600080600080600060e0888a0312156103b957600080fd5b87516001600160401b038111156103cf57600080fd5b6103db8a828b016102e6565b60208a015190985090506001600160401b038111156103f957600080fd5b6104058a828b016102e6565b965050604088015160ff8116811461041c57600080fd5b6060890151909550935061043260808901610389565b925061044060a08901610389565b9150600060c089015190508091505092959891949750929550565b600181811c9082168061046f57607f821691505b60208210810361048f57634e487b7160e01b600052602260045260246000fd5b50919050565b601f8211156101a157806000526020600020601f840160051c810160208510156104bc5750805b601f840160051c820191505b818110156104dc57600081556001016104c8565b5050505050565b81516001600160401b038111156104fc576104fc6102d0565b6105108161050a845461045b565b84610495565b6020601f821160018114610544576000831561052c5750848201515b600019600385901b1c1916600184901b1784556104dc565b600084815260208120601f198516915b828110156105745787850151825560209485019460019092019101610554565b50848210156105925786840151600019600387901b60f8161c191681555b50505050600190811b01905550565b808201808211156105c257634e487b7160e01b600052601160045260246000fd5b92915050565b60805160a05160c05160e051610bc361062b600039600081816101b7015281816107f30152818161081e01526108670152600081816102940152818161043b015261049901526000818161020601526103ef015260006101880152610bc36000f3fe608060405234801561001057600080fd5b50600436106101165760003560e01c806370a08231116100a257806395d89b411161007157806395d89b4114610287578063a07c7ce41461028f578063a9059cbb146102b6578063dd62ed3e146102c9578063f2fde38b1461030257600080fd5b806370a0823114610228578063715018a61461025157806379cc6790146102595780638da5cb5b1461026c57600080fd5b8063313ce567116100e9578063313ce56714610181578063355274ea146101b257806340c10f19146101d957806342966c68146101ee5780634bf365df1461020157600080fd5b806306fdde031461011b578063095ea7b31461013957806318160ddd1461015c57806323b872dd1461016e575b600080fd5b610123610315565b60405161013091906109f3565b60405180910390f35b61014c610147366004610a5d565b6103a7565b6040519015158152602001610130565b6002545b604051908152602001610130565b61014c61017c366004610a87565b6103c1565b60405160ff7f0000000000000000000000000000000000000000000000000000000000000000168152602001610130565b6101607f000000000000000000000000000000000000000000000000000000000000000081565b6101ec6101e7366004610a5d565b6103e5565b005b6101ec6101fc366004610ac4565b610439565b61014c7f000000000000000000000000000000000000000000000000000000000000000081565b610160610236366004610add565b6001600160a01b031660009081526020819052604090205490565b6101ec610483565b6101ec610267366004610a5d565b610497565b6005546040516001600160a01b039091168152602001610130565b6101236104df565b61014c7f000000000000000000000000000000000000000000000000000000000000000081565b61014c6102c4366004610a5d565b6104ee565b6101606102d7366004610aff565b6001600160a01b03918216600090815260016020908152604080832093909416825291909152205490565b6101ec610310366004610add565b6104fc565b60606003805461032490610b32565b80601f016020809104026020016040519081016040528092919081815260200182805461035090610b32565b801561039d5780601f106103725761010080835404028352916020019161039d565b820191906000526020600020905b81548152906001019060200180831161038057829003601f168201915b5050505050905090565b6000336103b581858561053c565b60019150505b92915050565b6000336103cf85828561054e565b6103da8585856105cc565b506001949350505050565b6103ed61062b565b7f000000000000000000000000000000000000000000000000000000000000000061042b5760405163af79b43760e01b815260040160405180910390fd5b6104358282610658565b5050565b7f000000000000000000000000000000000000000000000000000000000000000061047757604051634dee6bd960e11b815260040160405180910390fd5b6104808161068e565b50565b61048b61062b565b6104956000610698565b565b7f00000000000000000000000000000000000000000000000000000000000000006104d557604051634dee6bd960e11b815260040160405180910390fd5b61043582826106ea565b60606004805461032490610b32565b6000336103b58185856105cc565b61050461062b565b6001600160a01b03811661053357604051631e4fbdf760e01b8152600060048201526024015b60405180910390fd5b61048081610698565b61054983838360016106ff565b505050565b6001600160a01b0383811660009081526001602090815260408083209386168352929052205460001981146105c657818110156105b757604051637dc7a0d960e11b81526001600160a01b0384166004820152602481018290526044810183905260640161052a565b6105c6848484840360006106ff565b50505050565b6001600160a01b0383166105f657604051634b637e8f60e11b81526000600482015260240161052a565b6001600160a01b0382166106205760405163ec442f0560e01b81526000600482015260240161052a565b6105498383836107d4565b6005546001600160a01b031633146104955760405163118cdaa760e01b815233600482015260240161052a565b6001600160a01b0382166106825760405163ec442f0560e01b81526000600482015260240161052a565b610435600083836107d4565b6104803382610893565b600580546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b6106f582338361054e565b6104358282610893565b6001600160a01b0384166107295760405163e602df0560e01b81526000600482015260240161052a565b6001600160a01b03831661075357604051634a1406b160e11b81526000600482015260240161052a565b6001600160a01b03808516600090815260016020908152604080832093871683529290522082905580156105c657826001600160a01b0316846001600160a01b03167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925846040516107c691815260200190565b60405180910390a350505050565b6107df8383836108c9565b6001600160a01b03831615801561081557507f000000000000000000000000000000000000000000000000000000000000000015155b801561084857507f000000000000000000000000000000000000000000000000000000000000000061084660025490565b115b156105495760025460405163f480e28560e01b815260048101919091527f0000000000000000000000000000000000000000000000000000000000000000602482015260440161052a565b6001600160a01b0382166108bd57604051634b637e8f60e11b81526000600482015260240161052a565b610435826000836107d4565b6001600160a01b0383166108f45780600260008282546108e99190610b6c565b909155506109669050565b6001600160a01b038316600090815260208190526040902054818110156109475760405163391434e360e21b81526001600160a01b0385166004820152602481018290526044810183905260640161052a565b6001600160a01b03841660009081526020819052604090209082900390555b6001600160a01b038216610982576002805482900390556109a1565b6001600160a01b03821660009081526020819052604090208054820190555b816001600160a01b0316836001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef836040516109e691815260200190565b60405180910390a3505050565b602081526000825180602084015260005b81811015610a215760208186018101516040868401015201610a04565b506000604082850101526040601f19601f83011684010191505092915050565b80356001600160a01b0381168114610a5857600080fd5b919050565b60008060408385031215610a7057600080fd5b610a7983610a41565b946020939093013593505050565b600080600060608486031215610a9c57600080fd5b610aa584610a41565b9250610ab360208501610a41565b929592945050506040919091013590565b600060208284031215610ad657600080fd5b5035919050565b600060208284031215610aef57600080fd5b610af882610a41565b9392505050565b60008060408385031215610b1257600080fd5b610b1b83610a41565b9150610b2960208401610a41565b90509250929050565b600181811c90821680610b4657607f821691505b602082108103610b6657634e487b7160e01b600052602260045260246000fd5b50919050565b808201808211156103bb57634e487b7160e01b600052601160045260246000fdfea2646970667358221220fa71dadf7fb24923bd0667d5a8f61d48ab79280983fcbef32070deae0d51f02764736f6c634300081a0033",
+} as const;
+
+export const citreaERC721Artifact = {
+  abi: [{"inputs":[{"internalType":"string","name":"name_","type":"string"},{"internalType":"string","name":"symbol_","type":"string"},{"internalType":"string","name":"baseURI_","type":"string"},{"internalType":"uint256","name":"maxSupply_","type":"uint256"}],"stateMutability":"nonpayable","type":"constructor"},{"inputs":[{"internalType":"address","name":"sender","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"address","name":"owner","type":"address"}],"name":"ERC721IncorrectOwner","type":"error"},{"inputs":[{"internalType":"address","name":"operator","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"ERC721InsufficientApproval","type":"error"},{"inputs":[{"internalType":"address","name":"approver","type":"address"}],"name":"ERC721InvalidApprover","type":"error"},{"inputs":[{"internalType":"address","name":"operator","type":"address"}],"name":"ERC721InvalidOperator","type":"error"},{"inputs":[{"internalType":"address","name":"owner","type":"address"}],"name":"ERC721InvalidOwner","type":"error"},{"inputs":[{"internalType":"address","name":"receiver","type":"address"}],"name":"ERC721InvalidReceiver","type":"error"},{"inputs":[{"internalType":"address","name":"sender","type":"address"}],"name":"ERC721InvalidSender","type":"error"},{"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"ERC721NonexistentToken","type":"error"},{"inputs":[{"internalType":"uint256","name":"maxSupply","type":"uint256"}],"name":"MaxSupplyReached","type":"error"},{"inputs":[{"internalType":"address","name":"owner","type":"address"}],"name":"OwnableInvalidOwner","type":"error"},{"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"OwnableUnauthorizedAccount","type":"error"},{"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"owner","type":"address"},{"indexed":true,"internalType":"address","name":"approved","type":"address"},{"indexed":true,"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"Approval","type":"event"},{"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"owner","type":"address"},{"indexed":true,"internalType":"address","name":"operator","type":"address"},{"indexed":false,"internalType":"bool","name":"approved","type":"bool"}],"name":"ApprovalForAll","type":"event"},{"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferred","type":"event"},{"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"from","type":"address"},{"indexed":true,"internalType":"address","name":"to","type":"address"},{"indexed":true,"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"Transfer","type":"event"},{"inputs":[{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"approve","outputs":[],"stateMutability":"nonpayable","type":"function"},{"inputs":[{"internalType":"address","name":"owner","type":"address"}],"name":"balanceOf","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},{"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"getApproved","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},{"inputs":[{"internalType":"address","name":"owner","type":"address"},{"internalType":"address","name":"operator","type":"address"}],"name":"isApprovedForAll","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"maxSupply","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},{"inputs":[{"internalType":"address","name":"to","type":"address"}],"name":"mint","outputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},{"inputs":[],"name":"name","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"owner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},{"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"ownerOf","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"renounceOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},{"inputs":[{"internalType":"address","name":"from","type":"address"},{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"safeTransferFrom","outputs":[],"stateMutability":"nonpayable","type":"function"},{"inputs":[{"internalType":"address","name":"from","type":"address"},{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"bytes","name":"data","type":"bytes"}],"name":"safeTransferFrom","outputs":[],"stateMutability":"nonpayable","type":"function"},{"inputs":[{"internalType":"address","name":"operator","type":"address"},{"internalType":"bool","name":"approved","type":"bool"}],"name":"setApprovalForAll","outputs":[],"stateMutability":"nonpayable","type":"function"},{"inputs":[{"internalType":"bytes4","name":"interfaceId","type":"bytes4"}],"name":"supportsInterface","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"symbol","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},{"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"tokenURI","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"totalSupply","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},{"inputs":[{"internalType":"address","name":"from","type":"address"},{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"transferFrom","outputs":[],"stateMutability":"nonpayable","type":"function"},{"inputs":[{"internalType":"address","name":"newOwner","type":"address"}],"name":"transferOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"}],
+  bytecode: "0x60a060405234801561001057600080fd5b506040516115ad3803806115ad83398101604081905261002f916101aa565b338484600061003e83826102d0565b50600161004b82826102d0565b5050506001600160a01b03811661007c57604051631e4fbdf760e01b81526000600482015260240160405180910390fd5b6100858161009f565b50600761009283826102d0565b506080525061038e915050565b600680546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b634e487b7160e01b600052604160045260246000fd5b600082601f83011261011857600080fd5b81516001600160401b03811115610131576101316100f1565b604051601f8201601f19908116603f011681016001600160401b038111828210171561015f5761015f6100f1565b60405281815283820160200185101561017757600080fd5b60005b828110156101965760208186018101518383018201520161017a565b506000918101602001919091529392505050565b600080600080608085870312156101c057600080fd5b84516001600160401b038111156101d657600080fd5b6101e287828801610107565b602087015190955090506001600160401b0381111561020057600080fd5b61020c87828801610107565b604087015190945090506001600160401b0381111561022a57600080fd5b61023687828801610107565b606096909601519497939650505050565b600181811c9082168061025b57607f821691505b60208210810361027b57634e487b7160e01b600052602260045260246000fd5b50919050565b601f8211156102cb57806000526020600020601f840160051c810160208510156102a85750805b601f840160051c820191505b818110156102c857600081556001016102b4565b50505b505050565b81516001600160401b038111156102e9576102e96100f1565b6102fd816102f78454610247565b84610281565b6020601f82116001811461033157600083156103195750848201515b600019600385901b1c1916600184901b1784556102c8565b600084815260208120601f198516915b828110156103615787850151825560209485019460019092019101610341565b508482101561037f5786840151600019600387901b60f8161c191681555b50505050600190811b01905550565b6080516111ef6103be60003960008181610278015281816104a3015281816104cd015261050601526111ef6000f3fe608060405234801561001057600080fd5b50600436106101215760003560e01c806370a08231116100ad578063b88d4fde11610071578063b88d4fde1461024d578063c87b56dd14610260578063d5abeb0114610273578063e985e9c51461029a578063f2fde38b146102ad57600080fd5b806370a0823114610206578063715018a6146102195780638da5cb5b1461022157806395d89b4114610232578063a22cb4651461023a57600080fd5b806318160ddd116100f457806318160ddd146101a357806323b872dd146101ba57806342842e0e146101cd5780636352211e146101e05780636a627842146101f357600080fd5b806301ffc9a71461012657806306fdde031461014e578063081812fc14610163578063095ea7b31461018e575b600080fd5b610139610134366004610e34565b6102c0565b60405190151581526020015b60405180910390f35b610156610312565b6040516101459190610ea1565b610176610171366004610eb4565b6103a4565b6040516001600160a01b039091168152602001610145565b6101a161019c366004610ee4565b6103cd565b005b6101ac60085481565b604051908152602001610145565b6101a16101c8366004610f0e565b6103dc565b6101a16101db366004610f0e565b61046c565b6101766101ee366004610eb4565b61048c565b6101ac610201366004610f4b565b610497565b6101ac610214366004610f4b565b610557565b6101a161059f565b6006546001600160a01b0316610176565b6101566105b3565b6101a1610248366004610f66565b6105c2565b6101a161025b366004610fb8565b6105cd565b61015661026e366004610eb4565b6105e4565b6101ac7f000000000000000000000000000000000000000000000000000000000000000081565b6101396102a836600461109c565b61064c565b6101a16102bb366004610f4b565b61067a565b60006001600160e01b031982166380ac58cd60e01b14806102f157506001600160e01b03198216635b5e139f60e01b145b8061030c57506301ffc9a760e01b6001600160e01b03198316145b92915050565b606060008054610321906110cf565b80601f016020809104026020016040519081016040528092919081815260200182805461034d906110cf565b801561039a5780601f1061036f5761010080835404028352916020019161039a565b820191906000526020600020905b81548152906001019060200180831161037d57829003601f168201915b5050505050905090565b60006103af826106b8565b506000828152600460205260409020546001600160a01b031661030c565b6103d88282336106f1565b5050565b6001600160a01b03821661040b57604051633250574960e11b8152600060048201526024015b60405180910390fd5b60006104188383336106fe565b9050836001600160a01b0316816001600160a01b031614610466576040516364283d7b60e01b81526001600160a01b0380861660048301526024820184905282166044820152606401610402565b50505050565b610487838383604051806020016040528060008152506105cd565b505050565b600061030c826106b8565b60006104a16107f7565b7f0000000000000000000000000000000000000000000000000000000000000000158015906104f257507f000000000000000000000000000000000000000000000000000000000000000060085410155b156105325760405163f9f8491560e01b81527f00000000000000000000000000000000000000000000000000000000000000006004820152602401610402565b60086000815461054190611109565b918290555090506105528282610824565b919050565b60006001600160a01b038216610583576040516322718ad960e21b815260006004820152602401610402565b506001600160a01b031660009081526003602052604090205490565b6105a76107f7565b6105b1600061083e565b565b606060018054610321906110cf565b6103d8338383610890565b6105d88484846103dc565b6104668484848461092f565b60606105ef826106b8565b5060006105fa610a58565b9050600081511161061a5760405180602001604052806000815250610645565b8061062484610a67565b604051602001610635929190611130565b6040516020818303038152906040525b9392505050565b6001600160a01b03918216600090815260056020908152604080832093909416825291909152205460ff1690565b6106826107f7565b6001600160a01b0381166106ac57604051631e4fbdf760e01b815260006004820152602401610402565b6106b58161083e565b50565b6000818152600260205260408120546001600160a01b03168061030c57604051637e27328960e01b815260048101849052602401610402565b6104878383836001610afa565b6000828152600260205260408120546001600160a01b039081169083161561072b5761072b818486610c00565b6001600160a01b0381161561076957610748600085600080610afa565b6001600160a01b038116600090815260036020526040902080546000190190555b6001600160a01b03851615610798576001600160a01b0385166000908152600360205260409020805460010190555b60008481526002602052604080822080546001600160a01b0319166001600160a01b0389811691821790925591518793918516917fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef91a4949350505050565b6006546001600160a01b031633146105b15760405163118cdaa760e01b8152336004820152602401610402565b6103d8828260405180602001604052806000815250610c64565b600680546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b6001600160a01b0382166108c257604051630b61174360e31b81526001600160a01b0383166004820152602401610402565b6001600160a01b03838116600081815260056020908152604080832094871680845294825291829020805460ff191686151590811790915591519182527f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c31910160405180910390a3505050565b6001600160a01b0383163b1561046657604051630a85bd0160e11b81526001600160a01b0384169063150b7a029061097190339088908790879060040161115f565b6020604051808303816000875af19250505080156109ac575060408051601f3d908101601f191682019092526109a99181019061119c565b60015b610a15573d8080156109da576040519150601f19603f3d011682016040523d82523d6000602084013e6109df565b606091505b508051600003610a0d57604051633250574960e11b81526001600160a01b0385166004820152602401610402565b805181602001fd5b6001600160e01b03198116630a85bd0160e11b14610a5157604051633250574960e11b81526001600160a01b0385166004820152602401610402565b5050505050565b606060078054610321906110cf565b60606000610a7483610c7b565b600101905060008167ffffffffffffffff811115610a9457610a94610fa2565b6040519080825280601f01601f191660200182016040528015610abe576020820181803683370190505b5090508181016020015b600019016f181899199a1a9b1b9c1cb0b131b232b360811b600a86061a8153600a8504945084610ac857509392505050565b8080610b0e57506001600160a01b03821615155b15610bd0576000610b1e846106b8565b90506001600160a01b03831615801590610b4a5750826001600160a01b0316816001600160a01b031614155b8015610b5d5750610b5b818461064c565b155b15610b865760405163a9fbf51f60e01b81526001600160a01b0384166004820152602401610402565b8115610bce5783856001600160a01b0316826001600160a01b03167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92560405160405180910390a45b505b5050600090815260046020526040902080546001600160a01b0319166001600160a01b0392909216919091179055565b610c0b838383610d53565b610487576001600160a01b038316610c3957604051637e27328960e01b815260048101829052602401610402565b60405163177e802f60e01b81526001600160a01b038316600482015260248101829052604401610402565b610c6e8383610db9565b610487600084848461092f565b60008072184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b8310610cba5772184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b830492506040015b6d04ee2d6d415b85acef81000000008310610ce6576d04ee2d6d415b85acef8100000000830492506020015b662386f26fc100008310610d0457662386f26fc10000830492506010015b6305f5e1008310610d1c576305f5e100830492506008015b6127108310610d3057612710830492506004015b60648310610d42576064830492506002015b600a831061030c5760010192915050565b60006001600160a01b03831615801590610db15750826001600160a01b0316846001600160a01b03161480610d8d5750610d8d848461064c565b80610db157506000828152600460205260409020546001600160a01b038481169116145b949350505050565b6001600160a01b038216610de357604051633250574960e11b815260006004820152602401610402565b6000610df1838360006106fe565b90506001600160a01b03811615610487576040516339e3563760e11b815260006004820152602401610402565b6001600160e01b0319811681146106b557600080fd5b600060208284031215610e4657600080fd5b813561064581610e1e565b60005b83811015610e6c578181015183820152602001610e54565b50506000910152565b60008151808452610e8d816020860160208601610e51565b601f01601f19169290920160200192915050565b6020815260006106456020830184610e75565b600060208284031215610ec657600080fd5b5035919050565b80356001600160a01b038116811461055257600080fd5b60008060408385031215610ef757600080fd5b610f0083610ecd565b946020939093013593505050565b600080600060608486031215610f2357600080fd5b610f2c84610ecd565b9250610f3a60208501610ecd565b929592945050506040919091013590565b600060208284031215610f5d57600080fd5b61064582610ecd565b60008060408385031215610f7957600080fd5b610f8283610ecd565b915060208301358015158114610f9757600080fd5b809150509250929050565b634e487b7160e01b600052604160045260246000fd5b60008060008060808587031215610fce57600080fd5b610fd785610ecd565b9350610fe560208601610ecd565b925060408501359150606085013567ffffffffffffffff81111561100857600080fd5b8501601f8101871361101957600080fd5b803567ffffffffffffffff81111561103357611033610fa2565b604051601f8201601f19908116603f0116810167ffffffffffffffff8111828210171561106257611062610fa2565b60405281815282820160200189101561107a57600080fd5b8160208401602083013760006020838301015280935050505092959194509250565b600080604083850312156110af57600080fd5b6110b883610ecd565b91506110c660208401610ecd565b90509250929050565b600181811c908216806110e357607f821691505b60208210810361110357634e487b7160e01b600052602260045260246000fd5b50919050565b60006001820161112957634e487b7160e01b600052601160045260246000fd5b5060010190565b60008351611142818460208801610e51565b835190830190611156818360208801610e51565b01949350505050565b6001600160a01b038581168252841660208201526040810183905260806060820181905260009061119290830184610e75565b9695505050505050565b6000602082840312156111ae57600080fd5b815161064581610e1e56fea2646970667358221220399e6b5235c78e806399b5316f42a125570611af5ad5a1d0103f0bdacde7a31464736f6c634300081a0033",
+} as const;
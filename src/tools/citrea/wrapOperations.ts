@@ -0,0 +1,146 @@
+import { ethers, Contract, parseEther, type ContractRunner } from "ethers";
+import { getSigner, getProvider, getAgentAddress, verifyNetwork, type CitreaClient } from "../../core/client";
+import { sendTransaction, waitForTransaction, TransactionLifecycleError } from "../../core/transactions";
+import { isDryRun, simulateTransaction, type SimulationResult } from "../../core/simulation";
+import { buildTransactionResult, type TransactionResult } from "../../core/results";
+import { getContractAddress } from "../../core/networks";
+import { wrappedNativeAbi } from "./abis";
+
+export interface WrapCBTCParams {
+  amount: string; // CBTC to wrap, or WCBTC to unwrap, in whole units
+  dryRun?: boolean; // Simulate instead of broadcasting (default: the client's mode)
+}
+
+const getWrappedNative = (client: CitreaClient, runner: ContractRunner = getSigner(client)) =>
+  new Contract(getContractAddress(client.network, "wrappedNative"), wrappedNativeAbi, runner);
+
+/** WCBTC held by the agent wallet, in wei */
+export const getWrappedBalance = async (client: CitreaClient): Promise<bigint> =>
+  await getWrappedNative(client, getProvider(client)).balanceOf(await getAgentAddress(client));
+
+/**
+ * Wraps native CBTC into WCBTC by depositing it in the network's wrapped
+ * native contract
+ */
+export const wrapCBTC = async (
+  client: CitreaClient,
+  { amount, dryRun }: WrapCBTCParams
+): Promise<TransactionResult | SimulationResult> => {
+  try {
+    if (!amount || Number(amount) <= 0) {
+      throw new Error("Amount must be greater than 0");
+    }
+
+    // Refuse to sign unless the RPC serves the configured network
+    await verifyNetwork(client);
+
+    const wrapped = getWrappedNative(client);
+    const wrappedAddress = await wrapped.getAddress();
+    const value = parseEther(amount);
+
+    const balance = await getProvider(client).getBalance(await getAgentAddress(client));
+    if (balance < value) {
+      throw new Error(`Insufficient CBTC balance. Current: ${ethers.formatEther(balance)} CBTC, Required: ${amount} CBTC`);
+    }
+
+    const txRequest = await wrapped.deposit.populateTransaction({ value });
+
+    if (isDryRun(client, dryRun)) {
+      return await simulateTransaction(client, txRequest, {
+        balanceChanges: [{ asset: "WCBTC", token: wrappedAddress, amount: `+${ethers.formatEther(value)}` }],
+      });
+    }
+
+    console.log(`Wrapping ${amount} CBTC into WCBTC...`);
+
+    const tx = await sendTransaction(client, txRequest);
+    console.log(`Wrap transaction sent: ${tx.hash}`);
+
+    const receipt = await waitForTransaction(client, tx);
+
+    console.log(`✅ CBTC wrapped successfully. Transaction hash: ${receipt.hash}`);
+    return await buildTransactionResult(client, receipt, { tokens: [wrappedAddress] });
+
+  } catch (error: any) {
+    if (error instanceof TransactionLifecycleError) {
+      throw error;
+    }
+
+    console.error("CBTC wrap failed:", error.message);
+
+    if (error.code === 'INSUFFICIENT_FUNDS') {
+      throw new Error("Insufficient CBTC for the wrap and gas fees");
+    } else if (error.code === 'NETWORK_ERROR') {
+      throw new Error("Network error during wrap");
+    } else if (error.code === 'TIMEOUT') {
+      throw new Error("Wrap transaction timed out");
+    }
+
+    throw new Error(`CBTC wrap failed: ${error.message}`);
+  }
+};
+
+/**
+ * Unwraps WCBTC back into native CBTC with the wrapped native contract's
+ * withdraw
+ */
+export const unwrapCBTC = async (
+  client: CitreaClient,
+  { amount, dryRun }: WrapCBTCParams
+): Promise<TransactionResult | SimulationResult> => {
+  try {
+    if (!amount || Number(amount) <= 0) {
+      throw new Error("Amount must be greater than 0");
+    }
+
+    // Refuse to sign unless the RPC serves the configured network
+    await verifyNetwork(client);
+
+    const wrapped = getWrappedNative(client);
+    const wrappedAddress = await wrapped.getAddress();
+    const value = parseEther(amount);
+
+    const balance = await getWrappedBalance(client);
+    if (balance < value) {
+      throw new Error(`Insufficient WCBTC balance. Current: ${ethers.formatEther(balance)} WCBTC, Required: ${amount} WCBTC`);
+    }
+
+    const txRequest = await wrapped.withdraw.populateTransaction(value);
+
+    if (isDryRun(client, dryRun)) {
+      return await simulateTransaction(client, txRequest, {
+        balanceChanges: [
+          { asset: "WCBTC", token: wrappedAddress, amount: `-${ethers.formatEther(value)}` },
+          { asset: "CBTC", amount: `+${ethers.formatEther(value)}` },
+        ],
+      });
+    }
+
+    console.log(`Unwrapping ${amount} WCBTC into CBTC...`);
+
+    const tx = await sendTransaction(client, txRequest);
+    console.log(`Unwrap transaction sent: ${tx.hash}`);
+
+    const receipt = await waitForTransaction(client, tx);
+
+    console.log(`✅ WCBTC unwrapped successfully. Transaction hash: ${receipt.hash}`);
+    return await buildTransactionResult(client, receipt, { tokens: [wrappedAddress] });
+
+  } catch (error: any) {
+    if (error instanceof TransactionLifecycleError) {
+      throw error;
+    }
+
+    console.error("WCBTC unwrap failed:", error.message);
+
+    if (error.code === 'INSUFFICIENT_FUNDS') {
+      throw new Error("Insufficient CBTC for gas fees");
+    } else if (error.code === 'NETWORK_ERROR') {
+      throw new Error("Network error during unwrap");
+    } else if (error.code === 'TIMEOUT') {
+      throw new Error("Unwrap transaction timed out");
+    }
+
+    throw new Error(`WCBTC unwrap failed: ${error.message}`);
+  }
+};
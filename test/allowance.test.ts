@@ -0,0 +1,102 @@
+import { AbiCoder, Interface, MaxUint256, Wallet, getAddress } from 'ethers';
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import { createClient } from '../src/core/client.js';
+import { createTools } from '../src/tools.js';
+import { approveErc20, getAllowance, revokeAllowance } from '../src/tools/citrea/erc20Operations.js';
+import { erc20Abi } from '../src/tools/citrea/abis.js';
+import { startMockRpcServer, createMockChain } from './mockRpc.js';
+
+const SPENDER = '0x936cEfb89d47F620EAb665D9Bd27BA06b0cF11c7';
+const TOKEN = '0x1111111111111111111111111111111111111111';
+
+const coder = AbiCoder.defaultAbiCoder();
+const erc20 = new Interface(erc20Abi);
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+// A 6-decimal token with the given allowance; approve() calls succeed
+const withToken = async (
+  allowance: bigint,
+  run: (client: ReturnType<typeof createClient>, approvals: () => bigint[]) => Promise<void>
+) => {
+  const chain = createMockChain();
+  const responses: Record<string, string> = {
+    [erc20.getFunction('decimals')!.selector]: coder.encode(['uint8'], [6]),
+    [erc20.getFunction('symbol')!.selector]: coder.encode(['string'], ['USDC']),
+    [erc20.getFunction('allowance')!.selector]: coder.encode(['uint256'], [allowance]),
+  };
+  const node = await startMockRpcServer({
+    ...chain.handlers,
+    eth_call: ([call]: any[]) => (call.to && getAddress(call.to) === TOKEN && responses[(call.data ?? '0x').slice(0, 10)]) || coder.encode(['bool'], [true]),
+  });
+  const client = createClient({ rpcUrl: node.url, privateKey: Wallet.createRandom().privateKey });
+  const approvals = () => [...chain.transactions.values()].map(({ tx }) => {
+    const [spender, amount] = erc20.decodeFunctionData('approve', tx.data);
+    if (spender !== SPENDER) throw new Error(`Approved the wrong spender ${spender}`);
+    return amount as bigint;
+  });
+
+  try {
+    await run(client, approvals);
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+};
+
+await test('approvals are exact by default and unlimited only with the flag', async () => {
+  await withToken(0n, async (client, approvals) => {
+    await approveErc20(client, { tokenAddress: TOKEN, spenderAddress: SPENDER, amount: '12.5' });
+    await approveErc20(client, { tokenAddress: TOKEN, spenderAddress: SPENDER, unlimited: true });
+
+    const [exact, unlimited] = approvals();
+    if (exact !== 12_500_000n) throw new Error(`Expected an exact approval, got ${exact}`);
+    if (unlimited !== MaxUint256) throw new Error(`Expected an unlimited approval, got ${unlimited}`);
+
+    try {
+      await approveErc20(client, { tokenAddress: TOKEN, spenderAddress: SPENDER });
+      throw new Error('An approval without amount or unlimited flag should fail');
+    } catch (error: any) {
+      if (!error.message.includes('Amount must be greater than 0')) throw error;
+    }
+  });
+});
+
+await test('revoking sets the allowance to zero', async () => {
+  await withToken(5n, async (client, approvals) => {
+    await revokeAllowance(client, { tokenAddress: TOKEN, spenderAddress: SPENDER });
+    const [amount] = approvals();
+    if (amount !== 0n) throw new Error(`Expected a zero approval, got ${amount}`);
+  });
+});
+
+await test('allowances are reported in token units', async () => {
+  await withToken(2_000_000n, async (client) => {
+    const allowance = await getAllowance(client, { tokenAddress: TOKEN, spenderAddress: SPENDER });
+    if (allowance !== '2.0 USDC') throw new Error(`Unexpected allowance ${allowance}`);
+  });
+  await withToken(MaxUint256, async (client) => {
+    const allowance = await getAllowance(client, { tokenAddress: TOKEN, spenderAddress: SPENDER });
+    if (allowance !== 'unlimited USDC') throw new Error(`Unexpected allowance ${allowance}`);
+  });
+});
+
+await test('the approve_erc20 tool approves the exact amount', async () => {
+  await withToken(0n, async (client, approvals) => {
+    const tools: StructuredToolInterface[] = createTools({ getClient: () => client });
+    const approve = tools.find((tool) => tool.name === 'approve_erc20')!;
+
+    await approve.invoke({ tokenAddress: TOKEN, spenderAddress: SPENDER, amount: '3' });
+    const [amount] = approvals();
+    if (amount !== 3_000_000n) throw new Error(`Expected an exact approval, got ${amount}`);
+  });
+});
@@ -0,0 +1,82 @@
+import { Wallet } from 'ethers';
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import { createClient } from '../src/core/client.js';
+import { createTools } from '../src/tools.js';
+import type { ApprovalDecision, TransactionAction } from '../src/approval.js';
+import { startMockRpcServer, createMockChain } from './mockRpc.js';
+
+const RECIPIENT = '0x936cEfb89d47F620EAb665D9Bd27BA06b0cF11c7';
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+// Runs one tool against a fresh mock chain with the given approval hook
+const withTools = async (
+  decide: (action: TransactionAction) => ApprovalDecision,
+  run: (tools: Record<string, StructuredToolInterface>, context: { actions: TransactionAction[]; chain: ReturnType<typeof createMockChain> }) => Promise<void>
+) => {
+  const chain = createMockChain();
+  const node = await startMockRpcServer({ ...chain.handlers, eth_call: () => '0x' });
+  const client = createClient({ rpcUrl: node.url, privateKey: Wallet.createRandom().privateKey });
+  const actions: TransactionAction[] = [];
+  const tools: StructuredToolInterface[] = createTools({
+    getClient: () => client,
+    getBeforeTransactionHook: () => (action) => {
+      actions.push(action);
+      return decide(action);
+    },
+  });
+
+  try {
+    await run(Object.fromEntries(tools.map((tool) => [tool.name, tool])), { actions, chain });
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+};
+
+await test('the hook sees a summary and gas estimate, and approval sends the transaction', async () => {
+  await withTools(() => ({ decision: 'approve' }), async (tools, { actions, chain }) => {
+    await tools.transfer_cbtc.invoke({ toAddress: RECIPIENT, amount: '0.1' });
+
+    const [action] = actions;
+    if (action.tool !== 'transfer_cbtc' || action.summary !== `Transfer 0.1 CBTC to ${RECIPIENT}`) {
+      throw new Error(`Unexpected action ${JSON.stringify({ ...action, estimatedGas: String(action.estimatedGas) })}`);
+    }
+    if (action.estimatedGas !== 21000n) throw new Error(`Unexpected gas estimate ${action.estimatedGas}`);
+    if (chain.transactions.size !== 1) throw new Error('Approved transfer was not sent');
+  });
+});
+
+await test('a rejection is returned to the LLM and nothing is sent', async () => {
+  await withTools(() => ({ decision: 'reject', reason: 'recipient not on the allow list' }), async (tools, { chain }) => {
+    const output = await tools.transfer_cbtc.invoke({ toAddress: RECIPIENT, amount: '0.1' });
+    if (typeof output !== 'string' || !output.includes('rejected by the approver: recipient not on the allow list')) {
+      throw new Error(`Unexpected tool output: ${output}`);
+    }
+    if (chain.transactions.size !== 0) throw new Error('Rejected transfer was sent');
+  });
+});
+
+await test('modified arguments are validated and used instead', async () => {
+  await withTools((action) => ({ decision: 'modify', args: { ...action.args, amount: '0.05' } }), async (tools, { chain }) => {
+    await tools.transfer_cbtc.invoke({ toAddress: RECIPIENT, amount: '0.1' });
+    const [{ tx }] = [...chain.transactions.values()];
+    if (tx.value !== 5n * 10n ** 16n) throw new Error(`Expected the modified amount, sent ${tx.value}`);
+  });
+});
+
+await test('read-only tools skip the hook', async () => {
+  await withTools(() => ({ decision: 'reject' }), async (tools, { actions }) => {
+    await tools.get_cbtc_balance.invoke({});
+    if (actions.length !== 0) throw new Error('Balance lookup should not ask for approval');
+  });
+});
@@ -2,7 +2,6 @@ import { createTestAgent, type CitreaAgentType } from './setup.js';
 import { CitreaAgent } from '../src/CitreaAgent.js';
 import { HumanMessage, AIMessage, type BaseMessage } from '@langchain/core/messages';
 import { config } from 'dotenv';
-import { getAgentAddress } from '../src/core/client.js';
 
 // Load environment variables
 config();
@@ -59,13 +58,16 @@ await test('get ERC20 balance via natural language', async () => {
 
 // Test getting balance of specific wallet
 await test('get balance of specific wallet', async () => {
-  const memory = await agent.execute("This is the wallet address of bob 0x936cEfb89d47F620EAb665D9Bd27BA06b0cF11c7?");
+  // Saved in the address book, so the later prompts do not depend on chat history
+  await agent.execute('Save bob as a contact with wallet address 0x936cEfb89d47F620EAb665D9Bd27BA06b0cF11c7');
   const transfer = await agent.execute(
-    'Transfer 1 CBTC to bob'
+    'Transfer 1 CBTC to bob',
+    { sessionId: 'address-book' }
   );
   
   const result = await agent.execute(
-    'What is the CBTC balance of bob? wallet address '
+    'What is the CBTC balance of bob?',
+    { sessionId: 'address-book' }
   );
   console.log('Agent response:', result);
 });
@@ -263,7 +265,7 @@ await test('swap CBTC to WBTC (V2)', async () => {
   console.log('Initial WBTC Balance:', initialWBTCBalance);
 
   // Get the agent's actual wallet address
-  const agentWalletAddress = getAgentAddress();
+  const agentWalletAddress = await agent.getAddress();
 
   // For V2 swaps with native tokens, use the zero address as the first token in path
   const swapResult = await agent.execute(
@@ -0,0 +1,201 @@
+import { AbiCoder, Interface, Transaction, Wallet, getAddress, parseEther } from 'ethers';
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import { createClient } from '../src/core/client.js';
+import { MULTICALL3_ADDRESS } from '../src/core/networks.js';
+import { createTools } from '../src/tools.js';
+import { PolicyEngine, PolicyViolationError } from '../src/policy.js';
+import { batchTransfer, type BatchTransferReport } from '../src/tools/citrea/batchOperations.js';
+import { erc20Abi, multicall3Abi } from '../src/tools/citrea/abis.js';
+import { startMockRpcServer, createMockChain } from './mockRpc.js';
+
+const TOKEN = '0x1111111111111111111111111111111111111111';
+const ALICE = '0x936cEfb89d47F620EAb665D9Bd27BA06b0cF11c7';
+const BOB = '0x2222222222222222222222222222222222222222';
+const CAROL = '0x3333333333333333333333333333333333333333';
+
+const coder = AbiCoder.defaultAbiCoder();
+const erc20 = new Interface(erc20Abi);
+const multicall3 = new Interface(multicall3Abi);
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+// A chain with 1 CBTC and 100 of a 6-decimal token; `rejected` recipients make the node refuse the
+// transaction, and a transaction paying a `reverting` recipient, directly or through Multicall3, reverts
+const withNode = async (
+  { multicall = true, rejected = new Set<string>(), reverting = new Set<string>() }: { multicall?: boolean; rejected?: Set<string>; reverting?: Set<string> },
+  run: (client: ReturnType<typeof createClient>, sent: () => Transaction[]) => Promise<void>
+) => {
+  const chain = createMockChain();
+  const node = await startMockRpcServer({
+    ...chain.handlers,
+    eth_getCode: ([address]: any[]) => (multicall && getAddress(address) === MULTICALL3_ADDRESS ? '0x6080' : '0x'),
+    eth_call: ([call]: any[]) => {
+      const selector = (call.data ?? '0x').slice(0, 10);
+      if (selector === erc20.getFunction('decimals')!.selector) return coder.encode(['uint8'], [6]);
+      if (selector === erc20.getFunction('symbol')!.selector) return coder.encode(['string'], ['USDC']);
+      if (selector === erc20.getFunction('balanceOf')!.selector) return coder.encode(['uint256'], [100_000_000n]);
+      return coder.encode(['bool'], [true]);
+    },
+    eth_sendRawTransaction: (params: any[]) => {
+      const tx = Transaction.from(params[0]);
+      const to = getAddress(tx.to!) === TOKEN ? erc20.decodeFunctionData('transfer', tx.data)[0] : getAddress(tx.to!);
+      if (rejected.has(to)) throw new Error('transaction rejected by the node');
+      const hash = chain.handlers.eth_sendRawTransaction(params);
+      const paid = getAddress(tx.to!) === MULTICALL3_ADDRESS
+        ? multicall3.decodeFunctionData('aggregate3Value', tx.data)[0].map((call: any) => getAddress(call.target))
+        : [to];
+      if (paid.some((recipient: string) => reverting.has(recipient))) chain.receipts.get(hash).status = '0x0';
+      return hash;
+    },
+  });
+  const client = createClient({ rpcUrl: node.url, privateKey: Wallet.createRandom().privateKey });
+  const sent = () => [...chain.transactions.values()].map(({ tx }) => tx as Transaction);
+
+  try {
+    await run(client, sent);
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+};
+
+const csv = `recipient,asset,amount
+${ALICE},CBTC,0.1
+${BOB},cbtc,0.2
+${CAROL},${TOKEN},12.5`;
+
+await test('CBTC rows go through one Multicall3 transaction and ERC20 rows are sent one by one', async () => {
+  await withNode({}, async (client, sent) => {
+    const report = await batchTransfer(client, { csv });
+
+    const [batch, transfer] = sent();
+    if (sent().length !== 2 || getAddress(batch.to!) !== MULTICALL3_ADDRESS || getAddress(transfer.to!) !== TOKEN) {
+      throw new Error(`Unexpected transactions to ${sent().map((tx) => tx.to).join(', ')}`);
+    }
+    const [calls] = multicall3.decodeFunctionData('aggregate3Value', batch.data);
+    const paid = calls.map((call: any) => `${call.target}:${call.value}:${call.allowFailure}`);
+    if (paid.join(',') !== `${ALICE}:${parseEther('0.1')}:false,${BOB}:${parseEther('0.2')}:false` || batch.value !== parseEther('0.3')) {
+      throw new Error(`Unexpected multicall ${paid.join(', ')} with value ${batch.value}`);
+    }
+    const [, amount] = erc20.decodeFunctionData('transfer', transfer.data);
+    if (amount !== 12_500_000n) throw new Error(`Unexpected token amount ${amount}`);
+
+    if (report.rows.some((row) => row.status !== 'confirmed') || report.totals.CBTC !== '0.3' || report.totals.USDC !== '12.5') {
+      throw new Error(`Unexpected report ${JSON.stringify(report)}`);
+    }
+  });
+});
+
+await test('without Multicall3 every row is its own transaction with consecutive nonces', async () => {
+  await withNode({ multicall: false }, async (client, sent) => {
+    const report = await batchTransfer(client, { csv });
+    const nonces = sent().map((tx) => tx.nonce);
+    if (nonces.join(',') !== '0,1,2' || report.rows.some((row) => row.via !== 'transfer' || row.status !== 'confirmed')) {
+      throw new Error(`Unexpected nonces ${nonces.join(',')} / report ${JSON.stringify(report.rows)}`);
+    }
+  });
+});
+
+await test('invalid rows and insufficient balances reject the whole batch before sending', async () => {
+  await withNode({}, async (client, sent) => {
+    const invalid = [
+      { recipient: '0x1234', asset: 'CBTC', amount: '0.1' },
+      { recipient: ALICE, asset: TOKEN, amount: '0.0000001' },
+      { recipient: BOB, asset: 'CBTC', amount: '0.1' },
+    ];
+    for (const [rows, expected] of [
+      [invalid, '2 invalid row(s)'],
+      [[{ recipient: ALICE, asset: 'CBTC', amount: '0.6' }, { recipient: BOB, asset: 'CBTC', amount: '0.6' }], 'CBTC: need 1.2 plus about'],
+      // The whole balance leaves nothing for gas
+      [[{ recipient: ALICE, asset: 'CBTC', amount: '0.5' }, { recipient: BOB, asset: 'CBTC', amount: '0.5' }], 'CBTC: need 1.0 plus about 0.000021 for gas, have 1.0'],
+    ] as const) {
+      try {
+        await batchTransfer(client, { rows: [...rows] });
+        throw new Error('The batch should have been rejected');
+      } catch (error: any) {
+        if (!error.message.includes(expected)) throw error;
+      }
+    }
+    if (sent().length !== 0) throw new Error('Nothing should have been sent');
+  });
+});
+
+await test('failed rows are reported and a resumed run sends only those', async () => {
+  const rejected = new Set([BOB]);
+  await withNode({ multicall: false, rejected }, async (client, sent) => {
+    const tools: StructuredToolInterface[] = createTools({ getClient: () => client });
+    const tool = tools.find((candidate) => candidate.name === 'batch_transfer')!;
+    const output = JSON.parse(await tool.invoke({ csv }));
+    if (output.status !== '2 confirmed, 1 failed, 0 pending' || output.retryCsv !== `recipient,asset,amount\n${BOB},cbtc,0.2`) {
+      throw new Error(`Unexpected tool output ${JSON.stringify(output)}`);
+    }
+
+    const first = await batchTransfer(client, { csv, dryRun: true });
+    if (first.rows.some((row) => row.status !== 'simulated')) throw new Error('A dry run should only simulate');
+
+    rejected.clear();
+    const previous: BatchTransferReport = {
+      batch: true,
+      totals: {},
+      rows: first.rows.map((row) => ({ ...row, status: row.recipient === BOB ? 'failed' : 'confirmed' })),
+    };
+    const before = sent().length;
+    const resumed = await batchTransfer(client, { csv, resume: previous });
+    const resent = sent().slice(before);
+    if (resent.length !== 1 || getAddress(resent[0].to!) !== BOB || resumed.rows.some((row) => row.status !== 'confirmed')) {
+      throw new Error(`Resume sent ${resent.length} transaction(s): ${JSON.stringify(resumed.rows)}`);
+    }
+  });
+});
+
+await test('the rows of a reverted Multicall3 transaction are retried one by one', async () => {
+  await withNode({ reverting: new Set([BOB]) }, async (client, sent) => {
+    const report = await batchTransfer(client, { csv });
+
+    const targets = sent().map((tx) => getAddress(tx.to!));
+    if (targets.join(',') !== [MULTICALL3_ADDRESS, ALICE, BOB, TOKEN].join(',')) throw new Error(`Unexpected transactions to ${targets.join(', ')}`);
+    const statuses = report.rows.map((row) => `${row.status}:${row.via}`);
+    if (statuses.join(',') !== 'confirmed:transfer,failed:transfer,confirmed:transfer') {
+      throw new Error(`Unexpected report ${JSON.stringify(report.rows)}`);
+    }
+  });
+});
+
+await test('the spending policy checks every row of a batch', async () => {
+  await withNode({}, async (client, sent) => {
+    const engine = new PolicyEngine({ limits: { CBTC: { daily: '0.25' } } });
+    const tools: StructuredToolInterface[] = createTools({ getClient: () => client, getPolicy: () => engine });
+    const tool = tools.find((candidate) => candidate.name === 'batch_transfer')!;
+    try {
+      await tool.invoke({ csv });
+      throw new Error('The batch exceeds the daily CBTC limit');
+    } catch (error) {
+      if (!(error instanceof PolicyViolationError) || error.rule !== 'daily') throw error;
+    }
+    // The first row's reservation was released with the rest
+    await tool.invoke({ rows: [{ recipient: ALICE, asset: 'CBTC', amount: '0.25' }] });
+    if (sent().length !== 1) throw new Error(`Expected only the allowed transfer, sent ${sent().length}`);
+  });
+});
+
+await test('failed rows do not use up the daily limit', async () => {
+  await withNode({ multicall: false, rejected: new Set([BOB]) }, async (client, sent) => {
+    const engine = new PolicyEngine({ limits: { CBTC: { daily: '0.3' } } });
+    const tools: StructuredToolInterface[] = createTools({ getClient: () => client, getPolicy: () => engine });
+    const tool = tools.find((candidate) => candidate.name === 'batch_transfer')!;
+    await tool.invoke({ rows: [{ recipient: ALICE, asset: 'CBTC', amount: '0.1' }, { recipient: BOB, asset: 'CBTC', amount: '0.2' }] });
+
+    // Only the 0.1 paid to Alice counts, so another 0.2 still fits
+    await tool.invoke({ rows: [{ recipient: CAROL, asset: 'CBTC', amount: '0.2' }] });
+    if (sent().length !== 2) throw new Error(`Expected Alice's and Carol's transfers, sent ${sent().length}`);
+  });
+});
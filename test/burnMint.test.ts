@@ -0,0 +1,195 @@
+import { AbiCoder, Interface, Transaction, Wallet, getAddress, id } from 'ethers';
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import { createClient } from '../src/core/client.js';
+import { AddressBook } from '../src/core/contacts.js';
+import { DEFAULT_BURN_ADDRESS } from '../src/core/networks.js';
+import type { TransactionResult } from '../src/core/results.js';
+import type { SimulationResult } from '../src/core/simulation.js';
+import { createTools } from '../src/tools.js';
+import { burnErc20, getMintAuthority, mintErc20 } from '../src/tools/citrea/erc20Operations.js';
+import { erc20Abi, erc20BurnableAbi, erc20MintableAbi } from '../src/tools/citrea/abis.js';
+import { startMockRpcServer, createMockChain, RpcRevert } from './mockRpc.js';
+
+const TOKEN = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+const HOLDER = '0x3333333333333333333333333333333333333333';
+
+const coder = AbiCoder.defaultAbiCoder();
+const erc20 = new Interface(erc20Abi);
+const burnable = new Interface(erc20BurnableAbi);
+const mintable = new Interface(erc20MintableAbi);
+
+const revertWith = (reason: string) => new RpcRevert(`0x08c379a0${coder.encode(['string'], [reason]).slice(2)}`);
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+interface TokenBehaviour {
+  /** Functions the token does not implement; calling them reverts without data */
+  missing?: string[];
+  /** Functions that exist but revert with this reason */
+  refusing?: Record<string, string>;
+  minter?: string;
+  owner?: string;
+  /** Deployed from the kit's CitreaERC20 template with these flags */
+  template?: { mintable: boolean; burnable: boolean };
+}
+
+// An 18-decimal token holding 100 TKN for everyone, whose functions are looked up by selector
+const withToken = async (
+  configure: TokenBehaviour | ((agent: string) => TokenBehaviour),
+  run: (client: ReturnType<typeof createClient>, sent: () => Transaction[]) => Promise<void>
+) => {
+  const wallet = Wallet.createRandom();
+  const behaviour = typeof configure === 'function' ? configure(wallet.address) : configure;
+  const chain = createMockChain();
+  const contacts = new AddressBook();
+  await contacts.save({ name: 'bob', address: BOB });
+
+  const node = await startMockRpcServer({
+    ...chain.handlers,
+    eth_call: ([call]: any[]) => {
+      const selector = (call.data ?? '0x').slice(0, 10);
+      const fragment = [erc20, burnable, mintable]
+        .map((iface) => iface.getFunction(selector))
+        .find((candidate) => candidate !== null);
+      const name = fragment?.name ?? 'unknown';
+      if (!fragment || behaviour.missing?.includes(name)) throw new RpcRevert('0x');
+      if (behaviour.refusing?.[name]) throw revertWith(behaviour.refusing[name]);
+      if (behaviour.template && !behaviour.template.burnable && name.startsWith('burn')) throw new RpcRevert(id('BurningDisabled()').slice(0, 10));
+
+      switch (name) {
+        case 'decimals': return coder.encode(['uint8'], [18]);
+        case 'symbol': return coder.encode(['string'], ['TKN']);
+        case 'balanceOf': return coder.encode(['uint256'], [100n * 10n ** 18n]);
+        case 'transfer': return coder.encode(['bool'], [true]);
+        case 'MINTER_ROLE': return id('MINTER_ROLE');
+        case 'hasRole': {
+          const [role, account] = mintable.decodeFunctionData('hasRole', call.data);
+          return coder.encode(['bool'], [role === id('MINTER_ROLE') && getAddress(account) === behaviour.minter]);
+        }
+        case 'owner': return coder.encode(['address'], [behaviour.owner ?? BOB]);
+        case 'mintable': return behaviour.template ? coder.encode(['bool'], [behaviour.template.mintable]) : '0x';
+        default: return '0x';
+      }
+    },
+  });
+  const client = createClient({ rpcUrl: node.url, privateKey: wallet.privateKey, contacts });
+  const sent = () => [...chain.transactions.values()].map(({ tx }) => tx as Transaction);
+
+  try {
+    await run(client, sent);
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+};
+
+const toolsByName = (tools: StructuredToolInterface[]) => Object.fromEntries(tools.map((tool) => [tool.name, tool]));
+
+await test('burnable tokens are burned with burn() and burnFrom()', async () => {
+  await withToken({}, async (client, sent) => {
+    const result = await burnErc20(client, { tokenAddress: TOKEN, amount: '1.5' }) as TransactionResult;
+    const [own] = sent();
+    const [amount] = burnable.decodeFunctionData('burn', own.data);
+    if (getAddress(own.to!) !== TOKEN || amount !== 1_500_000_000_000_000_000n || result.burn?.method !== 'burn') {
+      throw new Error(`Unexpected burn ${own.data} / ${JSON.stringify(result.burn)}`);
+    }
+
+    await burnErc20(client, { tokenAddress: TOKEN, amount: '2', fromAddress: HOLDER });
+    const [holder] = burnable.decodeFunctionData('burnFrom', sent()[1].data);
+    if (getAddress(holder) !== HOLDER) throw new Error(`burnFrom was called for ${holder}`);
+
+    const tools = toolsByName(createTools({ getClient: () => client }));
+    const output = JSON.parse(await tools.burn_erc20.invoke({ tokenAddress: TOKEN, amount: '1' }));
+    if (!output.burn.includes('total supply reduced')) throw new Error(`Unexpected tool output ${JSON.stringify(output)}`);
+  });
+});
+
+await test('tokens without burn() go to the dead address with a clear label, or not at all', async () => {
+  await withToken({ missing: ['burn', 'burnFrom'] }, async (client, sent) => {
+    const simulation = await burnErc20(client, { tokenAddress: TOKEN, amount: '1', dryRun: true }) as SimulationResult;
+    if (simulation.burn?.method !== 'deadAddress' || simulation.burn.burnAddress !== DEFAULT_BURN_ADDRESS) {
+      throw new Error(`Unexpected simulation ${JSON.stringify(simulation)}`);
+    }
+
+    const tools = toolsByName(createTools({ getClient: () => client }));
+    const output = JSON.parse(await tools.burn_erc20.invoke({ tokenAddress: TOKEN, amount: '1' }));
+    const [to] = erc20.decodeFunctionData('transfer', sent()[0].data);
+    if (getAddress(to) !== DEFAULT_BURN_ADDRESS || !output.burn.includes('total supply is unchanged')) {
+      throw new Error(`Unexpected dead-address burn to ${to}: ${JSON.stringify(output)}`);
+    }
+
+    for (const params of [{ allowDeadAddress: false }, { fromAddress: HOLDER }]) {
+      try {
+        await burnErc20(client, { tokenAddress: TOKEN, amount: '1', ...params });
+        throw new Error(`Burning with ${JSON.stringify(params)} should fail`);
+      } catch (error: any) {
+        if (!error.message.includes('TKN has no burn')) throw error;
+      }
+    }
+    if (sent().length !== 1) throw new Error(`Expected only the dead-address transfer, sent ${sent().length}`);
+  });
+});
+
+await test('a burn function that refuses is reported instead of falling back', async () => {
+  await withToken({ refusing: { burn: 'Pausable: paused' } }, async (client, sent) => {
+    try {
+      await burnErc20(client, { tokenAddress: TOKEN, amount: '1' });
+      throw new Error('The paused burn should fail');
+    } catch (error: any) {
+      if (!error.message.includes('Pausable: paused')) throw error;
+    }
+    if (sent().length !== 0) throw new Error('Nothing should have been sent');
+  });
+});
+
+await test('minting checks for MINTER_ROLE or ownership first', async () => {
+  await withToken({}, async (client, sent) => {
+    try {
+      await mintErc20(client, { tokenAddress: TOKEN, amount: '5' });
+      throw new Error('Minting without a role should fail');
+    } catch (error: any) {
+      if (!error.message.includes('neither the owner of TKN nor holds its MINTER_ROLE')) throw error;
+    }
+    if (sent().length !== 0) throw new Error('Nothing should have been sent');
+  });
+
+  for (const role of ['minter', 'owner'] as const) {
+    await withToken((agent) => ({ [role]: agent }), async (client, sent) => {
+      const tools = toolsByName(createTools({ getClient: () => client }));
+      const output = JSON.parse(await tools.mint_erc20.invoke({ tokenAddress: TOKEN, toAddress: 'bob', amount: '5' }));
+      const [to, amount] = mintable.decodeFunctionData('mint', sent()[0].data);
+      if (getAddress(to) !== BOB || amount !== 5n * 10n ** 18n || output.recipient !== `bob (${BOB})`) {
+        throw new Error(`Unexpected mint as ${role}: ${JSON.stringify(output)}`);
+      }
+    });
+  }
+});
+
+await test('template tokens deployed without minting or burning say so', async () => {
+  await withToken((agent) => ({ owner: agent, template: { mintable: false, burnable: false } }), async (client, sent) => {
+    if (await getMintAuthority(client, TOKEN) !== null) throw new Error('A token with minting disabled has no mint authority');
+
+    for (const [attempt, expected] of [
+      [() => mintErc20(client, { tokenAddress: TOKEN, amount: '5' }), 'TKN was deployed with minting disabled'],
+      [() => burnErc20(client, { tokenAddress: TOKEN, amount: '1' }), 'deployed with burning disabled'],
+    ] as const) {
+      try {
+        await attempt();
+        throw new Error(`${expected} should be reported`);
+      } catch (error: any) {
+        if (!error.message.includes(expected)) throw error;
+      }
+    }
+    if (sent().length !== 0) throw new Error('Nothing should have been sent');
+  });
+});
@@ -0,0 +1,136 @@
+import { Wallet, getAddress } from 'ethers';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import { createClient } from '../src/core/client.js';
+import { AddressBook, JsonFileContactStore } from '../src/core/contacts.js';
+import type { TransactionResult } from '../src/core/results.js';
+import { createTools } from '../src/tools.js';
+import { transferETH } from '../src/tools/citrea/ETHOperations.js';
+import { PolicyEngine, PolicyViolationError } from '../src/policy.js';
+import type { TransactionAction } from '../src/approval.js';
+import { startMockRpcServer, createMockChain } from './mockRpc.js';
+
+const BOB = '0x936cEfb89d47F620EAb665D9Bd27BA06b0cF11c7';
+const MALLORY = '0x1111111111111111111111111111111111111111';
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+const withNode = async (
+  contacts: AddressBook,
+  run: (client: ReturnType<typeof createClient>, chain: ReturnType<typeof createMockChain>) => Promise<void>
+) => {
+  const chain = createMockChain();
+  const node = await startMockRpcServer({ ...chain.handlers, eth_call: () => '0x' });
+  const client = createClient({ rpcUrl: node.url, privateKey: Wallet.createRandom().privateKey, contacts });
+
+  try {
+    await run(client, chain);
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+};
+
+const toolsByName = (tools: StructuredToolInterface[]) => Object.fromEntries(tools.map((tool) => [tool.name, tool]));
+
+await test('contacts persist in a JSON file and cannot be silently redirected', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'citrea-contacts-'));
+  try {
+    const path = join(dir, 'contacts.json');
+    await new AddressBook(new JsonFileContactStore(path)).save({ name: 'Bob', address: BOB.toLowerCase() });
+
+    const reopened = new AddressBook(new JsonFileContactStore(path));
+    const bob = await reopened.lookup('bob');
+    if (bob?.address !== BOB || bob.name !== 'Bob') throw new Error(`Unexpected contact ${JSON.stringify(bob)}`);
+
+    try {
+      await reopened.save({ name: 'BOB', address: MALLORY });
+      throw new Error('Changing a contact address without overwrite should fail');
+    } catch (error: any) {
+      if (!error.message.includes('already exists')) throw error;
+    }
+    await reopened.save({ name: 'bob', address: MALLORY }, { overwrite: true });
+    if ((await reopened.lookup('Bob'))?.address !== MALLORY) throw new Error('Overwrite did not change the address');
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+await test('transfers accept contact names and report the resolved address', async () => {
+  const contacts = new AddressBook();
+  await contacts.save({ name: 'bob', address: BOB });
+  await withNode(contacts, async (client, chain) => {
+    const result = await transferETH(client, { toAddress: 'Bob', amount: '0.1' }) as TransactionResult;
+    const [{ tx }] = [...chain.transactions.values()];
+    if (getAddress(tx.to) !== BOB) throw new Error(`Sent to ${tx.to}`);
+    if (result.recipient?.name !== 'bob' || result.recipient.address !== BOB) {
+      throw new Error(`Unexpected recipient ${JSON.stringify(result.recipient)}`);
+    }
+
+    const tools = toolsByName(createTools({ getClient: () => client }));
+    const output = JSON.parse(await tools.transfer_cbtc.invoke({ toAddress: 'bob', amount: '0.1' }));
+    if (output.recipient !== `bob (${BOB})`) throw new Error(`Unexpected tool output ${JSON.stringify(output)}`);
+
+    try {
+      await transferETH(client, { toAddress: 'alice', amount: '0.1' });
+      throw new Error('An unknown contact should be refused');
+    } catch (error: any) {
+      if (!error.message.includes('No contact named alice')) throw error;
+    }
+  });
+});
+
+await test('the contact tools save, look up and list contacts', async () => {
+  await withNode(new AddressBook(), async (client) => {
+    const tools = toolsByName(createTools({ getClient: () => client }));
+    await tools.save_contact.invoke({ name: 'bob', address: BOB, note: 'Landlord' });
+
+    const bob = JSON.parse(await tools.lookup_contact.invoke({ name: 'BOB' }));
+    const list = JSON.parse(await tools.list_contacts.invoke({}));
+    if (bob.address !== BOB || bob.note !== 'Landlord' || list.length !== 1) {
+      throw new Error(`Unexpected contacts ${JSON.stringify({ bob, list })}`);
+    }
+  });
+});
+
+await test('policies and approvers see the address behind a contact name', async () => {
+  const contacts = new AddressBook();
+  await contacts.save({ name: 'mallory', address: MALLORY });
+  await withNode(contacts, async (client, chain) => {
+    const engine = new PolicyEngine({ deniedRecipients: [MALLORY] });
+    const guarded = toolsByName(createTools({ getClient: () => client, getPolicy: () => engine }));
+    try {
+      await guarded.transfer_cbtc.invoke({ toAddress: 'mallory', amount: '0.1' });
+      throw new Error('The deny list should apply to contact names');
+    } catch (error) {
+      if (!(error instanceof PolicyViolationError) || error.rule !== 'deniedRecipient') throw error;
+    }
+
+    const actions: TransactionAction[] = [];
+    const reviewed = toolsByName(createTools({
+      getClient: () => client,
+      getBeforeTransactionHook: () => (action) => {
+        actions.push(action);
+        return { decision: 'reject' };
+      },
+    }));
+    await reviewed.transfer_cbtc.invoke({ toAddress: 'mallory', amount: '0.1' });
+    await reviewed.save_contact.invoke({ name: 'mallory', address: BOB, overwrite: true });
+
+    if (!actions[0].summary.includes(`contact mallory is ${MALLORY}`)) throw new Error(`Unexpected summary ${actions[0].summary}`);
+    // Describing the rejected call must not have saved it
+    if ((await contacts.lookup('mallory'))?.address !== MALLORY) throw new Error('A rejected save_contact changed the contact');
+    if (chain.transactions.size !== 0) throw new Error('Nothing should have been sent');
+  });
+});
@@ -0,0 +1,136 @@
+import { AbiCoder, Interface, Transaction, Wallet } from 'ethers';
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import { createClient } from '../src/core/client.js';
+import { resolveToken } from '../src/core/tokens.js';
+import type { TransactionResult } from '../src/core/results.js';
+import { createTools } from '../src/tools.js';
+import { deployErc20Token, deployNftCollection } from '../src/tools/citrea/deployTemplates.js';
+import { mintErc721 } from '../src/tools/citrea/erc721Operations.js';
+import { citreaERC20Artifact, citreaERC721Artifact } from '../src/tools/citrea/templateArtifacts.js';
+import { startMockRpcServer, createMockChain } from './mockRpc.js';
+
+const coder = AbiCoder.defaultAbiCoder();
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+// `answer` serves contract reads for the agent wallet `agent`
+const withNode = async (
+  run: (client: ReturnType<typeof createClient>, sent: () => Transaction[]) => Promise<void>,
+  answer: (data: string, agent: string) => string = () => '0x'
+) => {
+  const chain = createMockChain();
+  const wallet = Wallet.createRandom();
+  const node = await startMockRpcServer({ ...chain.handlers, eth_call: ([call]: any[]) => answer(call.data ?? '0x', wallet.address) });
+  const client = createClient({ rpcUrl: node.url, privateKey: wallet.privateKey });
+  const sent = () => [...chain.transactions.values()].map(({ tx }) => tx as Transaction);
+
+  try {
+    await run(client, sent);
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+};
+
+// Constructor arguments appended to a template's bytecode
+const constructorArgs = (tx: Transaction, artifact: { abi: any; bytecode: string }) => {
+  if (tx.to !== null || !tx.data.startsWith(artifact.bytecode)) throw new Error('Not a deployment of the template');
+  return coder.decode(new Interface(artifact.abi).deploy.inputs, `0x${tx.data.slice(artifact.bytecode.length)}`);
+};
+
+await test('deploy_erc20_token deploys the bundled template and registers the token', async () => {
+  await withNode(async (client, sent) => {
+    const tools: StructuredToolInterface[] = createTools({ getClient: () => client });
+    const tool = tools.find((candidate) => candidate.name === 'deploy_erc20_token')!;
+    const output = JSON.parse(await tool.invoke({ name: 'My Token', symbol: 'MTK', initialSupply: '1000', decimals: 6, mintable: true, cap: '5000' }));
+
+    const [name, symbol, decimals, supply, mintable, burnable, cap] = constructorArgs(sent()[0], citreaERC20Artifact);
+    if (name !== 'My Token' || symbol !== 'MTK' || decimals !== 6n || supply !== 1_000_000_000n || !mintable || !burnable || cap !== 5_000_000_000n) {
+      throw new Error(`Unexpected constructor arguments ${[name, symbol, decimals, supply, mintable, burnable, cap].join(', ')}`);
+    }
+
+    const token = await resolveToken(client, 'mtk');
+    if (token.address !== output.contractAddress || token.decimals !== 6) throw new Error(`Unexpected registry entry ${JSON.stringify(token)}`);
+  });
+});
+
+await test('invalid token parameters are refused and dry runs register nothing', async () => {
+  await withNode(async (client, sent) => {
+    for (const [params, expected] of [
+      [{ initialSupply: '100', cap: '50' }, 'exceeds the cap'],
+      [{ initialSupply: '0' }, 'must be mintable'],
+      [{ initialSupply: '1', decimals: 40 }, 'Decimals must be'],
+    ] as const) {
+      try {
+        await deployErc20Token(client, { name: 'Bad', symbol: 'BAD', ...params });
+        throw new Error(`${JSON.stringify(params)} should be refused`);
+      } catch (error: any) {
+        if (!error.message.includes(expected)) throw error;
+      }
+    }
+
+    const simulation = await deployErc20Token(client, { name: 'Dry', symbol: 'DRY', initialSupply: '1', dryRun: true });
+    if (!('simulated' in simulation) || !simulation.contractAddress) throw new Error('Expected a simulated deployment');
+    if ((await client.tokens.findBySymbol(client.network.chainId, 'DRY')).length) throw new Error('A dry run registered the token');
+    if (sent().length !== 0) throw new Error('Nothing should have been sent');
+  });
+});
+
+await test('deploy_nft_collection deploys the ERC721 template', async () => {
+  await withNode(async (client, sent) => {
+    const result = await deployNftCollection(client, { name: 'Coll', symbol: 'COL', baseUri: 'ipfs://cid/', maxSupply: '100' }) as TransactionResult;
+    const [name, symbol, baseUri, maxSupply] = constructorArgs(sent()[0], citreaERC721Artifact);
+    if (name !== 'Coll' || symbol !== 'COL' || baseUri !== 'ipfs://cid/' || maxSupply !== 100n || !result.contractAddress) {
+      throw new Error(`Unexpected NFT deployment ${[name, symbol, baseUri, maxSupply].join(', ')}`);
+    }
+  });
+});
+
+await test('mint_erc721 mints the next token until the max supply is reached', async () => {
+  const collection = new Interface(citreaERC721Artifact.abi);
+  const COLLECTION = '0x1111111111111111111111111111111111111111';
+  let owner = '';
+  let minted = 1n;
+  const answer = (data: string, agent: string) => {
+    const call = collection.parseTransaction({ data })!;
+    switch (call.name) {
+      case 'owner': return collection.encodeFunctionResult('owner', [owner || agent]);
+      case 'symbol': return collection.encodeFunctionResult('symbol', ['COL']);
+      case 'maxSupply': return collection.encodeFunctionResult('maxSupply', [2n]);
+      case 'totalSupply': return collection.encodeFunctionResult('totalSupply', [minted]);
+      default: return '0x';
+    }
+  };
+
+  await withNode(async (client, sent) => {
+    const tools: StructuredToolInterface[] = createTools({ getClient: () => client });
+    const tool = tools.find((candidate) => candidate.name === 'mint_erc721')!;
+    const recipient = Wallet.createRandom().address;
+    await tool.invoke({ contractAddress: COLLECTION, toAddress: recipient });
+    const [to] = collection.decodeFunctionData('mint', sent()[0].data);
+    if (sent().length !== 1 || to !== recipient) throw new Error(`Unexpected mint to ${to}`);
+
+    // First a full collection, then one the agent wallet does not own
+    minted = 2n;
+    for (const expected of ['COL has reached its max supply of 2', 'is not the owner of COL']) {
+      try {
+        await mintErc721(client, { contractAddress: COLLECTION });
+        throw new Error(`The mint should be refused: ${expected}`);
+      } catch (error: any) {
+        if (!error.message.includes(expected)) throw error;
+      }
+      owner = recipient;
+      minted = 1n;
+    }
+    if (sent().length !== 1) throw new Error('Refused mints must not send anything');
+  }, answer);
+});
@@ -0,0 +1,166 @@
+import { Wallet } from 'ethers';
+import { FailoverProvider } from '../src/core/failoverProvider.js';
+import { startMockRpcServer, createMockChain, HttpFailure, type RpcHandler } from './mockRpc.js';
+
+const ADDRESS = '0x936cEfb89d47F620EAb665D9Bd27BA06b0cF11c7';
+const FAST = { backoffMs: 5, timeoutMs: 2000 };
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+// Fails every request with HTTP 503
+const down = (handlers: Record<string, RpcHandler>) =>
+  Object.fromEntries(Object.keys(handlers).map((method) => [method, () => { throw new HttpFailure(503); }]));
+
+await test('fails over from a dead endpoint and scores it down', async () => {
+  const chain = createMockChain();
+  const dead = await startMockRpcServer(down(chain.handlers));
+  const healthy = await startMockRpcServer(chain.handlers);
+  const provider = new FailoverProvider([dead.url, healthy.url], FAST);
+
+  try {
+    const balance = await provider.getBalance(ADDRESS);
+    if (balance !== 10n ** 18n) throw new Error(`Unexpected balance ${balance}`);
+
+    const [deadHealth, healthyHealth] = provider.getHealth();
+    if (deadHealth.score >= healthyHealth.score) {
+      throw new Error(`Dead endpoint should score lower: ${deadHealth.score} vs ${healthyHealth.score}`);
+    }
+  } finally {
+    provider.destroy();
+    await dead.close();
+    await healthy.close();
+  }
+});
+
+await test('retries a flaky single endpoint with backoff', async () => {
+  const chain = createMockChain();
+  let failuresLeft = 2;
+  const flaky = await startMockRpcServer({
+    ...chain.handlers,
+    eth_blockNumber: (params) => {
+      if (failuresLeft-- > 0) throw new HttpFailure(503);
+      return chain.handlers.eth_blockNumber(params);
+    },
+  });
+  const provider = new FailoverProvider([flaky.url], FAST);
+
+  try {
+    const blockNumber = await provider.getBlockNumber();
+    if (blockNumber !== 1) throw new Error(`Unexpected block number ${blockNumber}`);
+    if (flaky.calls.filter((call) => call.method === 'eth_blockNumber').length !== 3) {
+      throw new Error('Expected two failed attempts before success');
+    }
+  } finally {
+    provider.destroy();
+    await flaky.close();
+  }
+});
+
+await test('gives up after the configured number of retries', async () => {
+  const chain = createMockChain();
+  const dead = await startMockRpcServer(down(chain.handlers));
+  const provider = new FailoverProvider([dead.url], { ...FAST, retries: 1 });
+
+  try {
+    await provider.getBlockNumber();
+    throw new Error('Request should have failed');
+  } catch (error: any) {
+    if (!error.message.includes('All RPC endpoints failed')) throw error;
+  } finally {
+    provider.destroy();
+    await dead.close();
+  }
+});
+
+await test('quorum reads ignore a single disagreeing endpoint', async () => {
+  const chain = createMockChain();
+  const lying = await startMockRpcServer({ ...chain.handlers, eth_getBalance: () => '0x1' });
+  const honestA = await startMockRpcServer(chain.handlers);
+  const honestB = await startMockRpcServer(chain.handlers);
+  const provider = new FailoverProvider([lying.url, honestA.url, honestB.url], { ...FAST, quorum: 2 });
+
+  try {
+    const balance = await provider.getBalance(ADDRESS);
+    if (balance !== 10n ** 18n) throw new Error(`Quorum returned ${balance}`);
+  } finally {
+    provider.destroy();
+    await lying.close();
+    await honestA.close();
+    await honestB.close();
+  }
+});
+
+await test('quorum reads fail when endpoints disagree', async () => {
+  const chain = createMockChain();
+  const a = await startMockRpcServer({ ...chain.handlers, eth_getBalance: () => '0x1' });
+  const b = await startMockRpcServer({ ...chain.handlers, eth_getBalance: () => '0x2' });
+  const provider = new FailoverProvider([a.url, b.url], { ...FAST, quorum: 2, retries: 0 });
+
+  try {
+    await provider.getBalance(ADDRESS);
+    throw new Error('Disagreeing endpoints should not reach quorum');
+  } catch (error: any) {
+    if (!error.message.includes('Quorum of 2 not reached')) throw error;
+  } finally {
+    provider.destroy();
+    await a.close();
+    await b.close();
+  }
+});
+
+await test('a lost broadcast reply does not broadcast the transaction twice', async () => {
+  const chain = createMockChain();
+  // Accepts the transaction, then drops the reply
+  const lossy = await startMockRpcServer({
+    ...chain.handlers,
+    eth_sendRawTransaction: (params) => {
+      chain.handlers.eth_sendRawTransaction(params);
+      throw new HttpFailure(503);
+    },
+  });
+  const backup = await startMockRpcServer(chain.handlers);
+  const provider = new FailoverProvider([lossy.url, backup.url], FAST);
+  const wallet = Wallet.createRandom().connect(provider);
+
+  try {
+    const tx = await wallet.sendTransaction({ to: ADDRESS, value: 1n, gasLimit: 21000n, gasPrice: 10n ** 9n });
+    if (chain.transactions.size !== 1 || !chain.transactions.has(tx.hash)) {
+      throw new Error('Transaction should be mined exactly once');
+    }
+    if (backup.calls.some((call) => call.method === 'eth_sendRawTransaction')) {
+      throw new Error('Transaction was re-broadcast after the first node accepted it');
+    }
+  } finally {
+    provider.destroy();
+    await lossy.close();
+    await backup.close();
+  }
+});
+
+await test('"already known" replies count as a successful broadcast', async () => {
+  const chain = createMockChain();
+  const node = await startMockRpcServer({
+    ...chain.handlers,
+    eth_sendRawTransaction: () => { throw new Error('already known'); },
+  });
+  const provider = new FailoverProvider([node.url], FAST);
+  const wallet = Wallet.createRandom().connect(provider);
+
+  try {
+    const signed = await wallet.signTransaction({ to: ADDRESS, value: 1n, nonce: 0, gasLimit: 21000n, gasPrice: 10n ** 9n, chainId: 5115n });
+    const tx = await provider.broadcastTransaction(signed);
+    if (!tx.hash) throw new Error('Broadcast did not return a hash');
+  } finally {
+    provider.destroy();
+    await node.close();
+  }
+});
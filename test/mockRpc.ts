@@ -0,0 +1,195 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Transaction, getCreateAddress, toBeHex, toQuantity } from 'ethers';
+
+/** Thrown from a handler to make the whole HTTP request fail with this status */
+export class HttpFailure extends Error {
+  constructor(public status: number) {
+    super(`HTTP ${status}`);
+  }
+}
+
+/** Thrown from a handler to answer like a node whose eth_call/estimateGas reverted with `data` */
+export class RpcRevert extends Error {
+  constructor(public data: string) {
+    super('execution reverted');
+  }
+}
+
+export type RpcHandler = (params: any[]) => any | Promise<any>;
+
+export interface MockRpcServer {
+  url: string;
+  calls: Array<{ method: string; params: any[] }>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Starts a local JSON-RPC server that answers with the given handlers.
+ * A handler that throws is reported back as a JSON-RPC error, except for
+ * HttpFailure which fails the HTTP request itself (a flaky endpoint).
+ */
+export const startMockRpcServer = async (handlers: Record<string, RpcHandler>): Promise<MockRpcServer> => {
+  const calls: MockRpcServer['calls'] = [];
+
+  const answer = async (request: any) => {
+    calls.push({ method: request.method, params: request.params ?? [] });
+    const handler = handlers[request.method];
+    if (!handler) {
+      return { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: `Method not found: ${request.method}` } };
+    }
+    try {
+      return { jsonrpc: '2.0', id: request.id, result: await handler(request.params ?? []) };
+    } catch (error: any) {
+      if (error instanceof HttpFailure) throw error;
+      if (error instanceof RpcRevert) {
+        return { jsonrpc: '2.0', id: request.id, error: { code: 3, message: error.message, data: error.data } };
+      }
+      return { jsonrpc: '2.0', id: request.id, error: { code: -32000, message: error.message } };
+    }
+  };
+
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', async () => {
+      const payload = JSON.parse(body);
+      try {
+        const response = Array.isArray(payload) ? await Promise.all(payload.map(answer)) : await answer(payload);
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify(response));
+      } catch (error: any) {
+        res.statusCode = error instanceof HttpFailure ? error.status : 500;
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    calls,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+};
+
+export interface MockChainOptions {
+  chainId?: number;
+  balance?: bigint;
+  gasPrice?: bigint;
+  /** When false, raw transactions sit in the mempool and are never mined (default: true) */
+  mining?: boolean;
+  /** Event logs emitted by a mined transaction */
+  logs?: (tx: Transaction) => Array<{ address: string; topics: string[]; data: string }>;
+}
+
+/**
+ * Handlers for a tiny in-memory chain: every raw transaction is mined
+ * instantly into its own block with a successful receipt, unless mining
+ * has been switched off to simulate stuck transactions.
+ */
+export const createMockChain = ({ chainId = 5115, balance = 10n ** 18n, gasPrice = 10n ** 9n, mining = true, logs }: MockChainOptions = {}) => {
+  const nonces = new Map<string, number>();
+  const receipts = new Map<string, any>();
+  const transactions = new Map<string, any>();
+  let blockNumber = 1;
+  let miningEnabled = mining;
+
+  const block = (number: number) => ({
+    hash: toBeHex(number, 32),
+    parentHash: toBeHex(Math.max(number - 1, 0), 32),
+    number: toQuantity(number),
+    timestamp: toQuantity(Math.floor(Date.now() / 1000)),
+    nonce: '0x0000000000000000',
+    difficulty: '0x0',
+    gasLimit: toQuantity(30_000_000),
+    gasUsed: '0x0',
+    miner: '0x0000000000000000000000000000000000000000',
+    extraData: '0x',
+    transactions: [],
+  });
+
+  const handlers: Record<string, RpcHandler> = {
+    eth_chainId: () => toQuantity(chainId),
+    net_version: () => String(chainId),
+    eth_blockNumber: () => toQuantity(blockNumber),
+    eth_getBlockByNumber: ([tag]) => block(tag === 'latest' || tag === 'pending' ? blockNumber : Number(tag)),
+    eth_gasPrice: () => toQuantity(gasPrice),
+    eth_getBalance: () => toQuantity(balance),
+    eth_estimateGas: () => toQuantity(21_000),
+    eth_getTransactionCount: ([address]) => toQuantity(nonces.get(address.toLowerCase()) ?? 0),
+    eth_sendRawTransaction: ([raw]) => {
+      const tx = Transaction.from(raw);
+      const from = tx.from!.toLowerCase();
+      const expected = nonces.get(from) ?? 0;
+      if (tx.nonce < expected) {
+        throw new Error('nonce too low');
+      }
+      if (!miningEnabled) {
+        transactions.set(tx.hash!, { tx, blockNumber: null, blockHash: null });
+        return tx.hash;
+      }
+      nonces.set(from, tx.nonce + 1);
+      blockNumber += 1;
+      const blockHash = toBeHex(blockNumber, 32);
+      transactions.set(tx.hash!, { tx, blockNumber, blockHash });
+      receipts.set(tx.hash!, {
+        transactionHash: tx.hash,
+        transactionIndex: '0x0',
+        blockHash,
+        blockNumber: toQuantity(blockNumber),
+        from: tx.from,
+        to: tx.to,
+        contractAddress: tx.to ? null : getCreateAddress({ from: tx.from!, nonce: tx.nonce }),
+        cumulativeGasUsed: toQuantity(21_000),
+        gasUsed: toQuantity(21_000),
+        effectiveGasPrice: toQuantity(gasPrice),
+        logs: (logs?.(tx) ?? []).map((log, index) => ({
+          ...log,
+          blockHash,
+          blockNumber: toQuantity(blockNumber),
+          transactionHash: tx.hash,
+          transactionIndex: '0x0',
+          logIndex: toQuantity(index),
+          removed: false,
+        })),
+        logsBloom: '0x' + '00'.repeat(256),
+        status: '0x1',
+        type: toQuantity(tx.type ?? 0),
+      });
+      return tx.hash;
+    },
+    eth_getTransactionReceipt: ([hash]) => receipts.get(hash) ?? null,
+    eth_getTransactionByHash: ([hash]) => {
+      const entry = transactions.get(hash);
+      if (!entry) return null;
+      const { tx } = entry;
+      return {
+        hash: tx.hash,
+        blockHash: entry.blockHash,
+        blockNumber: entry.blockNumber === null ? null : toQuantity(entry.blockNumber),
+        transactionIndex: entry.blockNumber === null ? null : '0x0',
+        type: toQuantity(tx.type ?? 0),
+        from: tx.from,
+        to: tx.to,
+        nonce: toQuantity(tx.nonce),
+        gas: toQuantity(tx.gasLimit),
+        gasPrice: toQuantity(tx.gasPrice ?? gasPrice),
+        value: toQuantity(tx.value),
+        input: tx.data,
+        chainId: toQuantity(tx.chainId),
+        v: toQuantity(tx.signature!.v),
+        r: tx.signature!.r,
+        s: tx.signature!.s,
+      };
+    },
+  };
+
+  const setMining = (enabled: boolean) => {
+    miningEnabled = enabled;
+  };
+
+  return { handlers, receipts, transactions, nonces, setMining };
+};
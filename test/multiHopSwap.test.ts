@@ -0,0 +1,125 @@
+import { Interface, MaxUint256, Wallet, parseEther, solidityPacked } from 'ethers';
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import { createClient } from '../src/core/client.js';
+import { NETWORKS } from '../src/core/networks.js';
+import type { TransactionResult } from '../src/core/results.js';
+import { createTools } from '../src/tools.js';
+import { exactInput, exactOutput } from '../src/tools/citrea/swapOperations.js';
+import { erc20Abi, quoterV2Abi, universalRouterAbi } from '../src/tools/citrea/abis.js';
+import { startMockRpcServer, createMockChain } from './mockRpc.js';
+
+const TKA = '0x1111111111111111111111111111111111111111';
+const MID = '0x2222222222222222222222222222222222222222';
+const USDC = '0x3333333333333333333333333333333333333333';
+const QUOTER = '0x4444444444444444444444444444444444444444';
+
+const erc20 = new Interface(erc20Abi);
+const quoter = new Interface(quoterV2Abi);
+const router = new Interface(universalRouterAbi);
+
+// TKA -> MID (0.3%) -> USDC (0.05%), packed in both directions
+const FORWARD = solidityPacked(['address', 'uint24', 'address', 'uint24', 'address'], [TKA, 3000, MID, 500, USDC]).toLowerCase();
+const REVERSED = solidityPacked(['address', 'uint24', 'address', 'uint24', 'address'], [USDC, 500, MID, 3000, TKA]).toLowerCase();
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+const withRouter = async (
+  run: (client: ReturnType<typeof createClient>, sent: () => string[], quoted: string[], recipient: string) => Promise<void>
+) => {
+  const quoted: string[] = [];
+  const chain = createMockChain();
+  const node = await startMockRpcServer({
+    ...chain.handlers,
+    eth_call: ([call]: any[]) => {
+      if (call.data.startsWith(erc20.getFunction('allowance')!.selector)) return erc20.encodeFunctionResult('allowance', [MaxUint256]);
+      const quote = quoter.parseTransaction({ data: call.data });
+      if (quote?.name === 'quoteExactOutput') {
+        quoted.push(quote.args[0]);
+        return quoter.encodeFunctionResult(quote.fragment, [parseEther('4'), [], [], 250_000n]);
+      }
+      return erc20.encodeFunctionResult('balanceOf', [0n]);
+    },
+  });
+  const testnet = NETWORKS['citrea-testnet'];
+  const wallet = Wallet.createRandom();
+  const client = createClient({
+    rpcUrl: node.url,
+    privateKey: wallet.privateKey,
+    network: { ...testnet, contracts: { ...testnet.contracts, quoter: QUOTER } },
+    swaps: { usePermit: false },
+  });
+  const chainId = client.network.chainId;
+  client.tokens.add({ chainId, address: TKA, symbol: 'TKA', decimals: 18 });
+  client.tokens.add({ chainId, address: MID, symbol: 'MID', decimals: 18 });
+  client.tokens.add({ chainId, address: USDC, symbol: 'USDC', decimals: 18 });
+
+  try {
+    await run(client, () => [...chain.transactions.values()].map(({ tx }) => tx.data), quoted, wallet.address);
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+};
+
+await test('exactInput packs the route from the input token to the output token', async () => {
+  await withRouter(async (client, sent, _quoted, recipient) => {
+    await exactInput(client, { path: ['TKA', 'MID', 'USDC'], fees: [3000, 500], recipient, amountIn: '2', amountOutMinimum: '7' });
+
+    const [params] = router.decodeFunctionData('exactInput', sent()[0]);
+    if (params.path !== FORWARD || params.amountIn !== parseEther('2') || params.amountOutMinimum !== parseEther('7')) {
+      throw new Error(`Unexpected exactInput params ${params.path} ${params.amountIn} ${params.amountOutMinimum}`);
+    }
+  });
+});
+
+await test('exactOutput packs the route backwards, for the quote and the swap', async () => {
+  await withRouter(async (client, sent, quoted, recipient) => {
+    const result = await exactOutput(client, { path: ['TKA', 'MID', 'USDC'], fees: [3000, 500], recipient, amountOut: '10', slippageBps: 100 }) as TransactionResult;
+
+    const [params] = router.decodeFunctionData('exactOutput', sent()[0]);
+    if (quoted[0] !== REVERSED || params.path !== REVERSED) throw new Error(`Unexpected paths ${quoted[0]} ${params.path}`);
+    if (params.amountOut !== parseEther('10') || params.amountInMaximum !== parseEther('4.04')) {
+      throw new Error(`Unexpected exactOutput amounts ${params.amountOut} ${params.amountInMaximum}`);
+    }
+    if (result.swap?.quoted !== '4.0' || result.swap.limit !== '4.04') throw new Error(`Unexpected bounds ${JSON.stringify(result.swap)}`);
+  });
+});
+
+await test('every hop needs a supported fee tier', async () => {
+  await withRouter(async (client, sent, _quoted, recipient) => {
+    for (const [fees, expected] of [
+      [[3000], 'needs 2 fee tiers'],
+      [[3000, 100], 'Invalid fee tier 100 for hop 2'],
+    ] as const) {
+      try {
+        await exactInput(client, { path: [TKA, MID, USDC], fees: [...fees], recipient, amountIn: '1', amountOutMinimum: '1' });
+        throw new Error(`Fees ${fees} should be refused`);
+      } catch (error: any) {
+        if (!error.message.includes(expected)) throw error;
+      }
+    }
+    if (sent().length !== 0) throw new Error('Nothing should have been sent');
+  });
+});
+
+await test('exact_output settles its maximum input before sending', async () => {
+  await withRouter(async (client, sent, _quoted, recipient) => {
+    const tools: StructuredToolInterface[] = createTools({ getClient: () => client });
+    const tool = tools.find((candidate) => candidate.name === 'exact_output')!;
+    const output = JSON.parse(await tool.invoke({ path: ['TKA', 'MID', 'USDC'], fees: [3000, 500], recipient, amountOut: '10' }));
+
+    const [params] = router.decodeFunctionData('exactOutput', sent()[0]);
+    if (params.amountInMaximum !== parseEther('4.02') || output.swap !== 'receive exactly 10, pay at most 4.02 (quoted 4.0, 50 bps slippage)') {
+      throw new Error(`Unexpected maximum input ${params.amountInMaximum} (${output.swap})`);
+    }
+  });
+});
@@ -0,0 +1,169 @@
+import { AbiCoder, Interface, MaxUint256, Transaction, Wallet, getAddress, parseEther } from 'ethers';
+import { createClient } from '../src/core/client.js';
+import { NETWORKS } from '../src/core/networks.js';
+import type { TransactionResult } from '../src/core/results.js';
+import { formatSimulation, type SimulationResult } from '../src/core/simulation.js';
+import { exactInputSingle, exactOutputSingle, swapTokensForExactTokens, SwapError } from '../src/tools/citrea/swapOperations.js';
+import { unwrapCBTC, wrapCBTC } from '../src/tools/citrea/wrapOperations.js';
+import { erc20Abi, routerDeadlineAbi, universalRouterAbi, wrappedNativeAbi } from '../src/tools/citrea/abis.js';
+import { startMockRpcServer, createMockChain } from './mockRpc.js';
+
+const ROUTER = '0x610c98EAD0df13EA906854b6041122e8A8D14413';
+const WCBTC = NETWORKS['citrea-testnet'].contracts.wrappedNative;
+const USDC = '0x1111111111111111111111111111111111111111';
+
+const coder = AbiCoder.defaultAbiCoder();
+const erc20 = new Interface(erc20Abi);
+const wrapped = new Interface(wrappedNativeAbi);
+const router = new Interface([...universalRouterAbi, ...routerDeadlineAbi]);
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+interface Wallets {
+  /** WCBTC the agent wallet holds; deposits and withdrawals move it, and so does every swap by `swapDelta` */
+  wcbtc: bigint;
+  swapDelta: bigint;
+  /** The node refuses every swap */
+  rejectSwaps?: boolean;
+}
+
+// Sent transactions, in order, as the called function name with its CBTC value or first argument
+const withNativeSwaps = async (
+  state: Wallets,
+  run: (client: ReturnType<typeof createClient>, sent: () => string[], agent: string) => Promise<void>
+) => {
+  const chain = createMockChain();
+  const sent: string[] = [];
+  const node = await startMockRpcServer({
+    ...chain.handlers,
+    eth_sendRawTransaction: (params) => {
+      const tx = Transaction.from(params[0]);
+      if (getAddress(tx.to!) === WCBTC) {
+        const call = wrapped.parseTransaction({ data: tx.data })!;
+        const amount: bigint = call.name === 'deposit' ? tx.value : call.args[0];
+        state.wcbtc += call.name === 'deposit' ? amount : -amount;
+        sent.push(`${call.name}:${amount}`);
+      } else if (getAddress(tx.to!) === ROUTER) {
+        if (state.rejectSwaps) throw new Error('execution reverted: Too little received');
+        state.wcbtc += state.swapDelta;
+        const call = router.parseTransaction({ data: tx.data })!;
+        sent.push(call.name === 'multicall' ? router.parseTransaction({ data: call.args[1][0] })!.name : call.name);
+      } else {
+        sent.push(erc20.parseTransaction({ data: tx.data })!.name);
+      }
+      return chain.handlers.eth_sendRawTransaction(params);
+    },
+    eth_call: ([call]: any[]) => {
+      const selector = (call.data ?? '0x').slice(0, 10);
+      if (selector === erc20.getFunction('allowance')!.selector) return coder.encode(['uint256'], [MaxUint256]);
+      if (getAddress(call.to) === WCBTC && selector === erc20.getFunction('balanceOf')!.selector) return coder.encode(['uint256'], [state.wcbtc]);
+      // Any simulated swap returns 0.4
+      if (getAddress(call.to) === ROUTER) return coder.encode(['uint256'], [parseEther('0.4')]);
+      return coder.encode(['uint256'], [0n]);
+    },
+  });
+  const wallet = Wallet.createRandom();
+  const client = createClient({ rpcUrl: node.url, privateKey: wallet.privateKey, swaps: { usePermit: false } });
+  client.tokens.add({ chainId: client.network.chainId, address: USDC, symbol: 'USDC', decimals: 6 });
+
+  try {
+    await run(client, () => sent, wallet.address);
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+};
+
+await test('wrap_cbtc and unwrap_cbtc deposit into and withdraw from WCBTC', async () => {
+  await withNativeSwaps({ wcbtc: 0n, swapDelta: 0n }, async (client, sent) => {
+    const wrap = await wrapCBTC(client, { amount: '0.25' }) as TransactionResult;
+    await unwrapCBTC(client, { amount: '0.1' });
+
+    if (sent().join(',') !== `deposit:${parseEther('0.25')},withdraw:${parseEther('0.1')}`) {
+      throw new Error(`Unexpected transactions ${sent().join(', ')}`);
+    }
+    if (!wrap.balances.some((balance) => balance.asset === 'WCBTC')) throw new Error('The wrap result should list the WCBTC balance');
+
+    try {
+      await unwrapCBTC(client, { amount: '1' });
+      throw new Error('Unwrapping more than the wallet holds should be refused');
+    } catch (error: any) {
+      if (!error.message.includes('Insufficient WCBTC balance')) throw error;
+    }
+    if (sent().length !== 2) throw new Error('A refused unwrap must not send anything');
+  });
+});
+
+await test('selling CBTC wraps the input first and reports the wrap with the swap', async () => {
+  await withNativeSwaps({ wcbtc: parseEther('1'), swapDelta: -parseEther('0.5') }, async (client, sent, agent) => {
+    const params = { tokenIn: 'CBTC', tokenOut: 'USDC', fee: 3000, recipient: agent, amountIn: '0.5', amountOutMinimum: '100' };
+
+    const simulation = await exactInputSingle(client, { ...params, dryRun: true }) as SimulationResult;
+    if (simulation.wrap !== '0.5' || simulation.unwrap || !formatSimulation(simulation).includes('0.5 CBTC would be wrapped into WCBTC first')) {
+      throw new Error(`Unexpected simulation ${formatSimulation(simulation)}`);
+    }
+
+    const result = await exactInputSingle(client, params) as TransactionResult;
+    if (sent().join(',') !== `deposit:${parseEther('0.5')},exactInputSingle` || !result.wrap || result.unwrap) {
+      throw new Error(`Unexpected transactions ${sent().join(', ')}`);
+    }
+  });
+});
+
+await test('buying CBTC unwraps the output for the agent wallet only', async () => {
+  await withNativeSwaps({ wcbtc: parseEther('1'), swapDelta: parseEther('0.2') }, async (client, sent, agent) => {
+    const params = { amountOut: '0.2', amountInMax: '50', path: [USDC, 'CBTC'] };
+
+    try {
+      await swapTokensForExactTokens(client, { ...params, to: Wallet.createRandom().address });
+      throw new Error('Paying CBTC to another wallet should be refused');
+    } catch (error: any) {
+      if (!error.message.includes('can only pay the agent wallet')) throw error;
+    }
+
+    const result = await swapTokensForExactTokens(client, { ...params, to: agent }) as TransactionResult;
+    if (sent().join(',') !== `swapTokensForExactTokens,withdraw:${parseEther('0.2')}` || !result.unwrap) {
+      throw new Error(`Unexpected transactions ${sent().join(', ')}`);
+    }
+  });
+});
+
+await test('an exact-output swap from CBTC unwraps what the router did not pull', async () => {
+  await withNativeSwaps({ wcbtc: parseEther('1'), swapDelta: -parseEther('0.4') }, async (client, sent, agent) => {
+    const result = await exactOutputSingle(client, {
+      tokenIn: 'CBTC', tokenOut: USDC, fee: 500, recipient: agent, amountOut: '100', amountInMaximum: '0.5',
+    }) as TransactionResult;
+
+    const order = sent().join(',');
+    if (order !== `deposit:${parseEther('0.5')},exactOutputSingle,withdraw:${parseEther('0.1')}` || !result.wrap || !result.unwrap) {
+      throw new Error(`Unexpected transactions ${order}`);
+    }
+  });
+});
+
+await test('a failed swap from CBTC unwraps the input again and says so', async () => {
+  await withNativeSwaps({ wcbtc: parseEther('1'), swapDelta: 0n, rejectSwaps: true }, async (client, sent, agent) => {
+    try {
+      await exactInputSingle(client, { tokenIn: 'CBTC', tokenOut: 'USDC', fee: 3000, recipient: agent, amountIn: '0.5', amountOutMinimum: '100' });
+      throw new Error('The swap should fail');
+    } catch (error: any) {
+      if (!(error instanceof SwapError)) throw error;
+      const { wrap, unwrap } = error.sent;
+      if (!wrap || !unwrap || !error.message.includes(`0.5 CBTC wrapped by ${wrap.hash} was unwrapped again by ${unwrap.hash}`)) {
+        throw new Error(`Unexpected error ${error.message}`);
+      }
+    }
+    if (sent().join(',') !== `deposit:${parseEther('0.5')},withdraw:${parseEther('0.5')}`) {
+      throw new Error(`Unexpected transactions ${sent().join(', ')}`);
+    }
+  });
+});
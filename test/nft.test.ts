@@ -0,0 +1,158 @@
+import { AbiCoder, Interface, Transaction, Wallet, ZeroAddress, getAddress } from 'ethers';
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import { createClient } from '../src/core/client.js';
+import { AddressBook } from '../src/core/contacts.js';
+import { createTools } from '../src/tools.js';
+import { PolicyEngine, PolicyViolationError } from '../src/policy.js';
+import { getNftBalance, getNftMetadata } from '../src/tools/citrea/nftOperations.js';
+import { transferErc721 } from '../src/tools/citrea/erc721Operations.js';
+import { transferErc1155 } from '../src/tools/citrea/erc1155Operations.js';
+import { erc721Abi, erc1155Abi } from '../src/tools/citrea/abis.js';
+import { startMockRpcServer, createMockChain, RpcRevert } from './mockRpc.js';
+
+const PUNKS = '0x1111111111111111111111111111111111111111';
+const ITEMS = '0x2222222222222222222222222222222222222222';
+const BOB = '0x936cEfb89d47F620EAb665D9Bd27BA06b0cF11c7';
+
+const coder = AbiCoder.defaultAbiCoder();
+const erc721 = new Interface(erc721Abi);
+const erc1155 = new Interface(erc1155Abi);
+
+const metadata = { name: 'Punk #1', image: 'ipfs://QmImage' };
+const tokenUri = `data:application/json;base64,${Buffer.from(JSON.stringify(metadata)).toString('base64')}`;
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+// PUNKS is an ERC721 where the agent owns #1 and bob owns #2; the agent holds 5 of ITEMS #7 and 1 of #8
+const withNode = async (
+  run: (client: ReturnType<typeof createClient>, sent: () => Transaction[], contacts: AddressBook) => Promise<void>
+) => {
+  const wallet = Wallet.createRandom();
+  const chain = createMockChain();
+  const contacts = new AddressBook();
+  await contacts.save({ name: 'bob', address: BOB });
+
+  const node = await startMockRpcServer({
+    ...chain.handlers,
+    eth_call: ([call]: any[]) => {
+      const target = getAddress(call.to);
+      const iface = target === PUNKS ? erc721 : target === ITEMS ? erc1155 : null;
+      const parsed = iface?.parseTransaction({ data: call.data });
+      if (!iface || !parsed) throw new RpcRevert('0x');
+      const reply = (...values: any[]) => iface.encodeFunctionResult(parsed.name, values);
+
+      switch (parsed.name) {
+        case 'supportsInterface':
+          return reply(parsed.args[0] === (target === PUNKS ? '0x80ac58cd' : '0xd9b67a26'));
+        case 'symbol': return reply('PUNK');
+        case 'tokenURI': return reply(tokenUri);
+        case 'uri': return reply('ipfs://QmItems/{id}.json');
+        case 'balanceOf': return reply(target === PUNKS ? 3n : 5n);
+        case 'balanceOfBatch': return reply(parsed.args[1].map((id: bigint) => (id === 7n ? 5n : 1n)));
+        case 'ownerOf': return reply(parsed.args[0] === 1n ? wallet.address : BOB);
+        case 'getApproved': return reply(ZeroAddress);
+        case 'isApprovedForAll': return reply(false);
+        default: return '0x';
+      }
+    },
+  });
+  const client = createClient({ rpcUrl: node.url, privateKey: wallet.privateKey, contacts });
+  const sent = () => [...chain.transactions.values()].map(({ tx }) => tx as Transaction);
+
+  try {
+    await run(client, sent, contacts);
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+};
+
+const toolsByName = (tools: StructuredToolInterface[]) => Object.fromEntries(tools.map((tool) => [tool.name, tool]));
+
+await test('ERC721 tokens are sent with safeTransferFrom, and only when the agent may move them', async () => {
+  await withNode(async (client, sent) => {
+    const tools = toolsByName(createTools({ getClient: () => client }));
+    const output = JSON.parse(await tools.transfer_erc721.invoke({ contractAddress: PUNKS, toAddress: 'bob', tokenId: '1' }));
+    const [from, to, tokenId] = erc721.decodeFunctionData('safeTransferFrom', sent()[0].data);
+    if (getAddress(from) !== (await client.signer.getAddress()) || getAddress(to) !== BOB || tokenId !== 1n) {
+      throw new Error(`Unexpected transfer ${from} -> ${to} of #${tokenId}`);
+    }
+    if (output.recipient !== `bob (${BOB})`) throw new Error(`Unexpected tool output ${JSON.stringify(output)}`);
+
+    try {
+      await transferErc721(client, { contractAddress: PUNKS, toAddress: BOB, tokenId: 2 });
+      throw new Error("Sending bob's token should fail");
+    } catch (error: any) {
+      if (!error.message.includes('not approved to transfer it')) throw error;
+    }
+    if (sent().length !== 1) throw new Error(`Expected one transaction, sent ${sent().length}`);
+  });
+});
+
+await test('ERC1155 transfers use safeBatchTransferFrom for several IDs and check balances first', async () => {
+  await withNode(async (client, sent) => {
+    await transferErc1155(client, { contractAddress: ITEMS, toAddress: BOB, tokenIds: ['7'], amounts: ['2'] });
+    await transferErc1155(client, { contractAddress: ITEMS, toAddress: 'bob', tokenIds: ['7', '8'], amounts: ['5', '1'] });
+
+    const [single, batch] = sent();
+    const [, , id, amount] = erc1155.decodeFunctionData('safeTransferFrom', single.data);
+    const [, to, ids, amounts] = erc1155.decodeFunctionData('safeBatchTransferFrom', batch.data);
+    if (id !== 7n || amount !== 2n || getAddress(to) !== BOB || ids.join(',') !== '7,8' || amounts.join(',') !== '5,1') {
+      throw new Error('Unexpected ERC1155 transfers');
+    }
+
+    try {
+      await transferErc1155(client, { contractAddress: ITEMS, toAddress: BOB, tokenIds: ['7', '8'], amounts: ['1', '2'] });
+      throw new Error('Sending more than the balance should fail');
+    } catch (error: any) {
+      if (!error.message.includes('#8: have 1, need 2')) throw error;
+    }
+    if (sent().length !== 2) throw new Error(`Expected two transactions, sent ${sent().length}`);
+  });
+});
+
+await test('balances and metadata are read per standard, with data URIs decoded locally', async () => {
+  await withNode(async (client) => {
+    const punks = await getNftBalance(client, { contractAddress: PUNKS });
+    const items = await getNftBalance(client, { contractAddress: ITEMS, tokenId: '7' });
+    if (punks !== '3 PUNK' || items !== '5 of token #7') throw new Error(`Unexpected balances ${punks} / ${items}`);
+
+    const punk = await getNftMetadata(client, { contractAddress: PUNKS, tokenId: 1 });
+    if (punk.standard !== 'erc721' || punk.metadata?.name !== 'Punk #1' || punk.metadata.image !== metadata.image) {
+      throw new Error(`Unexpected metadata ${JSON.stringify(punk)}`);
+    }
+
+    const item = await getNftMetadata(client, { contractAddress: ITEMS, tokenId: 255, fetchMetadata: false });
+    if (item.standard !== 'erc1155' || item.uri !== `ipfs://QmItems/${'0'.repeat(62)}ff.json`) {
+      throw new Error(`Unexpected ERC1155 URI ${item.uri}`);
+    }
+  });
+});
+
+await test('the recipient policy applies to NFT transfers', async () => {
+  await withNode(async (client, sent) => {
+    const engine = new PolicyEngine({ deniedRecipients: [BOB] });
+    const tools = toolsByName(createTools({ getClient: () => client, getPolicy: () => engine }));
+    for (const [name, params] of [
+      ['transfer_erc721', { contractAddress: PUNKS, toAddress: 'bob', tokenId: '1' }],
+      ['transfer_erc1155', { contractAddress: ITEMS, toAddress: BOB, tokenIds: ['7'], amounts: ['1'] }],
+    ] as const) {
+      try {
+        await tools[name].invoke(params);
+        throw new Error(`${name} to a denied recipient should fail`);
+      } catch (error) {
+        if (!(error instanceof PolicyViolationError) || error.rule !== 'deniedRecipient') throw error;
+      }
+    }
+    if (sent().length !== 0) throw new Error('Nothing should have been sent');
+  });
+});
@@ -0,0 +1,138 @@
+import { AbiCoder, Interface, TypedDataEncoder, Wallet, getAddress, parseEther, verifyTypedData } from 'ethers';
+import { createClient } from '../src/core/client.js';
+import type { TransactionResult } from '../src/core/results.js';
+import { signPermit, supportsPermit, type SignedPermit } from '../src/tools/citrea/permitOperations.js';
+import { exactInputSingle } from '../src/tools/citrea/swapOperations.js';
+import { erc20Abi, erc20PermitAbi, routerPermitAbi, universalRouterAbi } from '../src/tools/citrea/abis.js';
+import { startMockRpcServer, createMockChain, RpcRevert } from './mockRpc.js';
+
+const ROUTER = '0x610c98EAD0df13EA906854b6041122e8A8D14413';
+const PERMIT_TOKEN = '0x1111111111111111111111111111111111111111';
+const PLAIN_TOKEN = '0x2222222222222222222222222222222222222222';
+const TOKEN_OUT = '0x3333333333333333333333333333333333333333';
+
+const DOMAIN = { name: 'Permit Token', version: '1', chainId: 5115, verifyingContract: PERMIT_TOKEN };
+const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+const coder = AbiCoder.defaultAbiCoder();
+const token = new Interface([...erc20Abi, ...erc20PermitAbi.filter((entry) => !entry.includes('name()'))]);
+const router = new Interface([...universalRouterAbi, ...routerPermitAbi]);
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+// PERMIT_TOKEN implements EIP-2612 (without version() or eip712Domain()); PLAIN_TOKEN does not
+const tokenCall = (to: string, selector: string): string | undefined => {
+  if (selector === token.getFunction('decimals')!.selector) return coder.encode(['uint8'], [18]);
+  if (selector === token.getFunction('allowance')!.selector) return coder.encode(['uint256'], [0]);
+  if (to !== PERMIT_TOKEN) return undefined;
+  if (selector === token.getFunction('name')!.selector) return coder.encode(['string'], [DOMAIN.name]);
+  if (selector === token.getFunction('nonces')!.selector) return coder.encode(['uint256'], [7]);
+  if (selector === token.getFunction('DOMAIN_SEPARATOR')!.selector) return TypedDataEncoder.hashDomain(DOMAIN);
+  return undefined;
+};
+
+const withNode = async (
+  { routerAcceptsPermits = true } = {},
+  run: (client: ReturnType<typeof createClient>, wallet: { address: string }, chain: ReturnType<typeof createMockChain>) => Promise<void>
+) => {
+  const chain = createMockChain();
+  const node = await startMockRpcServer({
+    ...chain.handlers,
+    eth_call: ([call]: any[]) => {
+      const to = call.to ? getAddress(call.to) : '';
+      const selector = (call.data ?? '0x').slice(0, 10);
+      if (to === ROUTER) {
+        if (selector === router.getFunction('selfPermit')!.selector && !routerAcceptsPermits) throw new RpcRevert('0x');
+        return coder.encode(['uint256'], [parseEther('1.5')]);
+      }
+      return tokenCall(to, selector) ?? '0x';
+    },
+  });
+  const wallet = Wallet.createRandom();
+  const client = createClient({ rpcUrl: node.url, privateKey: wallet.privateKey });
+
+  try {
+    await run(client, wallet, chain);
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+};
+
+const swapParams = (tokenIn: string, recipient: string) => ({
+  tokenIn,
+  tokenOut: TOKEN_OUT,
+  fee: 3000,
+  recipient,
+  amountIn: '2',
+  amountOutMinimum: '1',
+});
+
+await test('a signed permit recovers to the agent wallet', async () => {
+  await withNode({}, async (client, wallet) => {
+    const permit = await signPermit(client, { tokenAddress: PERMIT_TOKEN, spenderAddress: ROUTER, amount: '5', deadline: 4_000_000_000 }) as SignedPermit;
+    if (permit.value !== parseEther('5') || permit.nonce !== 7n || permit.deadline !== 4_000_000_000) {
+      throw new Error(`Unexpected permit ${permit.value} / ${permit.nonce} / ${permit.deadline}`);
+    }
+    const message = { owner: wallet.address, spender: ROUTER, value: permit.value, nonce: permit.nonce, deadline: permit.deadline };
+    if (verifyTypedData(DOMAIN, PERMIT_TYPES, message, permit.signature) !== wallet.address) {
+      throw new Error('The permit was not signed by the agent wallet for the token domain');
+    }
+  });
+});
+
+await test('tokens without permit are detected and refused with a hint', async () => {
+  await withNode({}, async (client) => {
+    if (!(await supportsPermit(client, PERMIT_TOKEN)) || (await supportsPermit(client, PLAIN_TOKEN))) {
+      throw new Error('Permit detection is wrong');
+    }
+    try {
+      await signPermit(client, { tokenAddress: PLAIN_TOKEN, spenderAddress: ROUTER, amount: '5' });
+      throw new Error('Signing a permit for a plain token should fail');
+    } catch (error: any) {
+      if (!error.message.includes('use approve_erc20 instead')) throw error;
+    }
+  });
+});
+
+await test('swaps bundle a permit with the swap in one multicall', async () => {
+  await withNode({}, async (client, wallet, chain) => {
+    const result = await exactInputSingle(client, swapParams(PERMIT_TOKEN, wallet.address)) as TransactionResult;
+
+    const sent = [...chain.transactions.values()].map(({ tx }) => tx);
+    if (sent.length !== 1 || result.approval) throw new Error(`Expected a single transaction, sent ${sent.length}`);
+    const [calls] = router.decodeFunctionData('multicall', sent[0].data);
+    const names = calls.map((data: string) => router.parseTransaction({ data })!.name);
+    if (names.join(',') !== 'selfPermit,exactInputSingle') throw new Error(`Unexpected multicall ${names.join(', ')}`);
+    if (result.permit?.value !== parseEther('2')) throw new Error('The result should report the permit');
+  });
+});
+
+await test('swaps fall back to approve when the token or router cannot use a permit', async () => {
+  for (const [tokenIn, routerAcceptsPermits] of [[PLAIN_TOKEN, true], [PERMIT_TOKEN, false]] as const) {
+    await withNode({ routerAcceptsPermits }, async (client, wallet, chain) => {
+      const result = await exactInputSingle(client, swapParams(tokenIn, wallet.address)) as TransactionResult;
+      const sent = [...chain.transactions.values()].map(({ tx }) => getAddress(tx.to));
+      if (sent.join(',') !== `${tokenIn},${ROUTER}` || !result.approval || result.permit) {
+        throw new Error(`Expected approve then swap for ${tokenIn}, sent to ${sent.join(', ')}`);
+      }
+    });
+  }
+});
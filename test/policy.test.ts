@@ -0,0 +1,182 @@
+import { AbiCoder, Wallet } from 'ethers';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import { createClient } from '../src/core/client.js';
+import { createTools } from '../src/tools.js';
+import type { BeforeTransactionHook } from '../src/approval.js';
+import { InMemoryUsageStore, JsonFileUsageStore, PolicyEngine, PolicyViolationError, type SpendRequest, type SpendingPolicy } from '../src/policy.js';
+import { startMockRpcServer, createMockChain } from './mockRpc.js';
+
+const RECIPIENT = '0x936cEfb89d47F620EAb665D9Bd27BA06b0cF11c7';
+const STRANGER = '0x1111111111111111111111111111111111111111';
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+// Runs against a fresh mock chain with tools bound to the given policy and approval hook
+const withPolicy = async (
+  policy: SpendingPolicy,
+  run: (
+    tools: Record<string, StructuredToolInterface>,
+    chain: ReturnType<typeof createMockChain>,
+    authorize: (request: SpendRequest) => Promise<unknown>
+  ) => Promise<void>,
+  hook?: BeforeTransactionHook
+) => {
+  const chain = createMockChain();
+  // Every token in these tests reports 18 decimals
+  const node = await startMockRpcServer({ ...chain.handlers, eth_call: () => AbiCoder.defaultAbiCoder().encode(['uint8'], [18]) });
+  const client = createClient({ rpcUrl: node.url, privateKey: Wallet.createRandom().privateKey });
+  const engine = new PolicyEngine(policy);
+  const tools: StructuredToolInterface[] = createTools({ getClient: () => client, getPolicy: () => engine, getBeforeTransactionHook: () => hook });
+
+  try {
+    await run(Object.fromEntries(tools.map((tool) => [tool.name, tool])), chain, (request) => engine.authorize(client, request));
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+};
+
+const expectViolation = async (promise: Promise<unknown>, rule: string) => {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof PolicyViolationError && error.rule === rule) return;
+    throw error;
+  }
+  throw new Error(`Expected a ${rule} policy violation`);
+};
+
+await test('per-transaction caps reject before anything is signed', async () => {
+  await withPolicy({ limits: { CBTC: { perTransaction: '0.5' } } }, async (tools, chain) => {
+    await expectViolation(tools.transfer_cbtc.invoke({ toAddress: RECIPIENT, amount: '0.6' }), 'perTransaction');
+    if (chain.transactions.size !== 0) throw new Error('Nothing should have been sent');
+    await tools.transfer_cbtc.invoke({ toAddress: RECIPIENT, amount: '0.5' });
+  });
+});
+
+await test('daily caps count parallel calls and survive a restart', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'citrea-policy-'));
+  const policy = () => ({ limits: { CBTC: { daily: '1' } }, store: new JsonFileUsageStore(join(dir, 'usage.json')) });
+
+  try {
+    await withPolicy(policy(), async (tools) => {
+      const results = await Promise.allSettled([
+        tools.transfer_cbtc.invoke({ toAddress: RECIPIENT, amount: '0.6' }),
+        tools.transfer_cbtc.invoke({ toAddress: RECIPIENT, amount: '0.6' }),
+      ]);
+      const rejected = results.filter((result) => result.status === 'rejected');
+      if (rejected.length !== 1 || (rejected[0] as PromiseRejectedResult).reason.rule !== 'daily') {
+        throw new Error('Exactly one of two parallel transfers should fit the daily limit');
+      }
+    });
+
+    // A new engine reading the same file still sees today's usage
+    await withPolicy(policy(), async (tools) => {
+      await expectViolation(tools.transfer_cbtc.invoke({ toAddress: RECIPIENT, amount: '0.5' }), 'daily');
+      await tools.transfer_cbtc.invoke({ toAddress: RECIPIENT, amount: '0.4' });
+    });
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+await test('a failed call does not use up the daily limit', async () => {
+  await withPolicy({ limits: { CBTC: { daily: '1' } } }, async (tools) => {
+    await tools.transfer_cbtc.invoke({ toAddress: RECIPIENT, amount: '0.9' });
+    // More than the mock wallet holds, so the transfer fails its balance check
+    await tools.transfer_cbtc.invoke({ toAddress: RECIPIENT, amount: '5' }).catch(() => undefined);
+    await tools.transfer_cbtc.invoke({ toAddress: RECIPIENT, amount: '0.05' });
+  });
+});
+
+await test('a hook that throws or returns invalid arguments does not use up the daily limit', async () => {
+  for (const hook of [
+    (): never => { throw new Error('approver unreachable'); },
+    () => ({ decision: 'modify' as const, args: { toAddress: RECIPIENT, amount: 1 } }),
+  ]) {
+    const store = new InMemoryUsageStore();
+    await withPolicy({ limits: { CBTC: { daily: '1' } }, store }, async (tools, chain) => {
+      const failed = await tools.transfer_cbtc.invoke({ toAddress: RECIPIENT, amount: '0.5' }).then(() => false, () => true);
+      if (!failed || chain.transactions.size !== 0) throw new Error('The transfer should fail before anything is sent');
+      if ((await store.getEntries('cbtc')).length !== 0) throw new Error('The failed call should not count towards the daily limit');
+    }, hook);
+  }
+});
+
+await test('recipient allow and deny lists', async () => {
+  await withPolicy({ allowedRecipients: [RECIPIENT] }, async (tools) => {
+    await expectViolation(tools.transfer_cbtc.invoke({ toAddress: STRANGER, amount: '0.1' }), 'allowedRecipients');
+  });
+  await withPolicy({ deniedRecipients: [STRANGER] }, async (tools) => {
+    await expectViolation(tools.transfer_cbtc.invoke({ toAddress: STRANGER, amount: '0.1' }), 'deniedRecipient');
+  });
+});
+
+await test('tokens and recipients that do not resolve are refused', async () => {
+  await withPolicy({ limits: { CBTC: { perTransaction: '1' } } }, async (_tools, _chain, authorize) => {
+    for (const [request, expected] of [
+      [{ tool: 'transfer_erc20', asset: 'NOPE', amount: '1' }, 'Unknown token symbol NOPE'],
+      [{ tool: 'transfer_cbtc', asset: 'CBTC', amount: '0.1', recipient: 'nobody' }, 'No contact named nobody'],
+    ] as const) {
+      try {
+        await authorize(request);
+        throw new Error(`${JSON.stringify(request)} should be refused`);
+      } catch (error: any) {
+        if (!error.message.includes(expected)) throw error;
+      }
+    }
+  });
+});
+
+await test('disabled tools and maximum swap size', async () => {
+  await withPolicy({ disabledTools: ['deploy_contract', 'burn_erc20'], maxSwapAmount: '10' }, async (tools) => {
+    await expectViolation(tools.deploy_contract.invoke({ abi: [], bytecode: '0x00' }), 'disabledTool');
+    await expectViolation(tools.burn_erc20.invoke({ tokenAddress: STRANGER, amount: '1' }), 'disabledTool');
+    await expectViolation(tools.exact_input_single.invoke({
+      tokenIn: '0x8d0c9d1c17aE5e40ffF9bE350f57840E9E66Cd93',
+      tokenOut: STRANGER,
+      fee: 3000,
+      recipient: RECIPIENT,
+      amountIn: '11',
+      amountOutMinimum: '1',
+    }), 'maxSwapAmount');
+  });
+});
+
+await test('CBTC and WCBTC share one limit, whichever of the two it is set under', async () => {
+  const WCBTC = '0x8d0c9d1c17aE5e40ffF9bE350f57840E9E66Cd93';
+  await withPolicy({ limits: { CBTC: { daily: '1' } } }, async (tools) => {
+    await tools.transfer_cbtc.invoke({ toAddress: RECIPIENT, amount: '0.6' });
+    await expectViolation(tools.transfer_erc20.invoke({ tokenAddress: 'WCBTC', toAddress: RECIPIENT, amount: '0.6' }), 'daily');
+  });
+  await withPolicy({ limits: { [WCBTC]: { perTransaction: '0.5' } } }, async (tools, chain) => {
+    await expectViolation(tools.transfer_cbtc.invoke({ toAddress: RECIPIENT, amount: '0.6' }), 'perTransaction');
+    if (chain.transactions.size !== 0) throw new Error('Nothing should have been sent');
+  });
+});
+
+await test('approvals, permits and NFT approvals are checked against the policy', async () => {
+  const WCBTC = '0x8d0c9d1c17aE5e40ffF9bE350f57840E9E66Cd93';
+  await withPolicy({ limits: { [WCBTC]: { perTransaction: '5' } }, deniedRecipients: [STRANGER] }, async (tools, chain) => {
+    await expectViolation(tools.approve_erc20.invoke({ tokenAddress: WCBTC, spenderAddress: STRANGER, amount: '1' }), 'deniedRecipient');
+    await expectViolation(tools.approve_erc20.invoke({ tokenAddress: WCBTC, spenderAddress: RECIPIENT, amount: '6' }), 'perTransaction');
+    await expectViolation(tools.approve_erc20.invoke({ tokenAddress: WCBTC, spenderAddress: RECIPIENT, unlimited: true }), 'perTransaction');
+    await expectViolation(tools.sign_permit.invoke({ tokenAddress: WCBTC, spenderAddress: STRANGER, amount: '1' }), 'deniedRecipient');
+    await expectViolation(tools.sign_permit.invoke({ tokenAddress: WCBTC, spenderAddress: RECIPIENT, amount: '6' }), 'perTransaction');
+    await expectViolation(tools.approve_erc721.invoke({ contractAddress: RECIPIENT, spenderAddress: STRANGER, tokenId: '1' }), 'deniedRecipient');
+    await expectViolation(tools.set_nft_approval_for_all.invoke({ contractAddress: RECIPIENT, operatorAddress: STRANGER, approved: true }), 'deniedRecipient');
+    if (chain.transactions.size !== 0) throw new Error('Nothing should have been sent');
+  });
+});
@@ -0,0 +1,123 @@
+import { AbiCoder, Interface, Wallet, getAddress, parseEther } from 'ethers';
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import { createClient } from '../src/core/client.js';
+import { MULTICALL3_ADDRESS } from '../src/core/networks.js';
+import { createTools } from '../src/tools.js';
+import { getPortfolio } from '../src/tools/citrea/getPortfolio.js';
+import { erc20Abi, multicall3Abi } from '../src/tools/citrea/abis.js';
+import { startMockRpcServer, createMockChain, RpcRevert } from './mockRpc.js';
+
+const USDC = '0x1111111111111111111111111111111111111111';
+const DUST = '0x2222222222222222222222222222222222222222';
+const BROKEN = '0x3333333333333333333333333333333333333333';
+const FOUND = '0x4444444444444444444444444444444444444444';
+
+const coder = AbiCoder.defaultAbiCoder();
+const erc20 = new Interface(erc20Abi);
+const multicall3 = new Interface(multicall3Abi);
+
+// balanceOf per token; tokens not listed hold nothing and BROKEN reverts
+const holdings: Record<string, bigint> = { [USDC]: 12_500_000n, [FOUND]: parseEther('3') };
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+// Answers one call the way the token or Multicall3 at `target` would
+const answer = (target: string, data: string): string => {
+  const selector = data.slice(0, 10);
+  if (selector === multicall3.getFunction('getEthBalance')!.selector) return coder.encode(['uint256'], [parseEther('1')]);
+  if (target === BROKEN) throw new RpcRevert('0x');
+  if (selector === erc20.getFunction('decimals')!.selector) return coder.encode(['uint8'], [18]);
+  if (selector === erc20.getFunction('symbol')!.selector) return coder.encode(['string'], ['FND']);
+  if (selector === erc20.getFunction('balanceOf')!.selector) return coder.encode(['uint256'], [holdings[target] ?? 0n]);
+  return '0x';
+};
+
+const withNode = async (
+  multicall: boolean,
+  run: (client: ReturnType<typeof createClient>, ethCalls: () => number) => Promise<void>
+) => {
+  const chain = createMockChain();
+  const node = await startMockRpcServer({
+    ...chain.handlers,
+    eth_getCode: ([address]: any[]) => (multicall && getAddress(address) === MULTICALL3_ADDRESS ? '0x6080' : '0x'),
+    eth_call: ([call]: any[]) => {
+      const target = getAddress(call.to);
+      if (target !== MULTICALL3_ADDRESS) return answer(target, call.data);
+
+      const [calls] = multicall3.decodeFunctionData('aggregate3', call.data);
+      const results = calls.map((inner: any) => {
+        try {
+          return [true, answer(getAddress(inner.target), inner.callData)];
+        } catch {
+          return [false, '0x'];
+        }
+      });
+      return multicall3.encodeFunctionResult('aggregate3', [results]);
+    },
+  });
+  const client = createClient({ rpcUrl: node.url, privateKey: Wallet.createRandom().privateKey });
+  const chainId = client.network.chainId;
+  client.tokens.add({ chainId, address: USDC, symbol: 'USDC', decimals: 6 });
+  client.tokens.add({ chainId, address: DUST, symbol: 'DUST', decimals: 8 });
+  client.tokens.add({ chainId, address: BROKEN, symbol: 'BRK', decimals: 18 });
+  // Seen on chain earlier in the session, so it counts as discovered
+  await client.tokens.getMetadata(client, FOUND);
+
+  try {
+    await run(client, () => node.calls.filter((call) => call.method === 'eth_call').length);
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+};
+
+const summary = (balances: { symbol: string; formatted: string }[]) =>
+  balances.map((balance) => `${balance.symbol}=${balance.formatted}`).join(',');
+
+await test('all balances are read in one Multicall3 call and zero balances are skipped', async () => {
+  await withNode(true, async (client, ethCalls) => {
+    const before = ethCalls();
+    const balances = await getPortfolio(client);
+    if (ethCalls() - before !== 1) throw new Error(`Expected one eth_call, made ${ethCalls() - before}`);
+    if (summary(balances) !== 'CBTC=1.0,USDC=12.5,FND=3.0') throw new Error(`Unexpected portfolio ${summary(balances)}`);
+
+    const usdc = balances.find((balance) => balance.symbol === 'USDC');
+    if (usdc?.token !== USDC || usdc.raw !== 12_500_000n) throw new Error(`Unexpected USDC entry ${JSON.stringify(usdc, (_, v) => String(v))}`);
+  });
+});
+
+await test('includeZero lists empty holdings but not unreadable tokens', async () => {
+  await withNode(true, async (client) => {
+    const symbols = (await getPortfolio(client, { includeZero: true })).map((balance) => balance.symbol);
+    if (!symbols.includes('DUST') || !symbols.includes('WCBTC') || symbols.includes('BRK')) {
+      throw new Error(`Unexpected assets ${symbols.join(',')}`);
+    }
+  });
+});
+
+await test('without Multicall3 the balances are read one by one', async () => {
+  await withNode(false, async (client) => {
+    const balances = await getPortfolio(client);
+    if (summary(balances) !== 'CBTC=1.0,USDC=12.5,FND=3.0') throw new Error(`Unexpected portfolio ${summary(balances)}`);
+  });
+});
+
+await test('the get_portfolio tool returns raw amounts as strings', async () => {
+  await withNode(true, async (client) => {
+    const tools: StructuredToolInterface[] = createTools({ getClient: () => client });
+    const tool = tools.find((candidate) => candidate.name === 'get_portfolio')!;
+    const output = JSON.parse(await tool.invoke({}));
+    if (output[1].raw !== '12500000' || output[1].formatted !== '12.5' || output[1].token !== USDC) {
+      throw new Error(`Unexpected tool output ${JSON.stringify(output)}`);
+    }
+  });
+});
@@ -0,0 +1,154 @@
+import { Interface, Wallet, getAddress, parseEther, solidityPacked } from 'ethers';
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import { createClient } from '../src/core/client.js';
+import { NETWORKS } from '../src/core/networks.js';
+import { createTools } from '../src/tools.js';
+import { quoteSwap } from '../src/tools/citrea/quoteSwap.js';
+import { quoterV2Abi, v2RouterQuoteAbi } from '../src/tools/citrea/abis.js';
+import { startMockRpcServer, createMockChain, RpcRevert } from './mockRpc.js';
+
+const TKA = '0x1111111111111111111111111111111111111111';
+const USDC = '0x2222222222222222222222222222222222222222';
+const WBTC = '0x3333333333333333333333333333333333333333';
+const QUOTER = '0x4444444444444444444444444444444444444444';
+const ROUTER = getAddress(NETWORKS['citrea-testnet'].contracts.universalRouter);
+
+const v2Router = new Interface(v2RouterQuoteAbi);
+const quoter = new Interface(quoterV2Abi);
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+type Answer = (target: string, data: string) => string;
+
+const withNode = async (
+  answer: Answer,
+  run: (client: ReturnType<typeof createClient>) => Promise<void>,
+  withQuoter = true
+) => {
+  const chain = createMockChain();
+  const node = await startMockRpcServer({
+    ...chain.handlers,
+    eth_call: ([call]: any[]) => answer(getAddress(call.to), call.data),
+  });
+  const testnet = NETWORKS['citrea-testnet'];
+  const client = createClient({
+    rpcUrl: node.url,
+    privateKey: Wallet.createRandom().privateKey,
+    network: withQuoter ? { ...testnet, contracts: { ...testnet.contracts, quoter: QUOTER } } : 'citrea-testnet',
+  });
+  const chainId = client.network.chainId;
+  client.tokens.add({ chainId, address: TKA, symbol: 'TKA', decimals: 18 });
+  client.tokens.add({ chainId, address: USDC, symbol: 'USDC', decimals: 6 });
+  client.tokens.add({ chainId, address: WBTC, symbol: 'WBTC', decimals: 8 });
+
+  try {
+    await run(client);
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+};
+
+await test('V2 quotes scale amounts by each token\'s decimals', async () => {
+  const answer: Answer = (target, data) => {
+    if (target !== ROUTER) return '0x';
+    const call = v2Router.parseTransaction({ data })!;
+    if (call.name === 'getAmountsOut') return v2Router.encodeFunctionResult('getAmountsOut', [[call.args[0], 3_000_000n]]);
+    return v2Router.encodeFunctionResult('getAmountsIn', [[parseEther('2'), call.args[0]]]);
+  };
+
+  await withNode(answer, async (client) => {
+    const sell = await quoteSwap(client, { path: ['TKA', 'USDC'], amountIn: '2' });
+    if (sell.amountInRaw !== parseEther('2') || sell.amountOut !== '3.0' || sell.executionPrice !== '1.5') {
+      throw new Error(`Unexpected exact-input quote ${JSON.stringify({ ...sell, amountInRaw: undefined, amountOutRaw: undefined })}`);
+    }
+    if (sell.type !== 'exactInput' || sell.fees.join() !== '3000' || sell.gasEstimate !== 21000n) {
+      throw new Error(`Unexpected quote details ${sell.type} ${sell.fees} ${sell.gasEstimate}`);
+    }
+
+    const buy = await quoteSwap(client, { path: ['TKA', 'USDC'], amountOut: '3' });
+    if (buy.type !== 'exactOutput' || buy.amountOutRaw !== 3_000_000n || buy.amountIn !== '2.0') {
+      throw new Error(`Unexpected exact-output quote ${buy.amountIn} for ${buy.amountOutRaw}`);
+    }
+  });
+});
+
+await test('V3 quotes use the single-pool quoter or a packed path reversed for exact output', async () => {
+  const paths: string[] = [];
+  const answer: Answer = (target, data) => {
+    if (target !== QUOTER) return '0x';
+    const call = quoter.parseTransaction({ data })!;
+    if (call.name === 'quoteExactInputSingle') {
+      const [params] = call.args;
+      if (params.fee !== 500n || params.tokenIn !== WBTC) throw new RpcRevert('0x');
+      return quoter.encodeFunctionResult(call.name, [params.amountIn * 6n, 0n, 1, 90_000n]);
+    }
+    paths.push(call.args[0]);
+    return quoter.encodeFunctionResult(call.name, [parseEther('5'), [], [], 180_000n]);
+  };
+
+  await withNode(answer, async (client) => {
+    const single = await quoteSwap(client, { path: ['WBTC', 'USDC'], amountIn: '0.5', protocol: 'v3', fees: [500] });
+    if (single.amountOut !== '300.0' || single.executionPrice !== '600.0' || single.gasEstimate !== 90_000n) {
+      throw new Error(`Unexpected single-pool quote ${single.amountOut} at ${single.executionPrice}, gas ${single.gasEstimate}`);
+    }
+
+    const multi = await quoteSwap(client, { path: ['TKA', 'WBTC', 'USDC'], amountOut: '10', protocol: 'v3', fees: [3000, 500] });
+    const expected = solidityPacked(['address', 'uint24', 'address', 'uint24', 'address'], [USDC, 500, WBTC, 3000, TKA]);
+    if (paths[0] !== expected.toLowerCase()) throw new Error(`Unexpected exact-output path ${paths[0]}`);
+    if (multi.amountIn !== '5.0' || multi.fees.join() !== '3000,500' || multi.gasEstimate !== 180_000n) {
+      throw new Error(`Unexpected multi-hop quote ${multi.amountIn} ${multi.fees} ${multi.gasEstimate}`);
+    }
+  });
+});
+
+await test('bad routes and missing liquidity are reported', async () => {
+  await withNode(() => { throw new RpcRevert('0x'); }, async (client) => {
+    for (const [params, expected] of [
+      [{ path: ['TKA', 'USDC'], amountIn: '1', amountOut: '1' }, 'either amountIn or amountOut'],
+      [{ path: ['TKA', 'WBTC', 'USDC'], amountIn: '1', protocol: 'v3', fees: [3000] }, 'needs 2 fee tiers'],
+      [{ path: ['TKA', 'USDC'], amountIn: '1', protocol: 'v3', fees: [100] }, 'Invalid fee tier 100 for hop 1'],
+      [{ path: ['TKA', 'USDC'], amountIn: '1' }, 'no pool or not enough liquidity'],
+      [{ path: ['USDC', 'TKA'], amountIn: '1.0000001' }, 'Quote failed'],
+    ] as const) {
+      try {
+        await quoteSwap(client, params as any);
+        throw new Error(`${JSON.stringify(params)} should fail`);
+      } catch (error: any) {
+        if (!error.message.includes(expected)) throw error;
+      }
+    }
+  });
+
+  await withNode(() => '0x', async (client) => {
+    try {
+      await quoteSwap(client, { path: ['TKA', 'USDC'], amountIn: '1', protocol: 'v3', fees: [3000] });
+      throw new Error('Quoting without a quoter should fail');
+    } catch (error: any) {
+      if (!error.message.includes('No quoter address configured')) throw error;
+    }
+  }, false);
+});
+
+await test('quote_swap returns the quote as JSON', async () => {
+  const answer: Answer = (_target, data) =>
+    v2Router.encodeFunctionResult('getAmountsOut', [[v2Router.parseTransaction({ data })!.args[0], 42_000_000n, 7n]]);
+
+  await withNode(answer, async (client) => {
+    const tools: StructuredToolInterface[] = createTools({ getClient: () => client });
+    const tool = tools.find((candidate) => candidate.name === 'quote_swap')!;
+    const output = JSON.parse(await tool.invoke({ path: ['USDC', 'TKA', 'WBTC'], amountIn: '42' }));
+    if (output.amountInRaw !== '42000000' || output.amountOutRaw !== '7' || output.amountOut !== '0.00000007' || output.tokenOut.symbol !== 'WBTC') {
+      throw new Error(`Unexpected tool output ${JSON.stringify(output)}`);
+    }
+  });
+});
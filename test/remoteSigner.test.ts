@@ -0,0 +1,184 @@
+import { JsonRpcProvider, Wallet, Transaction, verifyMessage } from 'ethers';
+import { RemoteSigner } from '../src/core/remoteSigner.js';
+import { createClient } from '../src/core/client.js';
+import type { TransactionResult } from '../src/core/results.js';
+import { transferETH } from '../src/tools/citrea/ETHOperations.js';
+import { CitreaAgent } from '../src/CitreaAgent.js';
+import { startMockRpcServer, createMockChain } from './mockRpc.js';
+
+// Key held only by the mock signing service, never by the agent
+const signingWallet = Wallet.createRandom();
+const RECIPIENT = '0x936cEfb89d47F620EAb665D9Bd27BA06b0cF11c7';
+
+const fromRpcTransaction = (tx: any) => ({
+  from: tx.from,
+  to: tx.to,
+  data: tx.data,
+  type: tx.type != null ? Number(tx.type) : undefined,
+  nonce: Number(tx.nonce),
+  chainId: BigInt(tx.chainId),
+  gasLimit: BigInt(tx.gas),
+  value: tx.value != null ? BigInt(tx.value) : 0n,
+  gasPrice: tx.gasPrice != null ? BigInt(tx.gasPrice) : undefined,
+  maxFeePerGas: tx.maxFeePerGas != null ? BigInt(tx.maxFeePerGas) : undefined,
+  maxPriorityFeePerGas: tx.maxPriorityFeePerGas != null ? BigInt(tx.maxPriorityFeePerGas) : undefined,
+});
+
+const signingServer = await startMockRpcServer({
+  eth_signTransaction: ([tx]) => signingWallet.signTransaction(fromRpcTransaction(tx)),
+  personal_sign: ([data]) => signingWallet.signMessage(Buffer.from(data.slice(2), 'hex')),
+});
+const chain = createMockChain();
+const node = await startMockRpcServer(chain.handlers);
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+await test('remote signer signs transactions through eth_signTransaction', async () => {
+  const signer = new RemoteSigner({ url: signingServer.url, address: signingWallet.address });
+  const raw = await signer.signTransaction({
+    to: RECIPIENT,
+    value: 1000n,
+    nonce: 0,
+    gasLimit: 21000n,
+    gasPrice: 10n ** 9n,
+    chainId: 5115n,
+  });
+
+  const parsed = Transaction.from(raw);
+  if (parsed.from !== signingWallet.address) {
+    throw new Error(`Expected signature from ${signingWallet.address}, got ${parsed.from}`);
+  }
+});
+
+await test('remote signer rejects signatures from another account', async () => {
+  // A misbehaving service that signs with whatever key it holds
+  const rogueServer = await startMockRpcServer({
+    eth_signTransaction: ([tx]) => signingWallet.signTransaction({ ...fromRpcTransaction(tx), from: undefined }),
+  });
+  const signer = new RemoteSigner({ url: rogueServer.url, address: Wallet.createRandom().address });
+  try {
+    await signer.signTransaction({ to: RECIPIENT, nonce: 0, gasLimit: 21000n, gasPrice: 1n, chainId: 5115n });
+  } catch (error: any) {
+    if (!error.message.includes('expected')) throw error;
+    return;
+  } finally {
+    await rogueServer.close();
+  }
+  throw new Error('Signature from a different account was accepted');
+});
+
+await test('remote signer rejects a transaction other than the one requested', async () => {
+  // A compromised service that redirects the value to its own address
+  const rogueServer = await startMockRpcServer({
+    eth_signTransaction: ([tx]) => signingWallet.signTransaction({ ...fromRpcTransaction(tx), to: Wallet.createRandom().address }),
+  });
+  const signer = new RemoteSigner({ url: rogueServer.url, address: signingWallet.address });
+  try {
+    await signer.signTransaction({ to: RECIPIENT, value: 1000n, nonce: 0, gasLimit: 21000n, gasPrice: 1n, chainId: 5115n });
+  } catch (error: any) {
+    if (!error.message.includes('different recipient')) throw error;
+    return;
+  } finally {
+    await rogueServer.close();
+  }
+  throw new Error('A transaction to another recipient was accepted');
+});
+
+await test('remote signer rejects message and typed data signatures from another account', async () => {
+  const rogueWallet = Wallet.createRandom();
+  const rogueServer = await startMockRpcServer({
+    personal_sign: ([data]) => rogueWallet.signMessage(Buffer.from(data.slice(2), 'hex')),
+    eth_signTypedData_v4: ([, payload]) => {
+      const { domain, types: { EIP712Domain, ...types }, message } = JSON.parse(payload);
+      return rogueWallet.signTypedData(domain, types, message);
+    },
+  });
+  const signer = new RemoteSigner({ url: rogueServer.url, address: signingWallet.address });
+  try {
+    for (const sign of [
+      () => signer.signMessage('hello citrea'),
+      () => signer.signTypedData({ name: 'Citrea', chainId: 5115 }, { Greeting: [{ name: 'text', type: 'string' }] }, { text: 'hello' }),
+    ]) {
+      try {
+        await sign();
+        throw new Error('A signature from another account was accepted');
+      } catch (error: any) {
+        if (!error.message.includes(`from ${rogueWallet.address}`)) throw error;
+      }
+    }
+  } finally {
+    await rogueServer.close();
+  }
+});
+
+await test('remote signer signs messages through personal_sign', async () => {
+  const signer = new RemoteSigner({ url: signingServer.url, address: signingWallet.address });
+  const signature = await signer.signMessage('hello citrea');
+  if (verifyMessage('hello citrea', signature) !== signingWallet.address) {
+    throw new Error('Message signature does not recover to the signing account');
+  }
+});
+
+await test('existing tools work unchanged with a remote signer', async () => {
+  const client = createClient({
+    rpcUrl: node.url,
+    signer: new RemoteSigner({ url: signingServer.url, address: signingWallet.address }),
+  });
+
+  const { hash } = await transferETH(client, { toAddress: RECIPIENT, amount: '0.01' }) as TransactionResult;
+  if (!chain.receipts.has(hash)) {
+    throw new Error(`Transaction ${hash} was not broadcast to the node`);
+  }
+});
+
+await test('a signer with its own provider is connected to the client RPC', async () => {
+  const elsewhere = new JsonRpcProvider('http://127.0.0.1:1');
+  const client = createClient({
+    rpcUrl: node.url,
+    signer: new RemoteSigner({ url: signingServer.url, address: signingWallet.address }, elsewhere),
+  });
+
+  if (client.signer.provider !== client.provider) {
+    throw new Error('The signer should send through the RPC whose chain ID the client verifies');
+  }
+  elsewhere.destroy();
+});
+
+await test('agent credentials never contain a private key', async () => {
+  const agent = new CitreaAgent({
+    rpcUrl: node.url,
+    signer: new RemoteSigner({ url: signingServer.url, address: signingWallet.address }),
+    model: 'gpt-4o-mini',
+    openAiApiKey: 'test-key',
+  });
+
+  if ('privateKey' in agent.getCredentials()) {
+    throw new Error('getCredentials() exposes a private key');
+  }
+  if ((await agent.getAddress()) !== signingWallet.address) {
+    throw new Error('Agent address does not match the remote signer');
+  }
+});
+
+await test('building an agent sends nothing to the RPC', async () => {
+  const quietNode = await startMockRpcServer(createMockChain().handlers);
+  try {
+    new CitreaAgent({ rpcUrl: quietNode.url, privateKey: Wallet.createRandom().privateKey, model: 'gpt-4o-mini', openAiApiKey: 'test-key' });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    if (quietNode.calls.length !== 0) throw new Error(`The constructor called ${quietNode.calls.map((call) => call.method).join(', ')}`);
+  } finally {
+    await quietNode.close();
+  }
+});
+
+await signingServer.close();
+await node.close();
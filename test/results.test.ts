@@ -0,0 +1,112 @@
+import { AbiCoder, Interface, Wallet, getAddress } from 'ethers';
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import { createClient } from '../src/core/client.js';
+import { createTools } from '../src/tools.js';
+import type { TransactionResult } from '../src/core/results.js';
+import { transferETH } from '../src/tools/citrea/ETHOperations.js';
+import { transferErc20 } from '../src/tools/citrea/erc20Operations.js';
+import { erc20Abi } from '../src/tools/citrea/abis.js';
+import { startMockRpcServer, createMockChain } from './mockRpc.js';
+
+const RECIPIENT = '0x936cEfb89d47F620EAb665D9Bd27BA06b0cF11c7';
+const TOKEN = '0x1111111111111111111111111111111111111111';
+
+const coder = AbiCoder.defaultAbiCoder();
+const erc20 = new Interface([...erc20Abi, 'event Transfer(address indexed from, address indexed to, uint256 value)']);
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+// A 6-decimal token whose transfer() emits a matching Transfer event
+const startTokenNode = async () => {
+  const chain = createMockChain({
+    logs: (tx) => {
+      if (tx.to !== TOKEN || !tx.data.startsWith(erc20.getFunction('transfer')!.selector)) return [];
+      const [to, amount] = erc20.decodeFunctionData('transfer', tx.data);
+      const { data, topics } = erc20.encodeEventLog('Transfer', [tx.from, to, amount]);
+      return [{ address: TOKEN, topics, data }];
+    },
+  });
+  const responses: Record<string, string> = {
+    [erc20.getFunction('decimals')!.selector]: coder.encode(['uint8'], [6]),
+    [erc20.getFunction('symbol')!.selector]: coder.encode(['string'], ['USDC']),
+    [erc20.getFunction('balanceOf')!.selector]: coder.encode(['uint256'], [7_500_000n]),
+  };
+  const node = await startMockRpcServer({
+    ...chain.handlers,
+    eth_call: ([call]: any[]) => (call.to && getAddress(call.to) === TOKEN && responses[(call.data ?? '0x').slice(0, 10)]) || coder.encode(['bool'], [true]),
+  });
+  return { chain, node };
+};
+
+await test('a CBTC transfer reports hash, gas, fee, balance and explorer link', async () => {
+  const chain = createMockChain();
+  const node = await startMockRpcServer(chain.handlers);
+  const client = createClient({ rpcUrl: node.url, privateKey: Wallet.createRandom().privateKey });
+
+  try {
+    const result = await transferETH(client, { toAddress: RECIPIENT, amount: '0.1' }) as TransactionResult;
+    if (!chain.transactions.has(result.hash)) throw new Error(`Unknown hash ${result.hash}`);
+    if (result.gasUsed !== 21000n || result.effectiveGasPrice !== 10n ** 9n || result.fee !== '0.000021') {
+      throw new Error(`Unexpected gas figures ${result.gasUsed} / ${result.effectiveGasPrice} / ${result.fee}`);
+    }
+    if (result.balances[0]?.asset !== 'CBTC') throw new Error('Missing resulting CBTC balance');
+    if (result.explorerUrl !== `https://explorer.testnet.citrea.xyz/tx/${result.hash}`) {
+      throw new Error(`Unexpected explorer link ${result.explorerUrl}`);
+    }
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+});
+
+await test('ERC20 transfers are decoded from the receipt logs with token decimals', async () => {
+  const { node } = await startTokenNode();
+  const wallet = Wallet.createRandom();
+  const client = createClient({ rpcUrl: node.url, privateKey: wallet.privateKey });
+
+  try {
+    const result = await transferErc20(client, { tokenAddress: TOKEN, toAddress: RECIPIENT, amount: '2.5' }) as TransactionResult;
+    const [transfer] = result.transfers;
+    if (!transfer || transfer.amount !== '2.5' || transfer.rawAmount !== 2_500_000n || transfer.symbol !== 'USDC') {
+      throw new Error(`Unexpected transfers ${JSON.stringify(result.transfers, (_, value) => (typeof value === 'bigint' ? value.toString() : value))}`);
+    }
+    if (transfer.from !== wallet.address || transfer.to !== RECIPIENT) {
+      throw new Error(`Unexpected transfer parties ${transfer.from} -> ${transfer.to}`);
+    }
+    const token = result.balances.find((entry) => entry.token === TOKEN);
+    if (token?.asset !== 'USDC' || token.balance !== '7.5') throw new Error(`Unexpected token balance ${JSON.stringify(token)}`);
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+});
+
+await test('tools return compact JSON instead of a bare hash', async () => {
+  const { node } = await startTokenNode();
+  const wallet = Wallet.createRandom();
+  const client = createClient({ rpcUrl: node.url, privateKey: wallet.privateKey });
+  const tools: StructuredToolInterface[] = createTools({ getClient: () => client });
+  const transfer = tools.find((tool) => tool.name === 'transfer_erc20')!;
+
+  try {
+    const output = JSON.parse(await transfer.invoke({ tokenAddress: TOKEN, toAddress: RECIPIENT, amount: '1' }));
+    if (output.status !== 'confirmed' || !output.hash || output.fee !== '0.000021 CBTC' || output.gasPrice !== '1.0 gwei') {
+      throw new Error(`Unexpected tool output ${JSON.stringify(output)}`);
+    }
+    if (output.transfers?.[0] !== `1.0 USDC ${wallet.address} -> ${RECIPIENT}` || output.balances?.USDC !== '7.5') {
+      throw new Error(`Unexpected transfers or balances ${JSON.stringify(output)}`);
+    }
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+});
@@ -4,12 +4,13 @@ export type CitreaAgentType = CitreaAgent;
 
 
 export const createTestAgent = (config?: Partial<CitreaAgentConfig> & { personalityPrompt?: string }): CitreaAgent => {
-  if (!config?.privateKey) {
-    throw new Error('privateKey is required in config');
+  if (!config?.privateKey && !config?.signer) {
+    throw new Error('privateKey or signer is required in config');
   }
 
   const defaultConfig: CitreaAgentConfig = {
     privateKey: config.privateKey,
+    signer: config.signer,
     rpcUrl: config?.rpcUrl || 'https://testnet.citrea.xyz',
     model: config?.model || 'gpt-4o-mini',
     openAiApiKey: config?.openAiApiKey,
@@ -0,0 +1,140 @@
+import { AbiCoder, Interface, Wallet, getAddress } from 'ethers';
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import { createClient } from '../src/core/client.js';
+import { createTools } from '../src/tools.js';
+import type { SimulationResult } from '../src/core/simulation.js';
+import { transferETH } from '../src/tools/citrea/ETHOperations.js';
+import { transferErc20 } from '../src/tools/citrea/erc20Operations.js';
+import { exactInputSingle } from '../src/tools/citrea/swapOperations.js';
+import { erc20Abi } from '../src/tools/citrea/abis.js';
+import { startMockRpcServer, createMockChain, RpcRevert } from './mockRpc.js';
+
+const RECIPIENT = '0x936cEfb89d47F620EAb665D9Bd27BA06b0cF11c7';
+const TOKEN = '0x1111111111111111111111111111111111111111';
+const OTHER_TOKEN = '0x2222222222222222222222222222222222222222';
+
+const coder = AbiCoder.defaultAbiCoder();
+const erc20 = new Interface(erc20Abi);
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+// eth_call answered per contract and selector; anything else succeeds with empty return data
+const withCalls = (responses: Record<string, (data: string) => string>) => ([call]: any[]) => {
+  const handler = call.to && responses[`${getAddress(call.to)}:${(call.data ?? '0x').slice(0, 10)}`];
+  return handler ? handler(call.data) : '0x';
+};
+
+const tokenCalls = (transfer: (data: string) => string) => ({
+  [`${TOKEN}:${erc20.getFunction('decimals')!.selector}`]: () => coder.encode(['uint8'], [18]),
+  [`${TOKEN}:${erc20.getFunction('symbol')!.selector}`]: () => coder.encode(['string'], ['TST']),
+  [`${TOKEN}:${erc20.getFunction('balanceOf')!.selector}`]: () => coder.encode(['uint256'], [10n ** 21n]),
+  [`${TOKEN}:${erc20.getFunction('transfer')!.selector}`]: transfer,
+});
+
+const startSimulatedNode = async (responses: Record<string, (data: string) => string> = {}) => {
+  const chain = createMockChain();
+  const node = await startMockRpcServer({ ...chain.handlers, eth_call: withCalls(responses) });
+  return { chain, node };
+};
+
+await test('dryRun transfer reports gas and balance change without broadcasting', async () => {
+  const { node } = await startSimulatedNode();
+  const client = createClient({ rpcUrl: node.url, privateKey: Wallet.createRandom().privateKey });
+
+  try {
+    const result = await transferETH(client, { toAddress: RECIPIENT, amount: '0.5', dryRun: true }) as SimulationResult;
+    if (!result.simulated || !result.success) throw new Error(`Expected a successful simulation, got ${JSON.stringify(result)}`);
+    if (result.gasEstimate !== 21000n || result.gasCost !== '0.000021') {
+      throw new Error(`Unexpected gas: ${result.gasEstimate} / ${result.gasCost}`);
+    }
+    if (result.balanceChanges[0].amount !== '-0.500021') {
+      throw new Error(`Unexpected CBTC change ${result.balanceChanges[0].amount}`);
+    }
+    if (node.calls.some((call) => call.method === 'eth_sendRawTransaction')) {
+      throw new Error('A dry run must not broadcast');
+    }
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+});
+
+await test('simulate mode decodes the revert reason of a failing call', async () => {
+  const { node } = await startSimulatedNode(tokenCalls(() => {
+    throw new RpcRevert(
+      '0x08c379a0' + coder.encode(['string'], ['ERC20: transfer to a blocked address']).slice(2)
+    );
+  }));
+  const client = createClient({ rpcUrl: node.url, privateKey: Wallet.createRandom().privateKey, mode: 'simulate' });
+
+  try {
+    const result = await transferErc20(client, { tokenAddress: TOKEN, toAddress: RECIPIENT, amount: '1' }) as SimulationResult;
+    if (result.success || result.revertReason !== 'ERC20: transfer to a blocked address') {
+      throw new Error(`Expected the decoded revert reason, got ${JSON.stringify(result)}`);
+    }
+    if (node.calls.some((call) => call.method === 'eth_sendRawTransaction')) {
+      throw new Error('Simulate mode must not broadcast');
+    }
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+});
+
+await test('swap simulation reports the amount the router would return', async () => {
+  const router = new Interface(['function exactInputSingle((address,address,uint24,address,uint256,uint256,uint160)) returns (uint256)']);
+  const { node } = await startSimulatedNode({
+    [`0x610c98EAD0df13EA906854b6041122e8A8D14413:${router.getFunction('exactInputSingle')!.selector}`]: () =>
+      coder.encode(['uint256'], [1_500_000_000_000_000_000n]),
+    // Already approved, so the simulation covers the swap alone
+    [`${TOKEN}:${erc20.getFunction('allowance')!.selector}`]: () => coder.encode(['uint256'], [10n ** 18n]),
+  });
+  const wallet = Wallet.createRandom();
+  const client = createClient({ rpcUrl: node.url, privateKey: wallet.privateKey, mode: 'simulate' });
+  client.tokens.add({ chainId: client.network.chainId, address: TOKEN, symbol: 'TST', decimals: 18 });
+  client.tokens.add({ chainId: client.network.chainId, address: OTHER_TOKEN, symbol: 'OTH', decimals: 18 });
+
+  try {
+    const result = await exactInputSingle(client, {
+      tokenIn: TOKEN,
+      tokenOut: OTHER_TOKEN,
+      fee: 3000,
+      recipient: wallet.address,
+      amountIn: '1',
+      amountOutMinimum: '1.4',
+    }) as SimulationResult;
+
+    const changes = result.balanceChanges.map((change) => `${change.amount} ${change.asset}`);
+    if (!changes.includes(`-1.0 ${TOKEN}`) || !changes.includes(`+1.5 ${OTHER_TOKEN}`)) {
+      throw new Error(`Unexpected balance changes: ${changes.join(', ')}`);
+    }
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+});
+
+await test('tools summarize simulations as text for the model', async () => {
+  const { node } = await startSimulatedNode();
+  const client = createClient({ rpcUrl: node.url, privateKey: Wallet.createRandom().privateKey, mode: 'simulate' });
+  const [transferTool]: StructuredToolInterface[] = createTools({ getClient: () => client });
+
+  try {
+    const output = await transferTool.invoke({ toAddress: RECIPIENT, amount: '0.1' });
+    if (typeof output !== 'string' || !output.startsWith('SIMULATION ONLY') || !output.includes('-0.100021 CBTC')) {
+      throw new Error(`Unexpected tool output: ${output}`);
+    }
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+});
@@ -5,15 +5,16 @@ const testImports = async () => {
   try {
     // Try to import the modules
     const { swapExactTokensForTokens } = await import('../src/tools/citrea/swapOperations.js');
-    const { setCurrentPrivateKey } = await import('../src/core/client.js');
+    const { createClient } = await import('../src/core/client.js');
 
     console.log('✅ Imports successful!');
     console.log('swapExactTokensForTokens function:', typeof swapExactTokensForTokens);
-    console.log('setCurrentPrivateKey function:', typeof setCurrentPrivateKey);
+    console.log('createClient function:', typeof createClient);
 
-  } catch (error) {
+  } catch (error: any) {
     console.log('❌ Import test failed:', error.message);
     console.log('Error details:', error);
+    process.exitCode = 1;
   }
 };
 
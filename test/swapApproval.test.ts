@@ -0,0 +1,153 @@
+import { AbiCoder, Interface, Transaction, Wallet, getAddress, parseEther } from 'ethers';
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import { createClient, type SwapOptions } from '../src/core/client.js';
+import { createTools } from '../src/tools.js';
+import type { TransactionResult } from '../src/core/results.js';
+import type { SimulationResult } from '../src/core/simulation.js';
+import { exactInputSingle, SwapError, type ExactInputSingleParams } from '../src/tools/citrea/swapOperations.js';
+import { erc20Abi, universalRouterAbi } from '../src/tools/citrea/abis.js';
+import { startMockRpcServer, createMockChain } from './mockRpc.js';
+
+const ROUTER = '0x610c98EAD0df13EA906854b6041122e8A8D14413';
+const TOKEN_IN = '0x1111111111111111111111111111111111111111';
+const TOKEN_OUT = '0x2222222222222222222222222222222222222222';
+
+const coder = AbiCoder.defaultAbiCoder();
+const erc20 = new Interface(erc20Abi);
+const router = new Interface(universalRouterAbi);
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+// Sent transactions, in order, as 'approve:<amount>' or the router function name
+type Sent = string[];
+
+// A router swap against a token whose router allowance is `allowance`
+const withSwap = async (
+  allowance: bigint,
+  swaps: SwapOptions,
+  run: (client: ReturnType<typeof createClient>, params: ExactInputSingleParams, sent: () => Sent) => Promise<void>,
+  rejectSwap = false
+) => {
+  const chain = createMockChain();
+  const node = await startMockRpcServer({
+    ...chain.handlers,
+    // The node refuses the swap itself, as it would a swap that reverts in its gas estimate
+    eth_sendRawTransaction: (params: any[]) => {
+      if (rejectSwap && getAddress(Transaction.from(params[0]).to!) === ROUTER) throw new Error('execution reverted: Too little received');
+      return chain.handlers.eth_sendRawTransaction(params);
+    },
+    eth_call: ([call]: any[]) => {
+      const selector = (call.data ?? '0x').slice(0, 10);
+      if (call.to && getAddress(call.to) === TOKEN_IN && selector === erc20.getFunction('allowance')!.selector) {
+        return coder.encode(['uint256'], [allowance]);
+      }
+      return coder.encode(['uint256'], [parseEther('1.5')]);
+    },
+  });
+  const wallet = Wallet.createRandom();
+  const client = createClient({ rpcUrl: node.url, privateKey: wallet.privateKey, swaps });
+  client.tokens.add({ chainId: client.network.chainId, address: TOKEN_IN, symbol: 'TIN', decimals: 18 });
+  client.tokens.add({ chainId: client.network.chainId, address: TOKEN_OUT, symbol: 'TOUT', decimals: 18 });
+  const params: ExactInputSingleParams = {
+    tokenIn: TOKEN_IN,
+    tokenOut: TOKEN_OUT,
+    fee: 3000,
+    recipient: wallet.address,
+    amountIn: '2',
+    amountOutMinimum: '1',
+  };
+  const sent = () => [...chain.transactions.values()].map(({ tx }) => {
+    if (getAddress(tx.to) === TOKEN_IN) {
+      const [spender, amount] = erc20.decodeFunctionData('approve', tx.data);
+      if (spender !== ROUTER) throw new Error(`Approved the wrong spender ${spender}`);
+      return `approve:${amount}`;
+    }
+    return router.parseTransaction({ data: tx.data })!.name;
+  });
+
+  try {
+    await run(client, params, sent);
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+};
+
+await test('a swap without allowance approves the exact input first and reports both transactions', async () => {
+  await withSwap(0n, {}, async (client, params, sent) => {
+    const result = await exactInputSingle(client, params) as TransactionResult;
+
+    const order = sent();
+    if (order.join(',') !== `approve:${parseEther('2')},exactInputSingle`) {
+      throw new Error(`Unexpected transactions ${order.join(', ')}`);
+    }
+    if (!result.approval || result.approval.hash === result.hash) {
+      throw new Error('The result should report the approval next to the swap');
+    }
+  });
+});
+
+await test('a swap that fails after its approval reports the allowance it left', async () => {
+  await withSwap(0n, {}, async (client, params, sent) => {
+    try {
+      await exactInputSingle(client, params);
+      throw new Error('The swap should fail');
+    } catch (error: any) {
+      if (!(error instanceof SwapError)) throw error;
+      const approval = error.sent.approval;
+      if (!approval || !error.message.includes(`router approval ${approval.hash} went through`) || !error.message.includes('may still spend 2.0 TIN')) {
+        throw new Error(`Unexpected error ${error.message}`);
+      }
+    }
+    if (sent().join(',') !== `approve:${parseEther('2')}`) throw new Error(`Unexpected transactions ${sent().join(', ')}`);
+  }, true);
+});
+
+await test('an existing allowance is reused', async () => {
+  await withSwap(parseEther('5'), {}, async (client, params, sent) => {
+    const result = await exactInputSingle(client, params) as TransactionResult;
+    if (sent().join(',') !== 'exactInputSingle' || result.approval) {
+      throw new Error(`Expected the swap alone, sent ${sent().join(', ')}`);
+    }
+  });
+});
+
+await test('auto-approval can be switched off per client and per call', async () => {
+  await withSwap(0n, { autoApprove: false }, async (client, params, sent) => {
+    await exactInputSingle(client, params);
+    await exactInputSingle(client, { ...params, autoApprove: true });
+    if (sent().join(',') !== `exactInputSingle,approve:${parseEther('2')},exactInputSingle`) {
+      throw new Error(`Unexpected transactions ${sent().join(', ')}`);
+    }
+  });
+});
+
+await test('dry runs report the approval without sending it', async () => {
+  await withSwap(0n, {}, async (client, params, sent) => {
+    const result = await exactInputSingle(client, { ...params, dryRun: true }) as SimulationResult;
+    if (result.approval?.amount !== '2.0' || result.approval.spender !== ROUTER) {
+      throw new Error(`Expected the pending approval, got ${JSON.stringify(result.approval)}`);
+    }
+    if (sent().length !== 0) throw new Error('A dry run must not send the approval');
+  });
+});
+
+await test('the swap tool output lists the approval', async () => {
+  await withSwap(0n, {}, async (client, params) => {
+    const tools: StructuredToolInterface[] = createTools({ getClient: () => client });
+    const swap = tools.find((tool) => tool.name === 'exact_input_single')!;
+    const output = JSON.parse(await swap.invoke(params));
+    if (!output.approval?.hash || output.approval.hash === output.hash) {
+      throw new Error(`Unexpected tool output ${JSON.stringify(output)}`);
+    }
+  });
+});
@@ -0,0 +1,110 @@
+import { AbiCoder, Interface, Wallet, getAddress } from 'ethers';
+import { createClient } from '../src/core/client.js';
+import type { TransactionResult } from '../src/core/results.js';
+import type { SimulationResult } from '../src/core/simulation.js';
+import { exactOutputSingle, swapExactTokensForTokens } from '../src/tools/citrea/swapOperations.js';
+import { erc20Abi, routerDeadlineAbi, universalRouterAbi } from '../src/tools/citrea/abis.js';
+import { startMockRpcServer, createMockChain } from './mockRpc.js';
+
+const ROUTER = '0x610c98EAD0df13EA906854b6041122e8A8D14413';
+const USDC = '0x1111111111111111111111111111111111111111';
+const WBTC = '0x2222222222222222222222222222222222222222';
+const TKN = '0x3333333333333333333333333333333333333333';
+
+// None of the tokens is registered, so their decimals are read from chain
+const DECIMALS: Record<string, [string, number]> = { [USDC]: ['USDC', 6], [WBTC]: ['WBTC', 8], [TKN]: ['TKN', 18] };
+
+const coder = AbiCoder.defaultAbiCoder();
+const erc20 = new Interface(erc20Abi);
+const router = new Interface(universalRouterAbi);
+const routerDeadline = new Interface(routerDeadlineAbi);
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+const withTokens = async (
+  allowance: bigint,
+  run: (client: ReturnType<typeof createClient>, sent: () => { to: string; data: string }[], recipient: string) => Promise<void>
+) => {
+  const chain = createMockChain();
+  const node = await startMockRpcServer({
+    ...chain.handlers,
+    eth_call: ([call]: any[]) => {
+      const selector = (call.data ?? '0x').slice(0, 10);
+      const token = DECIMALS[getAddress(call.to)];
+      if (token && selector === erc20.getFunction('decimals')!.selector) return coder.encode(['uint8'], [token[1]]);
+      if (token && selector === erc20.getFunction('symbol')!.selector) return coder.encode(['string'], [token[0]]);
+      if (token && selector === erc20.getFunction('allowance')!.selector) return coder.encode(['uint256'], [allowance]);
+      // The router needs 2 TKN for any exact output
+      if (getAddress(call.to) === ROUTER) return coder.encode(['uint256'], [2n * 10n ** 18n]);
+      return '0x';
+    },
+  });
+  const wallet = Wallet.createRandom();
+  const client = createClient({ rpcUrl: node.url, privateKey: wallet.privateKey, swaps: { usePermit: false } });
+
+  try {
+    await run(client, () => [...chain.transactions.values()].map(({ tx }) => ({ to: getAddress(tx.to), data: tx.data })), wallet.address);
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+};
+
+await test('V2 amounts and the approval are scaled by each token\'s decimals', async () => {
+  await withTokens(0n, async (client, sent, recipient) => {
+    const result = await swapExactTokensForTokens(client, { amountIn: '1.5', amountOutMin: '0.0001', path: [USDC, WBTC], to: recipient }) as TransactionResult;
+
+    const [approval, swap] = sent();
+    const [, approved] = erc20.decodeFunctionData('approve', approval.data);
+    const [, [inner]] = routerDeadline.decodeFunctionData('multicall', swap.data);
+    const [amountIn, amountOutMin] = router.decodeFunctionData('swapExactTokensForTokens', inner);
+    if (approved !== 1_500_000n || amountIn !== 1_500_000n || amountOutMin !== 10_000n) {
+      throw new Error(`Unexpected amounts: approved ${approved}, in ${amountIn}, minimum ${amountOutMin}`);
+    }
+    if (!result.approval) throw new Error('The result should report the approval');
+  });
+});
+
+await test('V3 exact output amounts and simulated changes use each token\'s decimals', async () => {
+  await withTokens(10n ** 30n, async (client, sent, recipient) => {
+    const params = { tokenIn: TKN, tokenOut: USDC, fee: 3000, recipient, amountOut: '2.5', amountInMaximum: '3' };
+    const simulation = await exactOutputSingle(client, { ...params, dryRun: true }) as SimulationResult;
+
+    const changes = simulation.balanceChanges.map((change) => `${change.amount} ${change.asset}`);
+    if (!changes.includes(`-2.0 ${TKN}`) || !changes.includes(`+2.5 ${USDC}`)) {
+      throw new Error(`Unexpected balance changes: ${changes.join(', ')}`);
+    }
+
+    await exactOutputSingle(client, params);
+    const [decoded] = router.decodeFunctionData('exactOutputSingle', sent()[0].data);
+    if (decoded.amountOut !== 2_500_000n || decoded.amountInMaximum !== 3n * 10n ** 18n) {
+      throw new Error(`Unexpected amounts: out ${decoded.amountOut}, maximum in ${decoded.amountInMaximum}`);
+    }
+  });
+});
+
+await test('amounts finer than the token allows are refused', async () => {
+  await withTokens(0n, async (client, sent, recipient) => {
+    for (const [params, expected] of [
+      [{ amountIn: '1.0000001', amountOutMin: '0.0001' }, 'Amount in 1.0000001 is not a valid USDC amount (at most 6 decimals)'],
+      [{ amountIn: '1', amountOutMin: '0.000000001' }, 'Amount out minimum 0.000000001 is not a valid WBTC amount (at most 8 decimals)'],
+    ] as const) {
+      try {
+        await swapExactTokensForTokens(client, { ...params, path: [USDC, WBTC], to: recipient });
+        throw new Error(`${JSON.stringify(params)} should be refused`);
+      } catch (error: any) {
+        if (!error.message.includes(expected)) throw error;
+      }
+    }
+    if (sent().length !== 0) throw new Error('Nothing should have been sent');
+  });
+});
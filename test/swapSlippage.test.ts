@@ -0,0 +1,161 @@
+import { Interface, MaxUint256, Wallet, parseEther } from 'ethers';
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import { createClient, type SwapOptions } from '../src/core/client.js';
+import { NETWORKS } from '../src/core/networks.js';
+import { formatTransactionResult, type TransactionResult } from '../src/core/results.js';
+import { createTools } from '../src/tools.js';
+import { PolicyEngine, PolicyViolationError } from '../src/policy.js';
+import { exactInputSingle, swapTokensForExactTokens } from '../src/tools/citrea/swapOperations.js';
+import { erc20Abi, quoterV2Abi, routerDeadlineAbi, universalRouterAbi, v2RouterQuoteAbi } from '../src/tools/citrea/abis.js';
+import { startMockRpcServer, createMockChain } from './mockRpc.js';
+
+const TOKEN_IN = '0x1111111111111111111111111111111111111111';
+const TOKEN_OUT = '0x2222222222222222222222222222222222222222';
+const QUOTER = '0x4444444444444444444444444444444444444444';
+
+const erc20 = new Interface(erc20Abi);
+const quotes = new Interface([...v2RouterQuoteAbi, ...quoterV2Abi]);
+const router = new Interface(universalRouterAbi);
+const routerDeadline = new Interface(routerDeadlineAbi);
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+// Every pool prices TOKEN_OUT at half a TOKEN_IN; the router may already spend anything
+const answer = (data: string): string => {
+  if (data.startsWith(erc20.getFunction('allowance')!.selector)) return erc20.encodeFunctionResult('allowance', [MaxUint256]);
+  const call = quotes.parseTransaction({ data });
+  switch (call?.name) {
+    case 'getAmountsOut': return quotes.encodeFunctionResult(call.fragment, [[call.args[0], call.args[0] * 2n]]);
+    case 'getAmountsIn': return quotes.encodeFunctionResult(call.fragment, [[call.args[0] / 2n, call.args[0]]]);
+    case 'quoteExactInputSingle': return quotes.encodeFunctionResult(call.fragment, [call.args[0].amountIn * 2n, 0n, 0, 80_000n]);
+    case 'quoteExactOutputSingle': return quotes.encodeFunctionResult(call.fragment, [call.args[0].amount / 2n, 0n, 0, 80_000n]);
+    default: return erc20.encodeFunctionResult('balanceOf', [0n]);
+  }
+};
+
+const withSwaps = async (
+  swaps: SwapOptions,
+  run: (client: ReturnType<typeof createClient>, sent: () => string[], wallet: { address: string }) => Promise<void>,
+  withQuoter = true
+) => {
+  const chain = createMockChain();
+  const node = await startMockRpcServer({ ...chain.handlers, eth_call: ([call]: any[]) => answer(call.data ?? '0x') });
+  const testnet = NETWORKS['citrea-testnet'];
+  const wallet = Wallet.createRandom();
+  const client = createClient({
+    rpcUrl: node.url,
+    privateKey: wallet.privateKey,
+    network: withQuoter ? { ...testnet, contracts: { ...testnet.contracts, quoter: QUOTER } } : 'citrea-testnet',
+    swaps: { usePermit: false, ...swaps },
+  });
+  client.tokens.add({ chainId: client.network.chainId, address: TOKEN_IN, symbol: 'TIN', decimals: 18 });
+  client.tokens.add({ chainId: client.network.chainId, address: TOKEN_OUT, symbol: 'TOUT', decimals: 18 });
+
+  try {
+    await run(client, () => [...chain.transactions.values()].map(({ tx }) => tx.data), wallet);
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+};
+
+await test('exact-input swaps take their minimum output from a live quote', async () => {
+  await withSwaps({}, async (client, sent, wallet) => {
+    const result = await exactInputSingle(client, {
+      tokenIn: 'TIN', tokenOut: 'TOUT', fee: 3000, recipient: wallet.address, amountIn: '1', slippageBps: 100,
+    }) as TransactionResult;
+
+    const [params] = router.decodeFunctionData('exactInputSingle', sent()[0]);
+    if (params.amountOutMinimum !== parseEther('1.98')) throw new Error(`Unexpected minimum ${params.amountOutMinimum}`);
+
+    const { swap } = result;
+    if (swap?.type !== 'exactInput' || swap.amount !== '1' || swap.limit !== '1.98' || swap.quoted !== '2.0' || swap.slippageBps !== 100) {
+      throw new Error(`Unexpected bounds ${JSON.stringify(swap)}`);
+    }
+    if (!formatTransactionResult(result).includes('receive at least 1.98 (quoted 2.0, 100 bps slippage)')) {
+      throw new Error('The tool output should show the bounds');
+    }
+  });
+});
+
+await test('V2 exact-output swaps use the default tolerance and a deadline', async () => {
+  await withSwaps({}, async (client, sent, wallet) => {
+    const result = await swapTokensForExactTokens(client, { amountOut: '3', path: ['TIN', 'TOUT'], to: wallet.address }) as TransactionResult;
+
+    const [deadline, [inner]] = routerDeadline.decodeFunctionData('multicall', sent()[0]);
+    const [amountOut, amountInMax] = router.decodeFunctionData('swapTokensForExactTokens', inner);
+    if (amountOut !== parseEther('3') || amountInMax !== parseEther('1.5075')) throw new Error(`Unexpected amounts ${amountOut} ${amountInMax}`);
+    if (Number(deadline) <= Date.now() / 1000) throw new Error(`Deadline ${deadline} has already passed`);
+    if (result.swap?.limit !== '1.5075' || result.swap.slippageBps !== 50) throw new Error(`Unexpected bounds ${JSON.stringify(result.swap)}`);
+  });
+});
+
+await test('tolerances above the maximum or next to an explicit limit are refused', async () => {
+  await withSwaps({}, async (client, sent, wallet) => {
+    const params = { tokenIn: 'TIN', tokenOut: 'TOUT', fee: 3000, recipient: wallet.address, amountIn: '1' };
+    for (const [extra, expected] of [
+      [{ slippageBps: 600 }, 'exceeds the maximum of 500 bps'],
+      [{ slippageBps: 12.5 }, 'whole number of basis points'],
+      [{ slippageBps: 10, amountOutMinimum: '1.9' }, 'not both'],
+    ] as const) {
+      try {
+        await exactInputSingle(client, { ...params, ...extra });
+        throw new Error(`${JSON.stringify(extra)} should be refused`);
+      } catch (error: any) {
+        if (!error.message.includes(expected)) throw error;
+      }
+    }
+    if (sent().length !== 0) throw new Error('Nothing should have been sent');
+  });
+
+  await withSwaps({ slippageBps: 700, maxSlippageBps: 1000 }, async (client, sent, wallet) => {
+    const result = await exactInputSingle(client, { tokenIn: 'TIN', tokenOut: 'TOUT', fee: 3000, recipient: wallet.address, amountIn: '1' }) as TransactionResult;
+    if (result.swap?.limit !== '1.86') throw new Error(`Unexpected minimum ${result.swap?.limit}`);
+  });
+});
+
+await test('the spending policy counts a slippage-derived maximum input', async () => {
+  await withSwaps({}, async (client, sent, wallet) => {
+    const engine = new PolicyEngine({ limits: { [TOKEN_IN]: { perTransaction: '1.5' } } });
+    const tools: StructuredToolInterface[] = createTools({ getClient: () => client, getPolicy: () => engine });
+    const swap = tools.find((tool) => tool.name === 'swap_tokens_for_exact_tokens')!;
+    const params = { amountOut: '3', path: [TOKEN_IN, TOKEN_OUT], to: wallet.address };
+
+    try {
+      await swap.invoke(params);
+      throw new Error('A maximum input of 1.5075 should exceed the limit');
+    } catch (error) {
+      if (!(error instanceof PolicyViolationError) || error.rule !== 'perTransaction') throw error;
+    }
+
+    const output = JSON.parse(await swap.invoke({ ...params, slippageBps: 0 }));
+    if (output.swap !== 'receive exactly 3, pay at most 1.5 (quoted 1.5, 0 bps slippage)' || sent().length !== 1) {
+      throw new Error(`Unexpected tool output ${JSON.stringify(output)}`);
+    }
+  });
+});
+
+await test('V3 swaps without a configured quoter need an explicit limit', async () => {
+  await withSwaps({}, async (client, sent, wallet) => {
+    const params = { tokenIn: 'TIN', tokenOut: 'TOUT', fee: 3000, recipient: wallet.address, amountIn: '1' };
+    try {
+      await exactInputSingle(client, { ...params, slippageBps: 100 });
+      throw new Error('A quoted minimum output needs a quoter');
+    } catch (error: any) {
+      if (!error.message.includes('No quoter address configured for network "citrea-testnet". Use a custom network profile that sets contracts.quoter.')) throw error;
+    }
+    if (sent().length !== 0) throw new Error('Nothing should have been sent');
+
+    await exactInputSingle(client, { ...params, amountOutMinimum: '1.5' });
+    if (sent().length !== 1) throw new Error('A swap with an explicit minimum should not need a quote');
+  }, false);
+});
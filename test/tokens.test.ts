@@ -0,0 +1,132 @@
+import { AbiCoder, Interface, Wallet, getAddress } from 'ethers';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import { createClient } from '../src/core/client.js';
+import { resolveToken, type TokenRegistryOptions } from '../src/core/tokens.js';
+import { createTools } from '../src/tools.js';
+import { transferErc20 } from '../src/tools/citrea/erc20Operations.js';
+import { erc20Abi } from '../src/tools/citrea/abis.js';
+import { startMockRpcServer, createMockChain } from './mockRpc.js';
+
+const USDC = '0x1111111111111111111111111111111111111111';
+const USDC_BRIDGED = '0x2222222222222222222222222222222222222222';
+const WBTC = '0x3333333333333333333333333333333333333333';
+const UNLISTED = '0x4444444444444444444444444444444444444444';
+const RECIPIENT = '0x936cEfb89d47F620EAb665D9Bd27BA06b0cF11c7';
+
+const coder = AbiCoder.defaultAbiCoder();
+const erc20 = new Interface(erc20Abi);
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+const dir = await mkdtemp(join(tmpdir(), 'citrea-tokens-'));
+const listPath = join(dir, 'tokens.json');
+await writeFile(listPath, JSON.stringify({
+  name: 'Test list',
+  tokens: [
+    { chainId: 5115, address: USDC, symbol: 'USDC', name: 'USD Coin', decimals: 6 },
+    { chainId: 5115, address: WBTC, symbol: 'WBTC', name: 'Wrapped BTC', decimals: 8 },
+    { chainId: 4114, address: USDC_BRIDGED, symbol: 'USDC', name: 'Mainnet USD Coin', decimals: 6 },
+  ],
+}));
+
+// Every token reports 9 decimals on chain, so listed metadata is distinguishable from a chain read
+const withNode = async (
+  tokens: TokenRegistryOptions,
+  run: (client: ReturnType<typeof createClient>, decimalsCalls: () => number, chain: ReturnType<typeof createMockChain>) => Promise<void>
+) => {
+  const chain = createMockChain();
+  let decimalsCalls = 0;
+  const node = await startMockRpcServer({
+    ...chain.handlers,
+    eth_call: ([call]: any[]) => {
+      const selector = (call.data ?? '0x').slice(0, 10);
+      if (selector === erc20.getFunction('decimals')!.selector) {
+        decimalsCalls++;
+        return coder.encode(['uint8'], [9]);
+      }
+      if (selector === erc20.getFunction('symbol')!.selector) return coder.encode(['string'], ['TKN']);
+      if (selector === erc20.getFunction('balanceOf')!.selector) return coder.encode(['uint256'], [10n ** 21n]);
+      return coder.encode(['bool'], [true]);
+    },
+  });
+  const client = createClient({ rpcUrl: node.url, privateKey: Wallet.createRandom().privateKey, tokens });
+
+  try {
+    await run(client, () => decimalsCalls, chain);
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+};
+
+try {
+  await test('symbols resolve case-insensitively from token lists on the current chain', async () => {
+    await withNode({ lists: [listPath] }, async (client, decimalsCalls) => {
+      const usdc = await resolveToken(client, 'usdc');
+      if (usdc.address !== USDC || usdc.decimals !== 6) throw new Error(`Unexpected USDC ${JSON.stringify(usdc)}`);
+      const wrapped = await resolveToken(client, 'WCBTC');
+      if (wrapped.address !== getAddress(client.network.contracts.wrappedNative!)) throw new Error('WCBTC should be seeded from the network');
+      if (decimalsCalls() !== 0) throw new Error('Listed tokens should not be read from chain');
+    });
+  });
+
+  await test('ambiguous and unknown symbols are refused', async () => {
+    const tokens = { lists: [listPath], tokens: [{ chainId: 5115, address: USDC_BRIDGED, symbol: 'USDC', name: 'Bridged USDC', decimals: 6 }] };
+    await withNode(tokens, async (client) => {
+      for (const [symbol, expected] of [['USDC', 'ambiguous'], ['DOGE', 'Unknown token symbol']]) {
+        try {
+          await resolveToken(client, symbol);
+          throw new Error(`${symbol} should not resolve`);
+        } catch (error: any) {
+          if (!error.message.includes(expected)) throw error;
+        }
+      }
+      // Chain reads never make a token resolvable by symbol
+      await resolveToken(client, UNLISTED);
+      try {
+        await resolveToken(client, 'TKN');
+        throw new Error('A token seen only on chain should not resolve by symbol');
+      } catch (error: any) {
+        if (!error.message.includes('Unknown token symbol')) throw error;
+      }
+    });
+  });
+
+  await test('token metadata is read from chain once per token', async () => {
+    await withNode({}, async (client, decimalsCalls) => {
+      await transferErc20(client, { tokenAddress: UNLISTED, toAddress: RECIPIENT, amount: '1' });
+      await transferErc20(client, { tokenAddress: UNLISTED.toLowerCase(), toAddress: RECIPIENT, amount: '2' });
+      if (decimalsCalls() !== 1) throw new Error(`Expected one decimals() call, got ${decimalsCalls()}`);
+    });
+  });
+
+  await test('transfers and the resolve_token tool accept symbols', async () => {
+    await withNode({ lists: [listPath] }, async (client, _decimalsCalls, chain) => {
+      await transferErc20(client, { tokenAddress: 'WBTC', toAddress: RECIPIENT, amount: '0.5' });
+      const [{ tx }] = [...chain.transactions.values()];
+      const [to, amount] = erc20.decodeFunctionData('transfer', tx.data);
+      if (getAddress(tx.to) !== WBTC || to !== RECIPIENT || amount !== 50_000_000n) {
+        throw new Error(`Unexpected transfer of ${amount} to ${to} on ${tx.to}`);
+      }
+
+      const tools: StructuredToolInterface[] = createTools({ getClient: () => client });
+      const resolve = tools.find((tool) => tool.name === 'resolve_token')!;
+      const output = JSON.parse(await resolve.invoke({ token: 'usdc' }));
+      if (output.address !== USDC || output.symbol !== 'USDC') throw new Error(`Unexpected tool output ${JSON.stringify(output)}`);
+    });
+  });
+} finally {
+  await rm(dir, { recursive: true, force: true });
+}
@@ -0,0 +1,117 @@
+import { Wallet } from 'ethers';
+import { createClient } from '../src/core/client.js';
+import { sendTransaction } from '../src/core/transactions.js';
+import type { TransactionResult } from '../src/core/results.js';
+import { transferETH } from '../src/tools/citrea/ETHOperations.js';
+import { startMockRpcServer, createMockChain } from './mockRpc.js';
+
+const RECIPIENT = '0x936cEfb89d47F620EAb665D9Bd27BA06b0cF11c7';
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+await test('parallel transfers get consecutive nonces', async () => {
+  const chain = createMockChain();
+  const node = await startMockRpcServer(chain.handlers);
+  const client = createClient({ rpcUrl: node.url, privateKey: Wallet.createRandom().privateKey });
+
+  try {
+    const results = await Promise.all(
+      [1, 2, 3, 4, 5].map(() => transferETH(client, { toAddress: RECIPIENT, amount: '0.001' }) as Promise<TransactionResult>)
+    );
+    const nonces = results.map(({ hash }) => chain.transactions.get(hash).tx.nonce).sort();
+    if (nonces.join(',') !== '0,1,2,3,4') {
+      throw new Error(`Expected nonces 0-4, got ${nonces.join(',')}`);
+    }
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+});
+
+await test('clients that share a key share its nonces', async () => {
+  const chain = createMockChain();
+  let rejected = 0;
+  const node = await startMockRpcServer({
+    ...chain.handlers,
+    eth_sendRawTransaction: (params) => {
+      try {
+        return chain.handlers.eth_sendRawTransaction(params);
+      } catch (error) {
+        rejected++;
+        throw error;
+      }
+    },
+  });
+  const { privateKey } = Wallet.createRandom();
+  const clients = [createClient({ rpcUrl: node.url, privateKey }), createClient({ rpcUrl: node.url, privateKey })];
+
+  try {
+    const results = await Promise.all(
+      [...clients, ...clients].map((client) => transferETH(client, { toAddress: RECIPIENT, amount: '0.001' }) as Promise<TransactionResult>)
+    );
+    const nonces = results.map(({ hash }) => chain.transactions.get(hash).tx.nonce).sort();
+    // One queue for both clients: no send ever had to be retried with a fresh nonce
+    if (nonces.join(',') !== '0,1,2,3' || rejected !== 0) {
+      throw new Error(`Expected nonces 0-3 across both clients without rejections, got ${nonces.join(',')} (${rejected} rejected)`);
+    }
+  } finally {
+    for (const client of clients) client.provider.destroy();
+    await node.close();
+  }
+});
+
+await test('a dropped transaction leaves no nonce gap', async () => {
+  const chain = createMockChain();
+  const node = await startMockRpcServer(chain.handlers);
+  const wallet = Wallet.createRandom();
+  const client = createClient({ rpcUrl: node.url, privateKey: wallet.privateKey });
+
+  try {
+    const first = await sendTransaction(client, { to: RECIPIENT, value: 1n });
+
+    // The node forgets the transaction, as if it fell out of the mempool
+    chain.transactions.delete(first.hash);
+    chain.receipts.delete(first.hash);
+    chain.nonces.set(wallet.address.toLowerCase(), 0);
+
+    const second = await sendTransaction(client, { to: RECIPIENT, value: 2n });
+    if (second.nonce !== 0) {
+      throw new Error(`Expected the dropped nonce 0 to be reused, got ${second.nonce}`);
+    }
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+});
+
+await test('"nonce too low" re-syncs from the chain and retries', async () => {
+  const chain = createMockChain();
+  let staleReads = 2;
+  const node = await startMockRpcServer({
+    ...chain.handlers,
+    // A lagging node reports an outdated count for the first read
+    eth_getTransactionCount: (params) => (staleReads-- > 0 ? '0x0' : chain.handlers.eth_getTransactionCount(params)),
+  });
+  const wallet = Wallet.createRandom();
+  const client = createClient({ rpcUrl: node.url, privateKey: wallet.privateKey });
+  chain.nonces.set(wallet.address.toLowerCase(), 3);
+
+  try {
+    const tx = await sendTransaction(client, { to: RECIPIENT, value: 1n, gasLimit: 21000n });
+    if (tx.nonce !== 3) {
+      throw new Error(`Expected nonce 3 after re-sync, got ${tx.nonce}`);
+    }
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+});
@@ -0,0 +1,99 @@
+import { Wallet } from 'ethers';
+import { createClient } from '../src/core/client.js';
+import { TransactionLifecycleError, type TransactionLifecycleOptions } from '../src/core/transactions.js';
+import type { TransactionResult } from '../src/core/results.js';
+import { transferETH } from '../src/tools/citrea/ETHOperations.js';
+import { startMockRpcServer, createMockChain } from './mockRpc.js';
+
+const RECIPIENT = '0x936cEfb89d47F620EAb665D9Bd27BA06b0cF11c7';
+
+const test = async (name: string, testFn: () => Promise<void>) => {
+  console.log(`\n🧪 Running test: ${name}`);
+  try {
+    await testFn();
+    console.log(`✅ Test passed: ${name}`);
+  } catch (error) {
+    console.error(`❌ Test failed: ${name}`, error);
+    process.exitCode = 1;
+  }
+};
+
+// A chain where the first broadcast gets stuck in the mempool and everything after it is mined
+const startStuckChain = async () => {
+  const chain = createMockChain({ mining: false });
+  const node = await startMockRpcServer({
+    ...chain.handlers,
+    eth_sendRawTransaction: (params) => {
+      const hash = chain.handlers.eth_sendRawTransaction(params);
+      chain.setMining(true);
+      return hash;
+    },
+  });
+  return { chain, node };
+};
+
+const withStuckTransfer = async (
+  transactions: TransactionLifecycleOptions,
+  check: (chain: ReturnType<typeof createMockChain>, outcome: { hash?: string; error?: any }) => void
+) => {
+  const { chain, node } = await startStuckChain();
+  const client = createClient({
+    rpcUrl: node.url,
+    privateKey: Wallet.createRandom().privateKey,
+    transactions: { timeoutMs: 300, ...transactions },
+  });
+
+  try {
+    const { hash } = await transferETH(client, { toAddress: RECIPIENT, amount: '0.001' }) as TransactionResult;
+    check(chain, { hash });
+  } catch (error) {
+    check(chain, { error });
+  } finally {
+    client.provider.destroy();
+    await node.close();
+  }
+};
+
+await test('a stuck transfer is sped up with a higher fee', async () => {
+  await withStuckTransfer({ onTimeout: 'speedUp', feeBumpPercent: 25 }, (chain, { hash, error }) => {
+    if (error) throw error;
+
+    const [original, replacement] = [...chain.transactions.values()].map((entry) => entry.tx);
+    if (hash !== replacement.hash) {
+      throw new Error(`Expected the replacement hash, got ${hash}`);
+    }
+    if (replacement.nonce !== original.nonce || replacement.to !== original.to || replacement.value !== original.value) {
+      throw new Error('Speed-up must resend the same call with the same nonce');
+    }
+    if (replacement.gasPrice !== (original.gasPrice * 125n) / 100n) {
+      throw new Error(`Expected a 25% fee bump, got ${original.gasPrice} -> ${replacement.gasPrice}`);
+    }
+  });
+});
+
+await test('a stuck transfer can be cancelled with a self-send', async () => {
+  await withStuckTransfer({ onTimeout: 'cancel' }, (chain, { error }) => {
+    if (!(error instanceof TransactionLifecycleError) || error.state !== 'cancelled') {
+      throw new Error(`Expected a cancelled lifecycle error, got ${error}`);
+    }
+
+    const [original, replacement] = [...chain.transactions.values()].map((entry) => entry.tx);
+    if (error.hash !== original.hash || error.replacementHash !== replacement.hash) {
+      throw new Error('Error should reference both the original and the cancelling transaction');
+    }
+    if (replacement.to !== original.from || replacement.value !== 0n || replacement.nonce !== original.nonce) {
+      throw new Error('Cancel must be a zero-value self-send with the same nonce');
+    }
+  });
+});
+
+await test('onTimeout "fail" reports a timeout without replacing', async () => {
+  await withStuckTransfer({ onTimeout: 'fail' }, (chain, { error }) => {
+    if (!(error instanceof TransactionLifecycleError) || error.state !== 'timeout') {
+      throw new Error(`Expected a timeout lifecycle error, got ${error}`);
+    }
+    if (chain.transactions.size !== 1) {
+      throw new Error('No replacement should have been sent');
+    }
+  });
+});